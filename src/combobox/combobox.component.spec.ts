@@ -1,7 +1,11 @@
 import { Component } from "@angular/core";
-import { TestBed } from "@angular/core/testing";
+import { TestBed, fakeAsync, tick, flush } from "@angular/core/testing";
 import { By	} from "@angular/platform-browser";
+import { of } from "rxjs";
+import { delay } from "rxjs/operators";
 import { StaticIconModule } from "./../icon/static-icon.module";
+import { I18nModule } from "./../i18n/i18n.module";
+import { Loading } from "./../loading/loading.component";
 
 import { ListItem } from "./../dropdown/list-item.interface";
 import { ComboBox } from "./combobox.component";
@@ -27,6 +31,22 @@ class ComboboxTest {
 	}
 }
 
+@Component({
+	template: `
+	<ibm-combo-box [search]="search" [type]="type">
+		<ibm-dropdown-list></ibm-dropdown-list>
+	</ibm-combo-box>`
+})
+class ComboboxSearchTest {
+	type = "multi";
+	queries = [];
+	search = (query: string) => {
+		this.queries.push(query);
+		const items = query === "none" ? [] : [{content: `${query} one`, selected: false}, {content: `${query} two`, selected: false}];
+		return of(items).pipe(delay(100));
+	}
+}
+
 xdescribe("Combo box", () => {
 	let fixture, wrapper;
 	beforeEach(() => {
@@ -37,10 +57,12 @@ xdescribe("Combo box", () => {
 				Pill,
 				DropdownList,
 				ComboboxTest,
-				ScrollableList
+				ScrollableList,
+				Loading
 			],
 			imports: [
-				StaticIconModule
+				StaticIconModule,
+				I18nModule
 			]
 		});
 	});
@@ -76,3 +98,79 @@ xdescribe("Combo box", () => {
 		expect(comboInput.nativeElement.value.trim()).toBe("one");
 	});
 });
+
+describe("Combo box search", () => {
+	beforeEach(() => {
+		TestBed.configureTestingModule({
+			declarations: [
+				ComboBox,
+				DropdownList,
+				ComboboxSearchTest,
+				ScrollableList,
+				Loading
+			],
+			imports: [
+				StaticIconModule,
+				I18nModule
+			]
+		});
+	});
+
+	it("should search items with the latest query and keep the selected items", fakeAsync(() => {
+		const fixture = TestBed.createComponent(ComboboxSearchTest);
+		fixture.detectChanges();
+		const comboBox: ComboBox = fixture.debugElement.query(By.css("ibm-combo-box")).componentInstance;
+		const contents = () => comboBox.view.items.map(item => item.content);
+
+		comboBox.onSearch("a");
+		tick(100);
+		comboBox.onSearch("ab");
+		tick(300);
+		expect(fixture.componentInstance.queries).toEqual(["ab"]);
+		expect(comboBox.loading).toBe(true);
+
+		// a new query cancels the one in flight
+		comboBox.onSearch("abc");
+		tick(350);
+		fixture.detectChanges();
+		expect(fixture.nativeElement.querySelector(".combobox_status ibm-loading")).toBeTruthy();
+		tick(100);
+		expect(comboBox.loading).toBe(false);
+		expect(contents()).toEqual(["abc one", "abc two"]);
+
+		comboBox.view.items[1].selected = true;
+		comboBox.onSearch("none");
+		tick(400);
+		fixture.detectChanges();
+		expect(comboBox.noResults).toBe(true);
+		expect(fixture.nativeElement.querySelector(".combobox_status").textContent.trim()).toEqual("No search results");
+		expect(contents()).toEqual(["abc two"]);
+
+		comboBox.onSearch("abc");
+		tick(400);
+		expect(contents()).toEqual(["abc one", "abc two"]);
+		expect(comboBox.view.getSelected().map(item => item.content)).toEqual(["abc two"]);
+		flush();
+	}));
+
+	it("should keep the selected item while searching in single mode", fakeAsync(() => {
+		const fixture = TestBed.createComponent(ComboboxSearchTest);
+		fixture.componentInstance.type = "single";
+		fixture.detectChanges();
+		const comboBox: ComboBox = fixture.debugElement.query(By.css("ibm-combo-box")).componentInstance;
+		comboBox.onSearch("abc");
+		tick(400);
+		comboBox.view.items[0].selected = true;
+		const onChange = jasmine.createSpy("onChange");
+		comboBox.registerOnChange(onChange);
+
+		comboBox.onSearch("xyz");
+		expect(comboBox.view.getSelected().map(item => item.content)).toEqual(["abc one"]);
+		expect(onChange).not.toHaveBeenCalled();
+		tick(400);
+		expect(comboBox.view.items.map(item => item.content)).toEqual(["abc one", "xyz one", "xyz two"]);
+		expect(comboBox.view.getSelected().map(item => item.content)).toEqual(["abc one"]);
+		expect(onChange).not.toHaveBeenCalled();
+		flush();
+	}));
+});
@@ -11,16 +11,36 @@ import {
 	AfterViewInit,
 	AfterContentInit,
 	HostBinding,
-	OnInit
+	OnInit,
+	OnDestroy
 } from "@angular/core";
 import { AbstractDropdownView } from "./../dropdown/abstract-dropdown-view.class";
 import { ListItem } from "./../dropdown/list-item.interface";
 import { NG_VALUE_ACCESSOR } from "@angular/forms";
+import { Observable, Subject, Subscription, of, timer } from "rxjs";
+import { debounce, distinctUntilChanged, tap, switchMap, catchError } from "rxjs/operators";
+import { I18n } from "./../i18n/i18n.module";
 
 /**
  * ComboBoxes are similar to dropdowns, except a combobox provides an input field for users to search items and (optionally) add their own.
  * Multi-select comboboxes also provide "pills" of selected items.
  *
+ * To search items on a server, set `search` to a function returning an `Observable` of the items matching the query:
+ *
+ * ```html
+ * <ibm-combo-box [search]="searchUsers" type="multi">
+ * 	<ibm-dropdown-list></ibm-dropdown-list>
+ * </ibm-combo-box>
+ * ```
+ * ```typescript
+ * searchUsers = (query: string) => this.http.get<Array<User>>(`/users?q=${query}`).pipe(
+ * 	map(users => users.map(user => ({content: user.name, selected: false})))
+ * );
+ * ```
+ *
+ * Queries are sent once users stop typing for `searchDebounce` milliseconds, and a new query cancels
+ * the one in flight. Selected items stay in the list even if they aren't in the latest results.
+ *
  * @export
  * @class ComboBox
  * @implements {OnChanges}
@@ -87,7 +107,19 @@ import { NG_VALUE_ACCESSOR } from "@angular/forms";
 		<div
 			#dropdownMenu
 			*ngIf="open">
-			<ng-content></ng-content>
+			<div [style.display]="(loading || noResults ? 'none' : null)">
+				<ng-content></ng-content>
+			</div>
+			<div
+				*ngIf="loading || noResults"
+				class="bx--list-box__menu"
+				role="status"
+				[attr.aria-busy]="loading">
+				<div class="bx--list-box__menu-item combobox_status">
+					<ibm-loading *ngIf="loading" size="sm" [title]="loadingText"></ibm-loading>
+					{{(loading ? loadingText : noResultsText)}}
+				</div>
+			</div>
 		</div>
 	`,
 	providers: [
@@ -98,7 +130,7 @@ import { NG_VALUE_ACCESSOR } from "@angular/forms";
 		}
 	]
 })
-export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentInit {
+export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentInit, OnDestroy {
 	/**
 	 * List of items to fill the content with.
 	 *
@@ -144,6 +176,27 @@ export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentI
 	 * Set to `true` to disable combobox.
 	 */
 	@HostBinding("attr.aria-disabled") @Input() disabled = false;
+	/**
+	 * Searches the items matching the query, for items that come from a server.
+	 * `items` are shown until the first results arrive.
+	 *
+	 * @memberof ComboBox
+	 */
+	@Input() search: (query: string) => Observable<Array<ListItem>>;
+	/**
+	 * Milliseconds to wait after the last key press before `search` is called.
+	 */
+	@Input() searchDebounce = 300;
+	/**
+	 * Text shown while `search` is in progress.
+	 * Defaults to the `LOADING.TITLE` value from the i18n service.
+	 */
+	@Input() loadingText = this.i18n.get().LOADING.TITLE;
+	/**
+	 * Text shown when `search` doesn't find any items.
+	 * Defaults to the `DROPDOWN.FILTER.NO_RESULTS` value from the i18n service.
+	 */
+	@Input() noResultsText = this.i18n.get().DROPDOWN.FILTER.NO_RESULTS;
 	/**
 	 * Emits a ListItem
 	 *
@@ -199,17 +252,25 @@ export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentI
 	public pills = [];
 	/** used to update the displayValue of `n-pill-input` */
 	public selectedValue = "";
+	/** `true` while `search` is in progress. */
+	public loading = false;
+	/** `true` if the last `search` didn't find any items. */
+	public noResults = false;
 
 	protected noop = this._noop.bind(this);
 	protected onTouchedCallback: () => void = this._noop;
 	protected propagateChangeCallback: (_: any) => void = this._noop;
+	/** Queries typed in the input, searched with `search`. */
+	protected searchQueries = new Subject<string>();
+	protected searchSubscription: Subscription;
 
 	/**
 	 * Creates an instance of ComboBox.
 	 * @param {ElementRef} elementRef
+	 * @param {I18n} i18n
 	 * @memberof ComboBox
 	 */
-	constructor(protected elementRef: ElementRef) {}
+	constructor(protected elementRef: ElementRef, protected i18n: I18n) {}
 
 	/**
 	 * Lifecycle hook.
@@ -229,6 +290,16 @@ export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentI
 		if (this.type === "multi") {
 			this.class = "bx--multi-select bx--combo-box bx--list-box";
 		}
+		this.searchSubscription = this.searchQueries.pipe(
+			debounce(() => timer(this.searchDebounce)),
+			distinctUntilChanged(),
+			tap(() => {
+				this.loading = true;
+				this.noResults = false;
+			}),
+			// switching to the latest query cancels the request in flight
+			switchMap(query => this.search(query).pipe(catchError(() => of([]))))
+		).subscribe(items => this.updateSearchResults(items));
 	}
 
 	/**
@@ -267,6 +338,13 @@ export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentI
 		}
 	}
 
+	/**
+	 * Cancels the search in progress.
+	 */
+	ngOnDestroy() {
+		this.searchSubscription.unsubscribe();
+	}
+
 	/**
 	 * Binds event handlers against the rendered view
 	 */
@@ -383,16 +461,23 @@ export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentI
 	 * @param {string} searchString
 	 */
 	public onSearch(searchString) {
-		this.view["filterBy"](searchString);
+		if (this.search) {
+			this.searchQueries.next(searchString);
+		} else {
+			this.view["filterBy"](searchString);
+		}
 		if (searchString !== "") {
 			this.openDropdown();
 		} else {
 			this.selectedValue = "";
 		}
-		if (this.type === "single") {
+		// results of `search` keep the selected item, even if it doesn't match the query
+		if (this.type === "single" && !this.search) {
 			// deselect if the input doesn't match the content
-			// of any given item
-			const matches = this.view.items.some(item => item.content.toLowerCase().includes(searchString.toLowerCase()));
+			// of any given item, as matched by the filter of the view if it has one
+			const matches = this.view["displayItems"]
+				? this.view["displayItems"].length > 0
+				: this.view.items.some(item => item.content.toLowerCase().includes(searchString.toLowerCase()));
 			if (!matches) {
 				const selected = this.view.getSelected();
 				if (selected) {
@@ -435,6 +520,23 @@ export class ComboBox implements OnChanges, OnInit, AfterViewInit, AfterContentI
 		});
 	}
 
+	/**
+	 * Shows the results of `search` in the list, along with the selected items that aren't in the results.
+	 *
+	 * @protected
+	 * @param {Array<ListItem>} results
+	 * @memberof ComboBox
+	 */
+	protected updateSearchResults(results: Array<ListItem>) {
+		const selected = this.view.getSelected() || [];
+		const isSelected = (item: ListItem) => selected.some(selectedItem => selectedItem.content === item.content);
+		const kept = selected.filter(selectedItem => !results.some(item => item.content === selectedItem.content));
+		this.loading = false;
+		this.noResults = results.length === 0;
+		this.items = kept.concat(results.map(item => Object.assign({}, item, {selected: isSelected(item)})));
+		this.view["updateList"](this.items, false);
+	}
+
 	protected updateSelected() {
 		const selected = this.view.getSelected();
 		if (selected) {
@@ -3,6 +3,8 @@ import { CommonModule } from "@angular/common";
 
 import { StaticIconModule } from "./../icon/static-icon.module";
 import { PillInputModule } from "./../pill-input/pill-input.module";
+import { LoadingModule } from "./../loading/loading.module";
+import { I18nModule } from "./../i18n/i18n.module";
 
 import { ComboBox } from "./combobox.component";
 import { DropdownModule } from "../dropdown/dropdown.module";
@@ -22,7 +24,9 @@ export { ComboBox } from "./combobox.component";
 		CommonModule,
 		PillInputModule,
 		StaticIconModule,
-		DropdownModule
+		DropdownModule,
+		LoadingModule,
+		I18nModule
 	]
 })
 export class ComboBoxModule {}
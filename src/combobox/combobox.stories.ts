@@ -3,8 +3,18 @@ import { withNotes } from "@storybook/addon-notes";
 import { action } from "@storybook/addon-actions";
 import { withKnobs, boolean, object } from "@storybook/addon-knobs/angular";
 
+import { of } from "rxjs";
+import { delay } from "rxjs/operators";
+
 import { ComboBoxModule } from "../";
 
+const hosts = Array.from(Array(20000), (_, i) => `host-${i + 1}.example.com`);
+const searchHosts = (query: string) => of(hosts
+	.filter(host => host.includes(query.toLowerCase()))
+	.slice(0, 20)
+	.map(host => ({content: host, selected: false}))
+).pipe(delay(500));
+
 storiesOf("Combobox", module)
 	.addDecorator(
 		moduleMetadata({
@@ -61,4 +71,45 @@ storiesOf("Combobox", module)
 			],
 			selected: action("selection changed")
 		}
+	}))
+	.add("With remote search", () => ({
+		template: `
+			<ibm-combo-box [search]="search" type="multi" placeholder="Search hosts..." (selected)="selected($event)">
+				<ibm-dropdown-list></ibm-dropdown-list>
+			</ibm-combo-box>
+		`,
+		props: {
+			search: searchHosts,
+			selected: action("selection changed")
+		}
+	}))
+	.add("With fuzzy matching", () => ({
+		template: `
+			<ibm-combo-box [items]="items" placeholder="Search cities..." (selected)="selected($event)">
+				<ibm-dropdown-list matcher="fuzzy" [ignoreDiacritics]="true"></ibm-dropdown-list>
+			</ibm-combo-box>
+		`,
+		props: {
+			items: ["Bogot\u00e1", "Gen\u00e8ve", "K\u00f8benhavn", "Montr\u00e9al", "S\u00e3o Paulo", "Z\u00fcrich"]
+				.map(content => ({content, selected: false})),
+			selected: action("selection changed")
+		}
+	}))
+	.add("With groups", () => ({
+		template: `
+			<ibm-combo-box [items]="items" placeholder="Search produce..." (selected)="selected($event)">
+				<ibm-dropdown-list></ibm-dropdown-list>
+			</ibm-combo-box>
+		`,
+		props: {
+			items: [
+				{ content: "Apple", selected: false, group: "Fruits" },
+				{ content: "Banana", selected: false, group: "Fruits" },
+				{ content: "Cherry", selected: false, group: "Fruits" },
+				{ content: "Carrot", selected: false, group: "Vegetables" },
+				{ content: "Leek", selected: false, group: "Vegetables" },
+				{ content: "Potato", selected: false, group: "Vegetables" }
+			],
+			selected: action("selection changed")
+		}
 	}));
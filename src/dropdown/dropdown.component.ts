@@ -319,7 +319,9 @@ export class Dropdown implements OnInit, AfterContentInit, OnDestroy {
 			if (this.type === "multi") {
 				return of(`${selected.length} ${this.selectedLabel}`);
 			} else {
-				return of(selected[0].content);
+				// remove the conditional once this api is settled and part of abstract-dropdown-view.class
+				const viewValue = this.view["getDisplayValue"] ? this.view["getDisplayValue"]() : null;
+				return of(viewValue || selected[0].content);
 			}
 		} else if (selected) {
 			return of(this.displayValue);
@@ -5,26 +5,32 @@ import { StaticIconModule } from "./../icon/static-icon.module";
 
 import { Dropdown } from "./dropdown.component";
 import { DropdownList } from "./list/dropdown-list.component";
+import { DropdownTree } from "./tree/dropdown-tree.component";
 
 import { ScrollableList } from "./scrollable-list.directive";
 import { I18nModule } from "./../i18n/i18n.module";
 
 export { Dropdown } from "./dropdown.component";
 export { DropdownList } from "./list/dropdown-list.component";
+export { DropdownTree } from "./tree/dropdown-tree.component";
 
 export { ScrollableList } from "./scrollable-list.directive";
 export { AbstractDropdownView } from "./abstract-dropdown-view.class";
 export { ListItem } from "./list-item.interface";
+export { ListItemMatch, ListItemMatcher } from "./list-item-match.interface";
+export { listItemMatchers } from "./dropdowntools";
 
 @NgModule({
 	declarations: [
 		Dropdown,
 		DropdownList,
+		DropdownTree,
 		ScrollableList
 	],
 	exports: [
 		Dropdown,
 		DropdownList,
+		DropdownTree,
 		ScrollableList
 	],
 	imports: [
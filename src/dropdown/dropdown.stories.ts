@@ -85,4 +85,93 @@ storiesOf("Dropdown", module)
 			],
 			model: null
 		}
+	}))
+	.add("With virtual scroll", () => ({
+		template: `
+		<ibm-dropdown
+			placeholder="Select a host"
+			(selected)="selected($event)">
+			<ibm-dropdown-list [items]="items" [virtualScroll]="true"></ibm-dropdown-list>
+		</ibm-dropdown>
+		`,
+		props: {
+			items: Array.from(Array(20000), (_, i) => ({ content: `host-${i + 1}.example.com`, selected: false })),
+			selected: action("Selected fired for dropdown")
+		}
+	}))
+	.add("With groups", () => ({
+		template: `
+		<div style="width: 300px">
+			<ibm-dropdown
+				placeholder="Select a language"
+				(selected)="selected($event)">
+				<ibm-dropdown-list [items]="items"></ibm-dropdown-list>
+			</ibm-dropdown>
+			<br>
+			<ibm-dropdown
+				type="multi"
+				placeholder="Select languages"
+				(selected)="selected($event)">
+				<ibm-dropdown-list [items]="items"></ibm-dropdown-list>
+			</ibm-dropdown>
+		</div>
+		`,
+		props: {
+			items: [
+				{ content: "English", selected: false, group: "Suggested" },
+				{ content: "French", selected: false, group: "Suggested" },
+				{ content: "German", selected: false, group: "All languages" },
+				{ content: "Japanese", selected: false, group: "All languages" },
+				{ content: "Portuguese", selected: false, group: "All languages" }
+			],
+			selected: action("Selected fired for dropdown")
+		}
+	}))
+	.add("With tree", () => ({
+		template: `
+		<div style="width: 300px">
+			<ibm-dropdown
+				placeholder="Select an office"
+				(selected)="selected($event)">
+				<ibm-dropdown-tree [items]="items"></ibm-dropdown-tree>
+			</ibm-dropdown>
+			<br>
+			<ibm-dropdown
+				type="multi"
+				placeholder="Select offices"
+				(selected)="selected($event)">
+				<ibm-dropdown-tree [items]="items"></ibm-dropdown-tree>
+			</ibm-dropdown>
+		</div>
+		`,
+		props: {
+			items: [
+				{
+					content: "Europe",
+					selected: false,
+					expanded: true,
+					items: [
+						{
+							content: "Germany",
+							selected: false,
+							items: [
+								{ content: "Berlin", selected: false },
+								{ content: "Munich", selected: false }
+							]
+						},
+						{ content: "Paris", selected: false },
+						{ content: "Dublin", selected: false, disabled: true }
+					]
+				},
+				{
+					content: "Asia",
+					selected: false,
+					items: [
+						{ content: "Tokyo", selected: false },
+						{ content: "Singapore", selected: false }
+					]
+				}
+			],
+			selected: action("Selected fired for dropdown")
+		}
 	}));
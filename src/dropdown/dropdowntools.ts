@@ -1,21 +1,28 @@
 import { Observable, fromEvent } from "rxjs";
 import { debounceTime, map, filter } from "rxjs/operators";
 
+import { ListItemMatch } from "./list-item-match.interface";
+
 /**
  * returns an observable bound to keydown events that
  * filters to a single element where the first letter of
  * it's textContent matches the key pressed
  *
  * @param {HTMLElement} target element to watch
- * @param {Array<HTMLElement>} elements elements to search
+ * @param {Array<HTMLElement>} elements elements to search, or any other objects along with `getText`
+ * @param getText returns the text of an element, `textContent` by default
  */
-export function watchFocusJump(target: HTMLElement, elements): Observable<HTMLElement> {
+export function watchFocusJump<T = HTMLElement>(
+	target: HTMLElement,
+	elements: Array<T>,
+	getText: (element: T) => string = (element: any) => element.textContent
+): Observable<T> {
 	return fromEvent(target, "keydown")
 		.pipe(
 			debounceTime(150),
 			map((ev: KeyboardEvent) => {
 				let el = elements.find((itemEl) =>
-					itemEl.textContent.trim().toLowerCase().startsWith(ev.key));
+					getText(itemEl).trim().toLowerCase().startsWith(ev.key));
 				if (el) { return el; }
 			}),
 			filter(el => !!el)
@@ -26,18 +33,114 @@ export function watchFocusJump(target: HTMLElement, elements): Observable<HTMLEl
 export const treetools = {
 	/** finds an item in a set of items and returns the item and path to the item as an array */
 	find: function(items, itemToFind, path = []) {
-		let found;
 		for (let i of items) {
 			if (i === itemToFind) {
-				path.push(i);
-				found = i;
+				return {found: i, path: path.concat(i)};
+			}
+			if (i.items) {
+				// every branch gets its own copy of the path, so dead ends don't end up in it
+				const result = this.find(i.items, itemToFind, path.concat(i));
+				if (result.found) { return result; }
 			}
-			if (i.items && !found) {
-				path.push(i);
-				found = this.find(i.items, itemToFind, path).found;
-				if (!found) { path = []; }
+		}
+		return {found: undefined, path: []};
+	}
+};
+
+/**
+ * Lower cases `text`, and takes the diacritics out of it if `ignoreDiacritics` is `true`.
+ *
+ * Returns the index in `text` every character of the result comes from along with the result,
+ * so matches can be mapped back to `text`.
+ *
+ * @param {string} text
+ * @param {boolean} [ignoreDiacritics=false]
+ */
+export function normalizeText(text: string, ignoreDiacritics = false): {text: string, indexes: Array<number>} {
+	let normalized = "";
+	const indexes = [];
+	for (let i = 0; i < text.length; i++) {
+		let char = text[i].toLowerCase();
+		if (ignoreDiacritics && char.normalize) {
+			// split the accented characters and drop the combining marks
+			char = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+		}
+		for (let j = 0; j < char.length; j++) {
+			normalized += char[j];
+			indexes.push(i);
+		}
+	}
+	return {text: normalized, indexes};
+}
+
+/** checks if a word starts at `index` of `text` */
+function isWordStart(text: string, index: number) {
+	return index === 0 || /[\s!-\/:-@\[-`{-~]/.test(text[index - 1]);
+}
+
+/**
+ * bundle of the built-in matchers of `DropdownList`, they find a lower cased `query` in a lower cased `text`
+ * and return `null` if it's not there
+ */
+export const listItemMatchers: {[name: string]: (text: string, query: string) => ListItemMatch} = {
+	/** matches `text` starting with `query`, the shorter the text the better */
+	prefix: function(text: string, query: string): ListItemMatch {
+		if (!text.startsWith(query)) {
+			return null;
+		}
+		return {score: query.length / text.length, ranges: [{start: 0, end: query.length}]};
+	},
+	/** matches `query` anywhere in `text`, the earlier the better */
+	substring: function(text: string, query: string): ListItemMatch {
+		const index = text.indexOf(query);
+		if (index < 0) {
+			return null;
+		}
+		return {score: 1 / (1 + index), ranges: [{start: index, end: index + query.length}]};
+	},
+	/** matches `query` at the start of any word of `text`, the earlier the better */
+	"word-start": function(text: string, query: string): ListItemMatch {
+		for (let index = text.indexOf(query); index >= 0; index = text.indexOf(query, index + 1)) {
+			if (isWordStart(text, index)) {
+				return {score: 1 / (1 + index), ranges: [{start: index, end: index + query.length}]};
+			}
+		}
+		return null;
+	},
+	/**
+	 * matches the characters of `query` in order anywhere in `text`.
+	 * Consecutive characters and characters at the start of words score higher, gaps score lower.
+	 */
+	fuzzy: function(text: string, query: string): ListItemMatch {
+		let best: ListItemMatch = null;
+		for (let start = text.indexOf(query[0]); start >= 0; start = text.indexOf(query[0], start + 1)) {
+			const positions = [start];
+			for (let i = 1; i < query.length; i++) {
+				const position = text.indexOf(query[i], positions[i - 1] + 1);
+				if (position < 0) {
+					// starting later won't find the character either
+					return best;
+				}
+				positions.push(position);
+			}
+
+			const gaps = positions[positions.length - 1] - start + 1 - query.length;
+			const score = positions.reduce((sum, position, i) => sum + 1 +
+				(i > 0 && position === positions[i - 1] + 1 ? 2 : 0) +
+				(isWordStart(text, position) ? 1 : 0), 0) - gaps * 0.1 - start * 0.01;
+			if (!best || score > best.score) {
+				const ranges = [];
+				positions.forEach(position => {
+					const last = ranges[ranges.length - 1];
+					if (last && last.end === position) {
+						last.end++;
+					} else {
+						ranges.push({start: position, end: position + 1});
+					}
+				});
+				best = {score, ranges};
 			}
 		}
-		return {found, path};
+		return best;
 	}
 };
@@ -0,0 +1,29 @@
+import { ListItem } from "./list-item.interface";
+
+/**
+ * Describes how a `ListItem` matches a filter query, see `DropdownList.matcher`.
+ *
+ * @export
+ * @interface ListItemMatch
+ */
+export interface ListItemMatch {
+	/**
+	 * How well the item matches, items with higher scores are listed first.
+	 *
+	 * @type {number}
+	 * @memberof ListItemMatch
+	 */
+	score: number;
+	/**
+	 * Parts of `content` that match the query and get highlighted, `end` is exclusive.
+	 *
+	 * @type {Array<{start: number, end: number}>}
+	 * @memberof ListItemMatch
+	 */
+	ranges: Array<{start: number, end: number}>;
+}
+
+/**
+ * Custom matcher of `DropdownList`. Returns how `item` matches `query`, or `null` if it doesn't.
+ */
+export type ListItemMatcher = (item: ListItem, query: string) => ListItemMatch;
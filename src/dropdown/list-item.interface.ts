@@ -8,6 +8,7 @@
  * 	selected: boolean;
  * 	disabled?: boolean;
  * 	items?: ListItem[];
+ * 	group?: string;
  * }
  * ```
  *
@@ -44,6 +45,12 @@ export interface ListItem {
 	 * @memberof ListItem
 	 */
 	items?: ListItem[];
+	/**
+	 * Optional name of the group the item is listed under.
+	 * @type {string}
+	 * @memberof ListItem
+	 */
+	group?: string;
 
 	/**
 	 * Allows for any other custom properties to be included in the ListItem
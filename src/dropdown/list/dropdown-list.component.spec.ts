@@ -1,5 +1,5 @@
 import { Component } from "@angular/core";
-import { TestBed } from "@angular/core/testing";
+import { TestBed, fakeAsync, flush } from "@angular/core/testing";
 import { By	} from "@angular/platform-browser";
 import { StaticIconModule } from "./../../icon/static-icon.module";
 
@@ -60,6 +60,125 @@ describe("Dropdown list", () => {
 		itemEl.triggerEventHandler("click", null);
 		expect(wrapper.selected.content).toBe("one");
 	});
+
+	it("should filter fuzzy, best matches first, and highlight the matches", fakeAsync(() => {
+		fixture = TestBed.createComponent(DropdownList);
+		const list: DropdownList = fixture.componentInstance;
+		fixture.detectChanges();
+		list.updateList(["Argentina", "Guernsey", "Germany"].map(content => ({content, selected: false})));
+		list.matcher = "fuzzy";
+
+		list.filterBy("gy");
+		fixture.detectChanges();
+
+		expect(list.displayItems.map(item => item.content)).toEqual(["Germany", "Guernsey"]);
+		const options = fixture.nativeElement.querySelectorAll("[role='option']");
+		expect(options[0].textContent.replace(/\s/g, "")).toEqual("Germany");
+		expect(Array.from(options[0].querySelectorAll(".dropdown-list_match")).map((match: HTMLElement) => match.textContent))
+			.toEqual(["G", "y"]);
+
+		list.filterBy("");
+		expect(list.displayItems.length).toBe(3);
+		expect(list.highlights.size).toBe(0);
+		flush();
+	}));
+
+	it("should match word starts and prefixes ignoring diacritics", fakeAsync(() => {
+		fixture = TestBed.createComponent(DropdownList);
+		const list: DropdownList = fixture.componentInstance;
+		fixture.detectChanges();
+		list.updateList(["S\u00e3o Paulo", "Paul\u00ednia", "Saopolis"].map(content => ({content, selected: false})));
+
+		list.matcher = "word-start";
+		list.filterBy("pau");
+		expect(list.displayItems.map(item => item.content)).toEqual(["Paul\u00ednia", "S\u00e3o Paulo"]);
+
+		list.matcher = "prefix";
+		list.filterBy("sao");
+		expect(list.displayItems.map(item => item.content)).toEqual(["Saopolis"]);
+
+		list.ignoreDiacritics = true;
+		list.filterBy("sao");
+		expect(list.displayItems.map(item => item.content)).toEqual(["Saopolis", "S\u00e3o Paulo"]);
+		expect(list.matches.get(list.displayItems[1]).ranges).toEqual([{start: 0, end: 3}]);
+
+		list.matcher = (item, query) => item.content.endsWith(query) ? {score: 1, ranges: []} : null;
+		list.filterBy("lo");
+		expect(list.displayItems.map(item => item.content)).toEqual(["S\u00e3o Paulo"]);
+		flush();
+	}));
+
+	it("should list the items under their group headers and skip the headers", fakeAsync(() => {
+		fixture = TestBed.createComponent(DropdownList);
+		const list: DropdownList = fixture.componentInstance;
+		fixture.detectChanges();
+		list.updateList([
+			{content: "Apple", selected: false, group: "Fruits"},
+			{content: "Carrot", selected: false, group: "Vegetables"},
+			{content: "Banana", selected: false, group: "Fruits"},
+			{content: "Other", selected: false}
+		]);
+		fixture.detectChanges();
+		flush();
+
+		const groups = () => Array.from(fixture.nativeElement.querySelectorAll("[role='group']")) as HTMLElement[];
+		expect(groups().length).toBe(2);
+		const header = fixture.nativeElement.querySelector(`#${groups()[0].getAttribute("aria-labelledby")}`);
+		expect(header.textContent.trim()).toEqual("Fruits");
+		expect(Array.from(groups()[0].querySelectorAll("[role='option']")).map((option: HTMLElement) => option.textContent.trim()))
+			.toEqual(["Apple", "Banana"]);
+		expect(list.displayItems.map(item => item.content)).toEqual(["Apple", "Banana", "Carrot", "Other"]);
+
+		list.getNextElement();
+		expect(list.getNextElement().textContent.trim()).toEqual("Banana");
+		expect(list.getNextElement().textContent.trim()).toEqual("Carrot");
+
+		list.filterBy("an");
+		fixture.detectChanges();
+		expect(groups().length).toBe(1);
+		expect(list.displayGroups.map(group => group.label)).toEqual(["Fruits"]);
+		list.filterBy("r");
+		fixture.detectChanges();
+		flush();
+		expect(list.displayGroups.map(group => group.label)).toEqual(["Vegetables", undefined]);
+		expect(groups().length).toBe(1);
+		expect(fixture.nativeElement.querySelectorAll("[role='option']").length).toBe(2);
+		expect(list.getNextElement().textContent.trim()).toEqual("Carrot");
+		flush();
+	}));
+
+	it("should render only the items in view and navigate all of them", fakeAsync(() => {
+		fixture = TestBed.createComponent(DropdownList);
+		const list: DropdownList = fixture.componentInstance;
+		let selected;
+		list.select.subscribe(event => selected = event.item);
+		list.virtualScroll = true;
+		fixture.detectChanges();
+		list.updateList(Array.from(Array(10000), (_, i) => ({content: `Item ${i}`, selected: false})));
+		flush();
+		fixture.detectChanges();
+
+		const ul = fixture.nativeElement.querySelector("ul");
+		const options = () => fixture.nativeElement.querySelectorAll("[role='option']");
+		expect(options().length).toBeGreaterThan(0);
+		expect(options().length).toBeLessThan(100);
+
+		const keydown = (key: string): any => ({key, target: ul, shiftKey: false, preventDefault() {}});
+		list.onListKeyDown(keydown("ArrowDown"));
+		list.onListKeyDown(keydown("ArrowDown"));
+		fixture.detectChanges();
+		expect(ul.getAttribute("aria-activedescendant")).toEqual(`${list.id}-1`);
+		expect(fixture.nativeElement.querySelector(`#${list.id}-1`).textContent.trim()).toEqual("Item 1");
+
+		list.onListKeyDown(keydown("Enter"));
+		expect(selected.content).toEqual("Item 1");
+
+		list.filterBy("Item 9999");
+		fixture.detectChanges();
+		expect(list.getNextItem().content).toEqual("Item 9999");
+		expect(options().length).toEqual(1);
+		flush();
+	}));
 });
 
 describe("Dropdown multi list", () => {
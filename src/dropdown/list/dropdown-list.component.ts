@@ -14,7 +14,8 @@ import {
 
 import { AbstractDropdownView } from "./../abstract-dropdown-view.class";
 import { ListItem } from "./../list-item.interface";
-import { watchFocusJump } from "./../dropdowntools";
+import { ListItemMatch, ListItemMatcher } from "./../list-item-match.interface";
+import { watchFocusJump, normalizeText, listItemMatchers } from "./../dropdowntools";
 import { ScrollableList } from "./../scrollable-list.directive";
 
 
@@ -42,6 +43,31 @@ import { ScrollableList } from "./../scrollable-list.directive";
  * 	}
  * ];
  * ```
+ *
+ * `filterBy()` filters the items with `matcher`, lists the best matches first and highlights the
+ * matching parts of the items. `ibm-combo-box` filters by the text typed in its input.
+ *
+ * ```html
+ * <ibm-combo-box [items]="countries">
+ * 	<ibm-dropdown-list matcher="fuzzy" [ignoreDiacritics]="true"></ibm-dropdown-list>
+ * </ibm-combo-box>
+ * ```
+ *
+ * For lists of thousands of items set `virtualScroll` to `true`, so only the items scrolled into view are rendered.
+ * The list then keeps the focus and points `aria-activedescendant` at the active item, so keyboard navigation
+ * and type-ahead work over all the items. Items have to be `virtualItemHeight` pixels high.
+ *
+ * Items with the same `group` are listed together under a header with the name of the group, in the order
+ * the groups first appear in. Filtering leaves out the groups without matching items, and keyboard navigation
+ * moves from item to item over the headers. Headers aren't shown when `virtualScroll` is on.
+ *
+ * ```typescript
+ * listItems = [
+ * 	{ content: "Apple", selected: false, group: "Fruits" },
+ * 	{ content: "Carrot", selected: false, group: "Vegetables" },
+ * 	{ content: "Banana", selected: false, group: "Fruits" }
+ * ];
+ * ```
  */
 @Component({
 	selector: "ibm-dropdown-list",
@@ -49,16 +75,62 @@ import { ScrollableList } from "./../scrollable-list.directive";
 		<ul
 			#list
 			role="listbox"
-			class="bx--list-box__menu">
-			<li tabindex="{{item.disabled? -1 : 0}}"
+			class="bx--list-box__menu"
+			[attr.tabindex]="(virtualScroll ? 0 : null)"
+			[attr.aria-activedescendant]="activeDescendant"
+			[attr.aria-multiselectable]="(type === 'multi' ? true : null)"
+			(scroll)="updateVirtualItems()"
+			(keydown)="onListKeyDown($event)">
+			<li
+				*ngIf="virtualScroll"
+				class="dropdown-list_virtual-spacer"
+				role="presentation"
+				[ngStyle]="{'height.px': virtualOffsetTop}">
+			</li>
+			<ng-container
+				*ngFor="let group of (virtualScroll ? [{label: null, items: virtualItems, start: virtualStart}] : displayGroups); let g = index">
+				<li
+					*ngIf="group.label"
+					role="group"
+					class="dropdown-list_group"
+					[attr.aria-labelledby]="id + '-group-' + g">
+					<div class="dropdown-list_group-header" [id]="id + '-group-' + g">
+						{{group.label}}
+					</div>
+					<ul class="dropdown-list_group-list" role="presentation">
+						<ng-container *ngFor="let item of group.items; let i = index">
+							<ng-container *ngTemplateOutlet="optionTemplate; context: {item: item, position: group.start + i}"></ng-container>
+						</ng-container>
+					</ul>
+				</li>
+				<ng-container *ngIf="!group.label">
+					<ng-container *ngFor="let item of group.items; let i = index">
+						<ng-container *ngTemplateOutlet="optionTemplate; context: {item: item, position: group.start + i}"></ng-container>
+					</ng-container>
+				</ng-container>
+			</ng-container>
+			<li
+				*ngIf="virtualScroll"
+				class="dropdown-list_virtual-spacer"
+				role="presentation"
+				[ngStyle]="{'height.px': virtualOffsetBottom}">
+			</li>
+		</ul>
+		<ng-template #optionTemplate let-item="item" let-position="position">
+			<li
+				[attr.tabindex]="(virtualScroll ? null : (item.disabled ? -1 : 0))"
+				[attr.id]="(virtualScroll ? id + '-' + position : null)"
+				[attr.aria-selected]="!!item.selected"
+				[attr.aria-disabled]="(item.disabled ? true : null)"
 				role="option"
-				*ngFor="let item of displayItems"
 				(click)="doClick($event, item)"
 				(keydown)="doKeyDown($event, item)"
 				class="bx--list-box__menu-item"
+				[ngStyle]="{'height.px': (virtualScroll ? virtualItemHeight : null)}"
 				[ngClass]="{
 					selected: item.selected,
-					disabled: item.disabled
+					disabled: item.disabled,
+					'bx--list-box__menu-item--highlighted': virtualScroll && position === activeIndex
 				}">
 				<div
 					*ngIf="!listTpl && type === 'multi'"
@@ -70,16 +142,34 @@ import { ScrollableList } from "./../scrollable-list.directive";
 						[disabled]="item.disabled"
 						(click)="doClick($event, item)"
 						tabindex="-1">
-					<label class="bx--checkbox-label">{{item.content}}</label>
+					<label class="bx--checkbox-label">
+						<ng-container *ngTemplateOutlet="contentTemplate; context: {item: item}"></ng-container>
+					</label>
 				</div>
-				<ng-container *ngIf="!listTpl && type === 'single'">{{item.content}}</ng-container>
+				<ng-container *ngIf="!listTpl && type === 'single'">
+					<ng-container *ngTemplateOutlet="contentTemplate; context: {item: item}"></ng-container>
+				</ng-container>
 				<ng-template
 					*ngIf="listTpl"
-					[ngTemplateOutletContext]="{item: item}"
+					[ngTemplateOutletContext]="{item: item, match: matches.get(item)}"
 					[ngTemplateOutlet]="listTpl">
 				</ng-template>
 			</li>
-		</ul>`,
+		</ng-template>
+		<ng-template #contentTemplate let-item="item">
+			<ng-container *ngIf="!highlights.has(item)">{{item.content}}</ng-container>
+			<ng-container *ngFor="let part of highlights.get(item)">
+				<strong *ngIf="part.match" class="dropdown-list_match">{{part.text}}</strong>
+				<ng-container *ngIf="!part.match">{{part.text}}</ng-container>
+			</ng-container>
+		</ng-template>`,
+	styles: [`
+		.dropdown-list_group-header {
+			padding: 0.5rem 1rem;
+			font-size: 0.75rem;
+			font-weight: 600;
+		}
+	`],
 	providers: [
 		{
 			provide: AbstractDropdownView,
@@ -88,6 +178,11 @@ import { ScrollableList } from "./../scrollable-list.directive";
 	]
 }) // conceptually this extends list-group, but we dont have to
 export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChanges, OnDestroy {
+	/**
+	 * Tracks the total number of lists instantiated. Used to generate unique IDs
+	 */
+	static listCount = 0;
+
 	/**
 	 * The list items belonging to the `DropdownList`.
 	 */
@@ -113,6 +208,37 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 	 * item selection.
 	 */
 	@Input() type: "single" | "multi" = "single";
+	/**
+	 * How `filterBy()` matches the items, ignoring case:
+	 *
+	 * - `"prefix"` matches the items starting with the query
+	 * - `"substring"` matches the items containing the query
+	 * - `"word-start"` matches the items with a word starting with the query
+	 * - `"fuzzy"` matches the items containing the characters of the query in order, scoring closer matches higher
+	 *
+	 * Pass a `ListItemMatcher` function for custom matching.
+	 */
+	@Input() matcher: "prefix" | "substring" | "word-start" | "fuzzy" | ListItemMatcher = "substring";
+	/**
+	 * Set to `true` to let the built-in matchers match characters with diacritics, so "e" matches "é".
+	 */
+	@Input() ignoreDiacritics = false;
+	/**
+	 * Set to `true` to render only the items scrolled into view, for lists with thousands of items.
+	 */
+	@Input() virtualScroll = false;
+	/**
+	 * Height of the items in pixels when `virtualScroll` is on.
+	 */
+	@Input() virtualItemHeight = 40;
+	/**
+	 * Number of items rendered above and below the ones in view when `virtualScroll` is on.
+	 */
+	@Input() virtualBuffer = 5;
+	/**
+	 * Prefix of the IDs of the items, `aria-activedescendant` of the list refers to them.
+	 */
+	@Input() id = `dropdown-list-${DropdownList.listCount++}`;
 	/**
 	 * Defines the rendering size of the `DropdownList` input component.
 	 */
@@ -124,7 +250,36 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 	 */
 	public displayItems: Array<ListItem> = [];
 	/**
-	 * Maintains the index for the selected item within the `DropdownList`.
+	 * `displayItems` split into their groups, `label` is the `group` of the items. `start` is the index of
+	 * the first item of the group in `displayItems`.
+	 */
+	public displayGroups: Array<{label: string, items: Array<ListItem>, start: number}> = [];
+	/**
+	 * How the displayed items match the last `filterBy()` query. Passed to `listTpl` as `match`.
+	 */
+	public matches = new Map<ListItem, ListItemMatch>();
+	/**
+	 * Content of the displayed items split into the parts that match the last `filterBy()` query and the rest.
+	 */
+	public highlights = new Map<ListItem, Array<{text: string, match: boolean}>>();
+	/**
+	 * Items rendered when `virtualScroll` is on.
+	 */
+	public virtualItems: Array<ListItem> = [];
+	/**
+	 * Index of the first of `virtualItems` in `displayItems`.
+	 */
+	public virtualStart = 0;
+	/**
+	 * Height of the space taking the place of the items above `virtualItems`.
+	 */
+	public virtualOffsetTop = 0;
+	/**
+	 * Height of the space taking the place of the items below `virtualItems`.
+	 */
+	public virtualOffsetBottom = 0;
+	/**
+	 * Maintains the index for the selected item within the displayed items of the `DropdownList`.
 	 */
 	protected index = -1;
 	/**
@@ -148,6 +303,24 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 		if (changes.items) {
 			this.updateList(changes.items.currentValue);
 		}
+		if (changes.virtualScroll && !changes.virtualScroll.isFirstChange()) {
+			this.updateVirtualItems();
+			this.setupFocusObservable();
+		}
+	}
+
+	/**
+	 * Index of the active item within the displayed items, -1 if there's none.
+	 */
+	get activeIndex(): number {
+		return this.index;
+	}
+
+	/**
+	 * ID of the active item when `virtualScroll` is on.
+	 */
+	get activeDescendant(): string {
+		return this.virtualScroll && this.index >= 0 ? `${this.id}-${this.index}` : null;
 	}
 
 	/**
@@ -155,8 +328,8 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 	 * Additionally, any Observables for the `DropdownList` are initialized.
 	 */
 	ngAfterViewInit() {
-		this.listElementList = Array.from(this.list.nativeElement.querySelectorAll("li")) as HTMLElement[];
-		this.index = this.items.findIndex(item => item.selected);
+		this.listElementList = Array.from(this.list.nativeElement.querySelectorAll("[role='option']")) as HTMLElement[];
+		this.index = this.displayItems.findIndex(item => item.selected);
 		this.setupFocusObservable();
 	}
 
@@ -171,15 +344,24 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 
 	/**
 	 * Updates the displayed list of items and then retrieves the most current properties for the `DropdownList` from the DOM.
+	 *
+	 * Pass `false` as `emitSelected` when only the items change and the selection stays the same,
+	 * for example with the results of a search.
 	 */
-	updateList(items) {
+	updateList(items, emitSelected = true) {
 		this.items = items.map(item => Object.assign({}, item));
-		this.displayItems = this.items;
+		this.setDisplayItems(this.items);
+		this.matches.clear();
+		this.highlights.clear();
 		setTimeout(() => {
-			this.listElementList = Array.from(this.list.nativeElement.querySelectorAll("li")) as HTMLElement[];
+			this.listElementList = Array.from(this.list.nativeElement.querySelectorAll("[role='option']")) as HTMLElement[];
 		}, 0);
-		this.index = this.items.findIndex(item => item.selected);
+		this.index = this.displayItems.findIndex(item => item.selected);
+		this.updateVirtualItems();
 		this.setupFocusObservable();
+		if (!emitSelected) {
+			return;
+		}
 		setTimeout(() => {
 			if (this.type === "single") {
 				this.select.emit({ item: this.items.find(item => item.selected) });
@@ -190,14 +372,28 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 	}
 
 	/**
-	 * Filters the items being displayed in the DOM list.
+	 * Filters the items being displayed in the DOM list with `matcher`, best matches first.
 	 */
 	filterBy(query = "") {
-		if (query) {
-			this.displayItems = this.items.filter(item => item.content.toLowerCase().includes(query.toLowerCase()));
-		} else {
-			this.displayItems = this.items;
+		this.matches.clear();
+		this.highlights.clear();
+		if (!query) {
+			this.setDisplayItems(this.items);
+			this.updateFilteredList();
+			return;
 		}
+
+		const matched = this.items
+			.map((item, index) => ({item, index, match: this.matchItem(item, query)}))
+			.filter(({match}) => !!match)
+			// keep the order of the items with the same score
+			.sort((a, b) => b.match.score - a.match.score || a.index - b.index);
+		matched.forEach(({item, match}) => {
+			this.matches.set(item, match);
+			this.highlights.set(item, this.highlightParts(item.content, match.ranges));
+		});
+		this.setDisplayItems(matched.map(({item}) => item));
+		this.updateFilteredList();
 	}
 
 	/**
@@ -208,28 +404,58 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 		if (this.focusJump) {
 			this.focusJump.unsubscribe();
 		}
-		let elList = Array.from(this.list.nativeElement.querySelectorAll("li"));
+		if (this.virtualScroll) {
+			// jump between all the items, not just the rendered ones
+			this.focusJump = watchFocusJump(this.list.nativeElement, this.displayItems, item => item.content)
+				.subscribe(item => {
+					this.index = this.displayItems.indexOf(item);
+					this.scrollToIndex(this.index);
+				});
+			return;
+		}
+		let elList = Array.from(this.list.nativeElement.querySelectorAll("[role='option']")) as HTMLElement[];
 		this.focusJump = watchFocusJump(this.list.nativeElement, elList)
 			.subscribe(el => {
 				el.focus();
 			});
 	}
 
+	/**
+	 * Updates the items rendered when `virtualScroll` is on, based on the scroll position of the list.
+	 */
+	updateVirtualItems() {
+		if (!this.virtualScroll || !this.list) {
+			return;
+		}
+		const list: HTMLElement = this.list.nativeElement;
+		// until the list is rendered, window is as much as can be visible
+		const viewportHeight = list.clientHeight || window.innerHeight;
+		const scrollTop = list.scrollTop || 0;
+		const first = Math.floor(scrollTop / this.virtualItemHeight);
+		const last = Math.ceil((scrollTop + viewportHeight) / this.virtualItemHeight);
+
+		this.virtualStart = Math.max(0, Math.min(first - this.virtualBuffer, this.displayItems.length));
+		const end = Math.min(this.displayItems.length, last + this.virtualBuffer);
+		this.virtualItems = this.displayItems.slice(this.virtualStart, end);
+		this.virtualOffsetTop = this.virtualStart * this.virtualItemHeight;
+		this.virtualOffsetBottom = (this.displayItems.length - this.virtualStart - this.virtualItems.length) * this.virtualItemHeight;
+	}
+
 	/**
 	 * Returns the `ListItem` that is subsequent to the selected item in the `DropdownList`.
 	 */
 	getNextItem(): ListItem {
-		if (this.index < this.items.length - 1) {
+		if (this.index < this.displayItems.length - 1) {
 			this.index++;
 		}
-		return this.items[this.index];
+		return this.displayItems[this.index];
 	}
 
 	/**
 	 * Returns `true` if the selected item is not the last item in the `DropdownList`.
 	 */
 	hasNextElement(): boolean {
-		if (this.index < this.items.length - 1) {
+		if (this.index < this.displayItems.length - 1) {
 			return true;
 		}
 		return false;
@@ -237,17 +463,18 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 
 	/**
 	 * Returns the `HTMLElement` for the item that is subsequent to the selected item.
+	 *
+	 * The list itself when `virtualScroll` is on, with the item as its `aria-activedescendant`.
 	 */
 	getNextElement(): HTMLElement {
-		if (this.index < this.items.length - 1) {
+		if (this.index < this.displayItems.length - 1) {
 			this.index++;
 		}
-		let elem = this.listElementList[this.index];
-		let item = this.items[this.index];
-		if (item.disabled) {
+		let item = this.displayItems[this.index];
+		if (item.disabled && this.hasNextElement()) {
 			return this.getNextElement();
 		}
-		return elem;
+		return this.getCurrentElement();
 	}
 
 	/**
@@ -257,7 +484,7 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 		if (this.index > 0) {
 			this.index--;
 		}
-		return this.items[this.index];
+		return this.displayItems[this.index];
 	}
 
 	/**
@@ -272,17 +499,18 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 
 	/**
 	 * Returns the `HTMLElement` for the item that precedes the selected item.
+	 *
+	 * The list itself when `virtualScroll` is on, with the item as its `aria-activedescendant`.
 	 */
 	getPrevElement(): HTMLElement {
 		if (this.index > 0) {
 			this.index--;
 		}
-		let elem = this.listElementList[this.index];
-		let item = this.items[this.index];
-		if (item.disabled) {
+		let item = this.displayItems[this.index];
+		if (item.disabled && this.hasPrevElement()) {
 			return this.getPrevElement();
 		}
-		return elem;
+		return this.getCurrentElement();
 	}
 
 	/**
@@ -290,15 +518,22 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 	 */
 	getCurrentItem(): ListItem {
 		if (this.index < 0) {
-			return this.items[0];
+			return this.displayItems[0];
 		}
-		return this.items[this.index];
+		return this.displayItems[this.index];
 	}
 
 	/**
 	 * Returns the `HTMLElement` for the item that is selected within the `DropdownList`.
+	 *
+	 * The list itself when `virtualScroll` is on, scrolled so the item is in view.
 	 */
 	getCurrentElement(): HTMLElement {
+		if (this.virtualScroll) {
+			this.index = Math.max(this.index, 0);
+			this.scrollToIndex(this.index);
+			return this.list.nativeElement;
+		}
 		if (this.index < 0) {
 			return this.listElementList[0];
 		}
@@ -349,6 +584,15 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 		this.getCurrentElement().focus();
 	}
 
+	/**
+	 * Handles the keyboard on the list itself when `virtualScroll` is on, the items aren't focused then.
+	 */
+	onListKeyDown(event: KeyboardEvent) {
+		if (this.virtualScroll && event.target === this.list.nativeElement && this.displayItems.length > 0) {
+			this.doKeyDown(event, this.getCurrentItem());
+		}
+	}
+
 	/**
 	 * Manages the keyboard accessiblity for navigation and selection within a `DropdownList`.
 	 */
@@ -368,7 +612,9 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 					this.clearSelected.nativeElement.focus();
 				}
 			}
-			if (event.shiftKey) {
+			if (event.shiftKey && this.virtualScroll) {
+				this.doClick(event, item);
+			} else if (event.shiftKey) {
 				(event.target as HTMLElement).click();
 			}
 		}
@@ -391,7 +637,101 @@ export class DropdownList implements AbstractDropdownView, AfterViewInit, OnChan
 				// emit an array of selected items
 				this.select.emit(this.getSelected());
 			}
-			this.index = this.items.indexOf(item);
+			this.index = this.displayItems.indexOf(item);
+		}
+	}
+
+	/**
+	 * Sets `displayItems` to `items` with the items of each group next to each other, and splits them into `displayGroups`.
+	 */
+	protected setDisplayItems(items: Array<ListItem>) {
+		const groups = new Map<string, Array<ListItem>>();
+		for (let item of items) {
+			if (!groups.has(item.group)) {
+				groups.set(item.group, []);
+			}
+			groups.get(item.group).push(item);
+		}
+		this.displayItems = [];
+		this.displayGroups = [];
+		groups.forEach((groupItems, label) => {
+			this.displayGroups.push({label, items: groupItems, start: this.displayItems.length});
+			this.displayItems = this.displayItems.concat(groupItems);
+		});
+	}
+
+	/**
+	 * Resets the active item and the rendered items once `displayItems` change.
+	 */
+	protected updateFilteredList() {
+		this.index = this.displayItems.findIndex(item => item.selected);
+		if (this.virtualScroll) {
+			this.list.nativeElement.scrollTop = 0;
+			this.updateVirtualItems();
+			this.setupFocusObservable();
+			return;
+		}
+		// the items are rendered in a new order, pick up their elements once they are
+		setTimeout(() => {
+			this.listElementList = Array.from(this.list.nativeElement.querySelectorAll("[role='option']")) as HTMLElement[];
+		}, 0);
+	}
+
+	/**
+	 * Scrolls the list so the `index`th displayed item is in view and rendered when `virtualScroll` is on.
+	 */
+	protected scrollToIndex(index: number) {
+		const list: HTMLElement = this.list.nativeElement;
+		const top = index * this.virtualItemHeight;
+		if (top < list.scrollTop) {
+			list.scrollTop = top;
+		} else if (top + this.virtualItemHeight > list.scrollTop + list.clientHeight) {
+			list.scrollTop = top + this.virtualItemHeight - list.clientHeight;
+		}
+		this.updateVirtualItems();
+	}
+
+	/**
+	 * Returns how `item` matches `query` with `matcher`, or `null` if it doesn't.
+	 */
+	protected matchItem(item: ListItem, query: string): ListItemMatch {
+		if (typeof this.matcher === "function") {
+			return this.matcher(item, query);
+		}
+		const content = normalizeText(item.content, this.ignoreDiacritics);
+		const normalizedQuery = normalizeText(query, this.ignoreDiacritics).text;
+		const match = normalizedQuery ? listItemMatchers[this.matcher](content.text, normalizedQuery) : null;
+		if (!match) {
+			return null;
+		}
+		// map the ranges back to the characters of `content`
+		return {
+			score: match.score,
+			ranges: match.ranges.map(({start, end}) => ({start: content.indexes[start], end: content.indexes[end - 1] + 1}))
+		};
+	}
+
+	/**
+	 * Splits `text` into the parts inside and outside of `ranges`.
+	 */
+	protected highlightParts(text: string, ranges: Array<{start: number, end: number}>): Array<{text: string, match: boolean}> {
+		const parts = [];
+		let index = 0;
+		ranges
+			.slice()
+			.sort((a, b) => a.start - b.start)
+			.forEach(({start, end}) => {
+				if (start > index) {
+					parts.push({text: text.slice(index, start), match: false});
+				}
+				if (end > Math.max(start, index)) {
+					parts.push({text: text.slice(Math.max(start, index), end), match: true});
+				}
+				index = Math.max(index, end);
+			});
+		if (index < text.length) {
+			parts.push({text: text.slice(index), match: false});
 		}
+		return parts;
 	}
 }
@@ -0,0 +1,124 @@
+import { TestBed, fakeAsync, flush } from "@angular/core/testing";
+
+import { DropdownTree } from "./dropdown-tree.component";
+import { ListItem } from "./../list-item.interface";
+import { treetools } from "./../dropdowntools";
+
+const regions = (): Array<ListItem> => [
+	{
+		content: "Europe",
+		selected: false,
+		items: [
+			{
+				content: "Germany",
+				selected: false,
+				items: [
+					{content: "Berlin", selected: false},
+					{content: "Munich", selected: false}
+				]
+			},
+			{content: "Paris", selected: false}
+		]
+	},
+	{
+		content: "Asia",
+		selected: false,
+		items: [
+			{content: "Tokyo", selected: false}
+		]
+	}
+];
+
+describe("Dropdown tree", () => {
+	let fixture, tree: DropdownTree;
+	const treeItems = () => Array.from(fixture.nativeElement.querySelectorAll("[role='treeitem']")) as HTMLElement[];
+	const keydown = (key: string): any => ({key, preventDefault() {}});
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({
+			declarations: [DropdownTree]
+		});
+		fixture = TestBed.createComponent(DropdownTree);
+		tree = fixture.componentInstance;
+		fixture.detectChanges();
+	});
+
+	it("should find the path to deeply nested items", () => {
+		const items = regions();
+		const munich = items[0].items[0].items[1];
+		expect(treetools.find(items, munich).path.map(item => item.content)).toEqual(["Europe", "Germany", "Munich"]);
+		expect(treetools.find(items, items[1].items[0]).path.map(item => item.content)).toEqual(["Asia", "Tokyo"]);
+	});
+
+	it("should expand groups and move in and out of them with the keyboard", fakeAsync(() => {
+		let selected;
+		tree.select.subscribe(event => selected = event.item);
+		tree.updateList(regions());
+		flush();
+		fixture.detectChanges();
+		expect(treeItems().map(el => el.textContent.trim())).toEqual(["Europe", "Asia"]);
+		expect(treeItems()[0].getAttribute("aria-expanded")).toEqual("false");
+
+		const europe = tree.items[0];
+		tree.doKeyDown(keydown("ArrowRight"), europe);
+		fixture.detectChanges();
+		expect(treeItems().map(el => el.textContent.trim())).toEqual(["Europe", "Germany", "Paris", "Asia"]);
+		expect(treeItems()[1].getAttribute("aria-level")).toEqual("2");
+
+		tree.doKeyDown(keydown("ArrowRight"), europe);
+		expect(tree.getCurrentItem().content).toEqual("Germany");
+		tree.doKeyDown(keydown("ArrowRight"), tree.getCurrentItem());
+		tree.doKeyDown(keydown("ArrowRight"), tree.getCurrentItem());
+		tree.doKeyDown(keydown("ArrowDown"), tree.getCurrentItem());
+		expect(tree.getCurrentItem().content).toEqual("Munich");
+
+		tree.doKeyDown(keydown("Enter"), tree.getCurrentItem());
+		expect(selected.content).toEqual("Munich");
+		expect(tree.getDisplayValue()).toEqual("Europe / Germany / Munich");
+
+		tree.doKeyDown(keydown("ArrowLeft"), tree.getCurrentItem());
+		expect(tree.getCurrentItem().content).toEqual("Germany");
+		tree.doKeyDown(keydown("ArrowLeft"), tree.getCurrentItem());
+		fixture.detectChanges();
+		expect(treeItems().length).toEqual(4);
+		expect(tree.getCurrentItem().content).toEqual("Germany");
+
+		expect(tree.getNextItem().content).toEqual("Berlin");
+		expect(tree.getNextItem().content).toEqual("Munich");
+		expect(tree.getNextItem().content).toEqual("Paris");
+		flush();
+	}));
+
+	it("should select groups and show partly selected ones as mixed in multi mode", fakeAsync(() => {
+		let selected: Array<ListItem>;
+		tree.type = "multi";
+		tree.select.subscribe(event => selected = event);
+		tree.updateList(regions());
+		flush();
+
+		const europe = tree.items[0];
+		const germany = europe.items[0];
+		tree.toggleExpanded(europe);
+		fixture.detectChanges();
+
+		tree.doClick({}, germany);
+		fixture.detectChanges();
+		expect(selected.map(item => item.content)).toEqual(["Berlin", "Munich"]);
+		expect(tree.checkedState(germany)).toBe(true);
+		expect(tree.checkedState(europe)).toEqual("mixed");
+		expect(treeItems()[0].getAttribute("aria-checked")).toEqual("mixed");
+
+		tree.doClick({}, europe);
+		expect(selected.map(item => item.content)).toEqual(["Berlin", "Munich", "Paris"]);
+		expect(tree.checkedState(europe)).toBe(true);
+
+		tree.doClick({}, europe);
+		expect(selected).toBeNull();
+		expect(tree.checkedState(germany)).toBe(false);
+
+		tree.propagateSelected([{content: "Tokyo", selected: true}]);
+		expect(tree.getSelected().map(item => item.content)).toEqual(["Tokyo"]);
+		expect(tree.items[1].expanded).toBe(true);
+		flush();
+	}));
+});
@@ -0,0 +1,503 @@
+import {
+	Component,
+	Input,
+	Output,
+	OnChanges,
+	EventEmitter,
+	TemplateRef,
+	ViewChild,
+	ElementRef
+} from "@angular/core";
+
+import { AbstractDropdownView } from "./../abstract-dropdown-view.class";
+import { ListItem } from "./../list-item.interface";
+import { treetools } from "./../dropdowntools";
+
+
+/**
+ * Shows nested `ListItem.items` as a tree in `ibm-dropdown`.
+ *
+ * ```html
+ * <ibm-dropdown placeholder="Select a city">
+ * 	<ibm-dropdown-tree [items]="regions"></ibm-dropdown-tree>
+ * </ibm-dropdown>
+ * ```
+ * ```typescript
+ * regions = [
+ * 	{
+ * 		content: "Europe",
+ * 		selected: false,
+ * 		expanded: true,
+ * 		items: [
+ * 			{ content: "Berlin", selected: false },
+ * 			{ content: "Paris", selected: false }
+ * 		]
+ * 	},
+ * 	{
+ * 		content: "Asia",
+ * 		selected: false,
+ * 		items: [
+ * 			{ content: "Tokyo", selected: false }
+ * 		]
+ * 	}
+ * ];
+ * ```
+ *
+ * Items with `items` are groups, they're expanded and collapsed by clicking them, or with the right
+ * and left arrows. Set `expanded` on a group to show its items from the start.
+ * Only the leaf items are selected in `single` mode, and the dropdown shows the path to the selected item,
+ * e.g. "Europe / Paris". In `multi` mode selecting a group selects all the items in it,
+ * and groups with some of their items selected show an indeterminate checkbox.
+ */
+@Component({
+	selector: "ibm-dropdown-tree",
+	template: `
+		<ul
+			#list
+			role="tree"
+			class="bx--list-box__menu"
+			[attr.aria-multiselectable]="(type === 'multi' ? true : null)">
+			<li
+				*ngFor="let node of visibleNodes"
+				role="treeitem"
+				class="bx--list-box__menu-item dropdown-tree_item"
+				[attr.tabindex]="(node.item.disabled ? -1 : 0)"
+				[attr.aria-level]="node.level + 1"
+				[attr.aria-setsize]="node.setSize"
+				[attr.aria-posinset]="node.position + 1"
+				[attr.aria-expanded]="(node.item.items ? !!node.item.expanded : null)"
+				[attr.aria-selected]="(type === 'single' && !node.item.items ? !!node.item.selected : null)"
+				[attr.aria-checked]="(type === 'multi' ? checkedState(node.item) : null)"
+				[attr.aria-disabled]="(node.item.disabled ? true : null)"
+				[ngStyle]="{'padding-left.rem': 1 + node.level * 1.5}"
+				[ngClass]="{
+					selected: type === 'single' && node.item.selected,
+					disabled: node.item.disabled,
+					'dropdown-tree_item--group': !!node.item.items
+				}"
+				(click)="doClick($event, node.item)"
+				(keydown)="doKeyDown($event, node.item)">
+				<span
+					*ngIf="node.item.items"
+					class="dropdown-tree_toggle"
+					[ngClass]="{'dropdown-tree_toggle--expanded': node.item.expanded}"
+					(click)="onToggleClick($event, node.item)">
+					<svg width="7" height="12" viewBox="0 0 7 12">
+						<path fill-rule="nonzero" d="M5.569 5.994L0 .726.687 0l6.336 5.994-6.335 6.002L0 11.27z"/>
+					</svg>
+				</span>
+				<div
+					*ngIf="!listTpl && type === 'multi'"
+					class="bx--form-item bx--checkbox-wrapper">
+					<input
+						class="bx--checkbox"
+						type="checkbox"
+						[checked]="checkedState(node.item) === true"
+						[indeterminate]="checkedState(node.item) === 'mixed'"
+						[disabled]="node.item.disabled"
+						(click)="doClick($event, node.item)"
+						tabindex="-1">
+					<label class="bx--checkbox-label">{{node.item.content}}</label>
+				</div>
+				<ng-container *ngIf="!listTpl && type === 'single'">{{node.item.content}}</ng-container>
+				<ng-template
+					*ngIf="listTpl"
+					[ngTemplateOutletContext]="{item: node.item, level: node.level, checked: checkedState(node.item)}"
+					[ngTemplateOutlet]="listTpl">
+				</ng-template>
+			</li>
+		</ul>`,
+	styles: [`
+		.dropdown-tree_toggle {
+			display: inline-block;
+			margin-right: 0.5rem;
+			transition: transform 110ms;
+		}
+
+		.dropdown-tree_toggle--expanded {
+			transform: rotate(90deg);
+		}
+	`],
+	providers: [
+		{
+			provide: AbstractDropdownView,
+			useExisting: DropdownTree
+		}
+	]
+})
+export class DropdownTree implements AbstractDropdownView, OnChanges {
+	/**
+	 * The items of the tree, groups have their items in `items`.
+	 */
+	@Input() items: Array<ListItem> = [];
+	/**
+	 * Template to bind to items in the `DropdownTree` (optional).
+	 * It gets the `item`, its `level` starting from 0, and in `multi` mode
+	 * whether it's `checked` (`true`, `false` or `"mixed"`).
+	 */
+	@Input() listTpl: string | TemplateRef<any> = null;
+	/**
+	 * Separates the items of the path to the selected item in the dropdown.
+	 */
+	@Input() separator = " / ";
+	/**
+	 * Event to emit selection of an item within the `DropdownTree`.
+	 */
+	@Output() select: EventEmitter<Object> = new EventEmitter<Object>();
+	/**
+	 * Maintains a reference to the view DOM element for the tree.
+	 */
+	@ViewChild("list") list: ElementRef;
+	/**
+	 * Defines whether or not the `DropdownTree` supports selecting multiple items as opposed to single
+	 * item selection.
+	 */
+	@Input() type: "single" | "multi" = "single";
+	/**
+	 * Defines the rendering size of the `DropdownTree` input component.
+	 */
+	public size: "sm" | "md" | "lg" = "md";
+	/**
+	 * The items rendered, the ones not in collapsed groups, along with their place in the tree.
+	 */
+	public visibleNodes: Array<{item: ListItem, level: number, parent: ListItem, position: number, setSize: number}> = [];
+	/**
+	 * Maintains the index of the active item within `visibleNodes`.
+	 */
+	protected index = -1;
+
+	/**
+	 * Creates an instance of `DropdownTree`.
+	 */
+	constructor(public elementRef: ElementRef) {}
+
+	/**
+	 * Updates the tree when the items change.
+	 */
+	ngOnChanges(changes) {
+		if (changes.items) {
+			this.updateList(changes.items.currentValue);
+		}
+	}
+
+	/**
+	 * Copies the items, expands the groups of the selected items and emits the selection.
+	 */
+	updateList(items: Array<ListItem>) {
+		const copy = (list: Array<ListItem>) => list.map(item =>
+			Object.assign({}, item, item.items ? {items: copy(item.items)} : {}));
+		this.items = copy(items || []);
+		this.leaves(this.items).filter(item => item.selected).forEach(item => this.reveal(item));
+		this.updateVisibleNodes();
+		this.index = this.visibleNodes.findIndex(node => node.item.selected);
+		setTimeout(() => {
+			if (this.type === "single") {
+				this.select.emit({ item: this.leaves(this.items).find(item => item.selected) });
+			} else {
+				this.select.emit(this.getSelected() || []);
+			}
+		});
+	}
+
+	/**
+	 * Expands `item` if it's a collapsed group, collapses it if it's an expanded one.
+	 */
+	toggleExpanded(item: ListItem, expanded = !item.expanded) {
+		if (!item.items || !!item.expanded === expanded) {
+			return;
+		}
+		const current = this.getCurrentItem();
+		item.expanded = expanded;
+		this.updateVisibleNodes();
+		// move to the group if the active item was hidden
+		this.index = this.indexOf(current) >= 0 ? this.indexOf(current) : this.indexOf(item);
+	}
+
+	/**
+	 * Returns whether `item` is checked in `multi` mode, `"mixed"` for groups with some of their items selected.
+	 */
+	checkedState(item: ListItem): boolean | "mixed" {
+		if (!item.items) {
+			return !!item.selected;
+		}
+		const leaves = this.leaves(item.items).filter(leaf => !leaf.disabled);
+		const selected = leaves.filter(leaf => leaf.selected).length;
+		if (selected === 0) {
+			return false;
+		}
+		return selected === leaves.length ? true : "mixed";
+	}
+
+	/**
+	 * Returns the path from the top of the tree to the item selected in `single` mode, `null` if there's none.
+	 */
+	getSelectedPath(): Array<ListItem> {
+		const selected = this.getSelected();
+		if (!selected || this.type === "multi") {
+			return null;
+		}
+		return treetools.find(this.items, selected[0]).path;
+	}
+
+	/**
+	 * Returns the path to the selected item joined with `separator`, shown by `ibm-dropdown` in `single` mode.
+	 */
+	getDisplayValue(): string {
+		const path = this.getSelectedPath();
+		return path ? path.map(item => item.content).join(this.separator) : null;
+	}
+
+	/**
+	 * Returns the leaf item after the active one in the tree, expanding the groups on the way.
+	 */
+	getNextItem(): ListItem {
+		const leaves = this.leaves(this.items).filter(item => !item.disabled);
+		const all = this.flatten(this.items);
+		const current = this.getCurrentItem();
+		// first leaf after the active item
+		const next = all.slice(all.indexOf(current) + 1).find(item => leaves.indexOf(item) >= 0);
+		return this.activate(next || (leaves.indexOf(current) >= 0 ? current : undefined));
+	}
+
+	/**
+	 * Returns `true` if the active item is not the last item rendered.
+	 */
+	hasNextElement(): boolean {
+		return this.index < this.visibleNodes.length - 1;
+	}
+
+	/**
+	 * Returns the `HTMLElement` for the item rendered after the active item.
+	 */
+	getNextElement(): HTMLElement {
+		if (this.index < this.visibleNodes.length - 1) {
+			this.index++;
+		}
+		if (this.visibleNodes[this.index].item.disabled && this.hasNextElement()) {
+			return this.getNextElement();
+		}
+		return this.getCurrentElement();
+	}
+
+	/**
+	 * Returns the leaf item before the active one in the tree, expanding the groups on the way.
+	 */
+	getPrevItem(): ListItem {
+		const leaves = this.leaves(this.items).filter(item => !item.disabled);
+		const all = this.flatten(this.items);
+		const current = this.getCurrentItem();
+		const prev = all.slice(0, Math.max(all.indexOf(current), 0)).reverse().find(item => leaves.indexOf(item) >= 0);
+		return this.activate(prev || (leaves.indexOf(current) >= 0 ? current : undefined));
+	}
+
+	/**
+	 * Returns `true` if the active item is not the first item rendered.
+	 */
+	hasPrevElement(): boolean {
+		return this.index > 0;
+	}
+
+	/**
+	 * Returns the `HTMLElement` for the item rendered before the active item.
+	 */
+	getPrevElement(): HTMLElement {
+		if (this.index > 0) {
+			this.index--;
+		}
+		if (this.visibleNodes[this.index].item.disabled && this.hasPrevElement()) {
+			return this.getPrevElement();
+		}
+		return this.getCurrentElement();
+	}
+
+	/**
+	 * Returns the active item of the `DropdownTree`.
+	 */
+	getCurrentItem(): ListItem {
+		const node = this.visibleNodes[Math.max(this.index, 0)];
+		return node ? node.item : undefined;
+	}
+
+	/**
+	 * Returns the `HTMLElement` for the active item of the `DropdownTree`.
+	 */
+	getCurrentElement(): HTMLElement {
+		return this.list.nativeElement.querySelectorAll("li")[Math.max(this.index, 0)];
+	}
+
+	/**
+	 * Returns a list containing the selected leaf item(s) in the `DropdownTree`.
+	 */
+	getSelected(): ListItem[] {
+		const selected = this.leaves(this.items).filter(item => item.selected);
+		if (selected.length === 0) {
+			return null;
+		}
+		return selected;
+	}
+
+	/**
+	 * Selects the leaf items matching `value`, ignoring their `selected` state, and expands their groups.
+	 */
+	propagateSelected(value: Array<ListItem>): void {
+		const withoutState = (item: ListItem) => {
+			const copy = Object.assign({}, item);
+			delete copy.selected;
+			delete copy.expanded;
+			return JSON.stringify(copy);
+		};
+		const values = (value || []).filter(item => item && item.selected !== false).map(withoutState);
+		for (let item of this.leaves(this.items)) {
+			item.selected = values.indexOf(withoutState(item)) >= 0;
+			if (item.selected) {
+				this.reveal(item);
+			}
+		}
+		this.updateVisibleNodes();
+	}
+
+	/**
+	 * Initalizes focus in the tree, effectivly a wrapper for `getCurrentElement().focus()`
+	 */
+	initFocus() {
+		this.getCurrentElement().focus();
+	}
+
+	/**
+	 * Manages the keyboard navigation and selection within the `DropdownTree`.
+	 *
+	 * Up and down arrows move through the rendered items, right arrow expands a group or moves into it,
+	 * left arrow collapses a group or moves to the group of the item.
+	 */
+	doKeyDown(event: KeyboardEvent, item: ListItem) {
+		this.index = this.indexOf(item);
+		if (event.key === "Enter" || event.key === " ") {
+			event.preventDefault();
+			this.doClick(event, item);
+		} else if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+			event.preventDefault();
+			if (event.key === "ArrowDown" && this.hasNextElement()) {
+				this.getNextElement().focus();
+			} else if (event.key === "ArrowUp" && this.hasPrevElement()) {
+				this.getPrevElement().focus();
+			}
+		} else if (event.key === "ArrowRight" && item.items) {
+			event.preventDefault();
+			if (!item.expanded) {
+				this.toggleExpanded(item, true);
+			} else if (item.items.length > 0) {
+				this.index++;
+				this.getCurrentElement().focus();
+			}
+		} else if (event.key === "ArrowLeft") {
+			event.preventDefault();
+			const node = this.visibleNodes[this.index];
+			if (item.items && item.expanded) {
+				this.toggleExpanded(item, false);
+			} else if (node.parent) {
+				this.index = this.indexOf(node.parent);
+				this.getCurrentElement().focus();
+			}
+		} else if (event.key === "Home" || event.key === "End") {
+			event.preventDefault();
+			this.index = event.key === "Home" ? 0 : this.visibleNodes.length - 1;
+			this.getCurrentElement().focus();
+		}
+	}
+
+	/**
+	 * Selects a leaf item, and in `multi` mode all the items of a group. Expands or collapses a group in `single` mode.
+	 */
+	doClick(event, item: ListItem) {
+		if (item.disabled) {
+			return;
+		}
+		this.index = this.indexOf(item);
+		if (item.items && this.type === "single") {
+			this.toggleExpanded(item);
+		} else if (item.items) {
+			const selected = this.checkedState(item) !== true;
+			this.leaves(item.items)
+				.filter(leaf => !leaf.disabled)
+				.forEach(leaf => leaf.selected = selected);
+			this.select.emit(this.getSelected());
+		} else if (this.type === "single") {
+			item.selected = !item.selected;
+			for (let otherItem of this.leaves(this.items)) {
+				if (item !== otherItem) { otherItem.selected = false; }
+			}
+			this.select.emit({item});
+		} else {
+			item.selected = !item.selected;
+			this.select.emit(this.getSelected());
+		}
+	}
+
+	/**
+	 * Expands or collapses a group when its arrow is clicked, without selecting it in `multi` mode.
+	 */
+	onToggleClick(event: MouseEvent, item: ListItem) {
+		event.stopPropagation();
+		this.index = this.indexOf(item);
+		this.toggleExpanded(item);
+	}
+
+	/**
+	 * Lists the items not in collapsed groups in `visibleNodes`.
+	 */
+	protected updateVisibleNodes() {
+		const nodes = [];
+		const add = (items: Array<ListItem>, level: number, parent: ListItem) => {
+			items.forEach((item, position) => {
+				nodes.push({item, level, parent, position, setSize: items.length});
+				if (item.items && item.expanded) {
+					add(item.items, level + 1, item);
+				}
+			});
+		};
+		add(this.items, 0, null);
+		this.visibleNodes = nodes;
+	}
+
+	/**
+	 * Returns the index of `item` within `visibleNodes`, `-1` if it's not rendered.
+	 */
+	protected indexOf(item: ListItem): number {
+		return this.visibleNodes.findIndex(node => node.item === item);
+	}
+
+	/**
+	 * Returns all the items of the tree, each group followed by its items.
+	 */
+	protected flatten(items: Array<ListItem>): Array<ListItem> {
+		return items.reduce((all, item) => all.concat(item, item.items ? this.flatten(item.items) : []), []);
+	}
+
+	/**
+	 * Returns the items that aren't groups.
+	 */
+	protected leaves(items: Array<ListItem>): Array<ListItem> {
+		return this.flatten(items).filter(item => !item.items);
+	}
+
+	/**
+	 * Expands all the groups `item` is in.
+	 */
+	protected reveal(item: ListItem) {
+		const path = treetools.find(this.items, item).path;
+		path.slice(0, -1).forEach(group => group.expanded = true);
+	}
+
+	/**
+	 * Expands the groups of `item` and makes it the active item.
+	 */
+	protected activate(item: ListItem): ListItem {
+		if (!item) {
+			return;
+		}
+		this.reveal(item);
+		this.updateVisibleNodes();
+		this.index = this.indexOf(item);
+		return item;
+	}
+}
@@ -23,4 +23,44 @@ export class PaginationModel {
 	 * @memberof PaginationModel
 	 */
 	totalDataLength: number;
+
+	/**
+	 * Optional. Loads the `page`th page and updates `currentPage` once it's loaded.
+	 *
+	 * If the model provides it, `ibm-pagination` calls it whenever a page is selected.
+	 * `TableModel` provides it to load pages from its `dataSource`.
+	 *
+	 * @memberof PaginationModel
+	 */
+	loadPage?: (page: number) => void;
+
+	/**
+	 * Optional. Set to `false` on the last page when the total number of items isn't known,
+	 * see `Pagination.pagesUnknown`.
+	 *
+	 * @type {boolean}
+	 * @memberof PaginationModel
+	 */
+	hasNextPage?: boolean;
+
+	/**
+	 * Optional. Cursor of the page after the current one, for backends paginating with cursors
+	 * instead of page numbers. Empty on the last page.
+	 *
+	 * With `cursorPagination` set, `ibm-pagination` only moves to the next and the previous page.
+	 * Use the cursors to load the page `selectPage` asks for.
+	 *
+	 * @type {string}
+	 * @memberof PaginationModel
+	 */
+	nextPageToken?: string;
+
+	/**
+	 * Optional. Cursor of the page before the current one, see `nextPageToken`.
+	 * Not needed to go back to the first page.
+	 *
+	 * @type {string}
+	 * @memberof PaginationModel
+	 */
+	previousPageToken?: string;
 }
@@ -0,0 +1,106 @@
+import { ComponentFixture, TestBed } from "@angular/core/testing";
+import { FormsModule } from "@angular/forms";
+
+import { Pagination } from "./pagination.component";
+import { PaginationModel } from "./pagination-model.class";
+import { I18nModule } from "../i18n/i18n.module";
+
+describe("Pagination", () => {
+	let component: Pagination;
+	let fixture: ComponentFixture<Pagination>;
+	let selectedPages: Array<number>;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({
+			declarations: [Pagination],
+			imports: [FormsModule, I18nModule]
+		});
+
+		fixture = TestBed.createComponent(Pagination);
+		component = fixture.componentInstance;
+		component.model = new PaginationModel();
+		component.model.currentPage = 1;
+		component.model.pageLength = 10;
+		component.model.totalDataLength = 105;
+		selectedPages = [];
+		component.selectPage.subscribe(page => {
+			selectedPages.push(page);
+			component.model.currentPage = page;
+		});
+	});
+
+	it("should list the pages in a select", () => {
+		fixture.detectChanges();
+
+		expect(component.lastPage).toEqual(11);
+		expect(fixture.nativeElement.querySelectorAll(".bx--pagination__right option").length).toEqual(11);
+		expect(fixture.nativeElement.querySelector(".pagination_page-input")).toBeFalsy();
+	});
+
+	it("should choose the page with an input when there are too many pages", () => {
+		component.model.totalDataLength = 100000;
+		fixture.detectChanges();
+
+		const input = fixture.nativeElement.querySelector(".pagination_page-input");
+		expect(input).toBeTruthy();
+
+		input.value = "5000";
+		component.onPageInputChange(input);
+		input.value = "20000";
+		component.onPageInputChange(input);
+
+		expect(selectedPages).toEqual([5000]);
+		expect(input.value).toEqual("5000");
+	});
+
+	it("should move through unknown and cursor paginated pages", () => {
+		component.pagesUnknown = true;
+		component.model.currentPage = 4;
+		fixture.detectChanges();
+
+		expect(fixture.nativeElement.querySelector(".bx--pagination__right .bx--pagination__text").textContent.trim()).toEqual("Page 4");
+		expect(component.pageNavigation).toEqual("none");
+		expect(component.hasNextPage).toBe(true);
+		component.model.hasNextPage = false;
+		expect(component.hasNextPage).toBe(false);
+
+		component.pagesUnknown = false;
+		component.cursorPagination = true;
+		component.model.nextPageToken = "next";
+		expect(component.pageNavigation).toEqual("none");
+		expect(component.hasNextPage).toBe(true);
+		expect(component.hasPreviousPage).toBe(false);
+		component.model.previousPageToken = "previous";
+		expect(component.hasPreviousPage).toBe(true);
+	});
+
+	it("should stay in cursor mode when there are no tokens", () => {
+		component.pagesUnknown = true;
+		component.cursorPagination = true;
+		component.model.currentPage = 2;
+		component.model.totalDataLength = undefined;
+		fixture.detectChanges();
+
+		// the second page is the last one, and the first page doesn't need a token
+		expect(component.pageNavigation).toEqual("none");
+		expect(component.hasNextPage).toBe(false);
+		expect(component.hasPreviousPage).toBe(true);
+		expect(fixture.nativeElement.querySelector(".bx--pagination__right .bx--pagination__text").textContent.trim()).toEqual("Page 2");
+	});
+
+	it("should emit the new page length", () => {
+		component.itemsPerPageOptions = [25, 50];
+		component.model.currentPage = 3;
+		fixture.detectChanges();
+		let pageLength: number;
+		component.pageLengthChange.subscribe(length => pageLength = length);
+
+		expect(fixture.nativeElement.querySelectorAll(".bx--pagination__left option").length).toEqual(2);
+
+		component.itemsPerPage = 50;
+
+		expect(pageLength).toEqual(50);
+		expect(component.model.pageLength).toEqual(50);
+		expect(selectedPages).toEqual([1]);
+	});
+});
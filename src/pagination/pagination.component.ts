@@ -29,6 +29,38 @@ import { I18n } from "./../i18n/i18n.module";
  * }
  * ```
  *
+ * If the model loads the data itself (for example `TableModel` with a `dataSource`), there's no need
+ * to handle `selectPage`. Pagination calls `model.loadPage()` for you.
+ *
+ * ```html
+ * <ibm-table [model]="model"></ibm-table>
+ * <ibm-pagination [model]="model"></ibm-pagination>
+ * ```
+ *
+ * ## Large and unknown page counts
+ *
+ * Past `maxPageSelectOptions` pages the page select turns into a number input. If the backend doesn't know
+ * the total, set `pagesUnknown` to show "Page N" with no last page, and set `model.hasNextPage` to `false`
+ * on the last page.
+ *
+ * ```html
+ * <ibm-pagination [model]="model" [pagesUnknown]="true" (selectPage)="selectPage($event)"></ibm-pagination>
+ * ```
+ *
+ * For backends paginating with cursors, set `cursorPagination`, and set `model.nextPageToken` and
+ * `model.previousPageToken` along with `model.currentPage` when a page loads. Pagination then only moves
+ * to the next and the previous page, and `selectPage()` loads the page with the matching token.
+ * `TableModel` with a `dataSource` sets the tokens for you.
+ *
+ * ```html
+ * <ibm-pagination [model]="model" [pagesUnknown]="true" [cursorPagination]="true"></ibm-pagination>
+ * ```
+ *
+ * ## Items per page
+ *
+ * `itemsPerPageOptions` sets the page lengths users can choose from. Changing it emits `pageLengthChange`
+ * and selects the first page.
+ *
  * @export
  * @class Pagination
  */
@@ -50,11 +82,12 @@ import { I18n } from "./../i18n/i18n.module";
 						[(ngModel)]="itemsPerPage"
 						class="bx--select-input"
 						aria-describedby="false">
-						<option class="bx--select-option" value="10">10</option>
-						<option class="bx--select-option" value="20">20</option>
-						<option class="bx--select-option" value="30">30</option>
-						<option class="bx--select-option" value="40">40</option>
-						<option class="bx--select-option" value="50">50</option>
+						<option
+							*ngFor="let option of itemsPerPageOptions"
+							class="bx--select-option"
+							[ngValue]="option">
+							{{option}}
+						</option>
 					</select>
 					<svg
 						class="bx--select__arrow"
@@ -72,15 +105,17 @@ import { I18n } from "./../i18n/i18n.module";
 			</div>
 			<span class="bx--pagination__text">
 				<span>|&nbsp;</span>
-				{{startItemIndex}}-{{endItemIndex}} of {{model.totalDataLength}} items
+				<ng-container *ngIf="!pagesUnknown">{{startItemIndex}}-{{endItemIndex}} of {{model.totalDataLength}} items</ng-container>
+				<ng-container *ngIf="pagesUnknown">{{startItemIndex}}-{{endItemIndex}} items</ng-container>
 			</span>
 		</div>
 		<div class="bx--pagination__right bx--pagination--inline">
-			<span class="bx--pagination__text">{{currentPage}} of {{lastPage}} pages</span>
+			<span *ngIf="!pagesUnknown" class="bx--pagination__text">{{currentPage}} of {{lastPage}} pages</span>
+			<span *ngIf="pagesUnknown" class="bx--pagination__text">{{translations.PAGE}} {{currentPage}}</span>
 			<button
 				class="bx--pagination__button bx--pagination__button--backward"
-				(click)="selectPage.emit(previousPage)"
-				[disabled]="(currentPage <= 1 ? true : null)">
+				(click)="currentPage = previousPage"
+				[disabled]="(hasPreviousPage ? null : true)">
 				<svg
 					class="bx--pagination__button-icon"
 					fill-rule="evenodd"
@@ -94,9 +129,21 @@ import { I18n } from "./../i18n/i18n.module";
 					<path d="M1.45 6.002L7 11.27l-.685.726L0 6.003 6.315 0 7 .726z"></path>
 				</svg>
 			</button>
-			<div class="bx--form-item">
+			<div *ngIf="pageNavigation === 'input'" class="bx--form-item">
+				<label [for]="currentPageSelectId" class="bx--label bx--visually-hidden">{{translations.PAGE_NUMBER}}</label>
+				<input
+					#pageInput
+					type="number"
+					class="bx--text-input pagination_page-input"
+					min="1"
+					[max]="lastPage"
+					[id]="currentPageSelectId"
+					[value]="currentPage"
+					(change)="onPageInputChange(pageInput)">
+			</div>
+			<div *ngIf="pageNavigation === 'select'" class="bx--form-item">
 				<div class="bx--select bx--select--inline">
-				<label [for]="currentPageSelectId" class="bx--label bx--visually-hidden">{{translations.ITEMS_PER_PAGE}}</label>
+				<label [for]="currentPageSelectId" class="bx--label bx--visually-hidden">{{translations.PAGE_NUMBER}}</label>
 				<select [id]="currentPageSelectId" class="bx--select-input" aria-describedby="false" [(ngModel)]="currentPage">
 					<option *ngFor="let i of range(lastPage + 1, 1)" class="bx--select-option" [value]="i">{{i}}</option>
 				</select>
@@ -116,8 +163,8 @@ import { I18n } from "./../i18n/i18n.module";
 		</div>
 		<button
 			class="bx--pagination__button bx--pagination__button--forward"
-			(click)="selectPage.emit(nextPage)"
-			[disabled]="(currentPage >= lastPage ? true : null)">
+			(click)="currentPage = nextPage"
+			[disabled]="(hasNextPage ? null : true)">
 			<svg
 				class="bx--pagination__button-icon"
 				fill-rule="evenodd"
@@ -146,6 +193,38 @@ export class Pagination {
 	 */
 	@Input() model: PaginationModel;
 
+	/**
+	 * Page lengths users can choose from.
+	 *
+	 * @type {Array<number>}
+	 * @memberof Pagination
+	 */
+	@Input() itemsPerPageOptions: Array<number> = [10, 20, 30, 40, 50];
+
+	/**
+	 * Set to `true` when the total number of items isn't known. Shows "Page N" instead of the number of pages,
+	 * and the next page button stays enabled until `model.hasNextPage` is `false`.
+	 *
+	 * @memberof Pagination
+	 */
+	@Input() pagesUnknown = false;
+
+	/**
+	 * Set to `true` when the backend paginates with cursors, see `PaginationModel.nextPageToken`.
+	 * Users can then only move to the next page while `model.nextPageToken` is set, and to the previous page.
+	 *
+	 * @memberof Pagination
+	 */
+	@Input() cursorPagination = false;
+
+	/**
+	 * Largest number of pages listed in the page select. The pages are chosen with a number input
+	 * instead when there are more. Set to `0` to always use the input.
+	 *
+	 * @memberof Pagination
+	 */
+	@Input() maxPageSelectOptions = 1000;
+
 	@Input() translations = this.i18n.get().PAGINATION;
 
 	/**
@@ -158,11 +237,20 @@ export class Pagination {
 	 */
 	@Output() selectPage = new EventEmitter<number>();
 
+	/**
+	 * Emits the new page length when users choose one of `itemsPerPageOptions`.
+	 * `model.pageLength` is already updated, and the first page gets selected after it.
+	 *
+	 * @memberof Pagination
+	 */
+	@Output() pageLengthChange = new EventEmitter<number>();
+
 	get itemsPerPage() {
 		return this.model.pageLength;
 	}
 	set itemsPerPage(value) {
-		this.model.pageLength = value;
+		this.model.pageLength = Number(value);
+		this.pageLengthChange.emit(this.model.pageLength);
 		this.currentPage = 1; // reset page
 	}
 
@@ -173,6 +261,10 @@ export class Pagination {
 		// emits the value to allow the user to update current page
 		// in the model once the page is loaded
 		this.selectPage.emit(value);
+		// or let the model load the page itself
+		if (this.model.loadPage) {
+			this.model.loadPage(value);
+		}
 	}
 	/**
 	 * The last page number to display in the pagination view.
@@ -191,9 +283,55 @@ export class Pagination {
 	get endItemIndex() {
 		const projectedEndItemIndex = this.currentPage * this.model.pageLength;
 
+		if (this.pagesUnknown) {
+			return projectedEndItemIndex;
+		}
 		return projectedEndItemIndex < this.model.totalDataLength ? projectedEndItemIndex : this.model.totalDataLength;
 	}
 
+	/**
+	 * How users jump to a page, `"none"` when they can only move to the next and the previous one.
+	 *
+	 * @readonly
+	 * @type {("select" | "input" | "none")}
+	 * @memberof Pagination
+	 */
+	get pageNavigation(): "select" | "input" | "none" {
+		if (this.pagesUnknown || this.cursorPagination) {
+			return "none";
+		}
+		return this.lastPage > this.maxPageSelectOptions ? "input" : "select";
+	}
+
+	/**
+	 * `true` if there's a page before the current one that can be loaded.
+	 *
+	 * @readonly
+	 * @type {boolean}
+	 * @memberof Pagination
+	 */
+	get hasPreviousPage(): boolean {
+		// the first page doesn't need a cursor
+		return this.currentPage > 1 && (!this.cursorPagination || this.currentPage === 2 || !!this.model.previousPageToken);
+	}
+
+	/**
+	 * `true` if there's a page after the current one.
+	 *
+	 * @readonly
+	 * @type {boolean}
+	 * @memberof Pagination
+	 */
+	get hasNextPage(): boolean {
+		if (this.cursorPagination) {
+			return !!this.model.nextPageToken;
+		}
+		if (this.pagesUnknown) {
+			return this.model.hasNextPage !== false;
+		}
+		return this.currentPage < this.lastPage;
+	}
+
 	/**
 	 * The previous page number to navigate to, from the current page.
 	 *
@@ -211,6 +349,9 @@ export class Pagination {
 	 * @memberof Pagination
 	 */
 	get nextPage(): number {
+		if (this.pagesUnknown || this.cursorPagination) {
+			return this.currentPage + 1;
+		}
 		const lastPage = this.lastPage;
 		return this.currentPage >= lastPage ? lastPage : this.currentPage + 1;
 	}
@@ -235,4 +376,20 @@ export class Pagination {
 	range(stop: number, start = 0, step = 1) {
 		return range(stop, start, step);
 	}
+
+	/**
+	 * Selects the page typed in the page number input. Page numbers out of range
+	 * are replaced with the current page.
+	 *
+	 * @param {HTMLInputElement} input
+	 * @memberof Pagination
+	 */
+	onPageInputChange(input: HTMLInputElement) {
+		const page = Number(input.value);
+		if (Number.isInteger(page) && page >= 1 && page <= this.lastPage && page !== Number(this.currentPage)) {
+			this.currentPage = page;
+		} else {
+			input.value = String(this.currentPage);
+		}
+	}
 }
@@ -18,13 +18,20 @@ import { PaginationModel } from "./pagination-model.class";
 	template: `
 		<ibm-pagination
 			[model]="model"
-			(selectPage)="selectPage($event)">
+			[pagesUnknown]="pagesUnknown"
+			[itemsPerPageOptions]="itemsPerPageOptions"
+			(selectPage)="selectPage($event)"
+			(pageLengthChange)="pageLengthChange($event)">
 		</ibm-pagination>
 	`
 })
 class PaginationStory implements OnInit {
 	@Input() model = new PaginationModel();
 
+	@Input() pagesUnknown = false;
+
+	@Input() itemsPerPageOptions = [10, 20, 30, 40, 50];
+
 	@Input() get totalDataLength() {
 		return this.model.totalDataLength;
 	}
@@ -33,13 +40,48 @@ class PaginationStory implements OnInit {
 	}
 
 	ngOnInit() {
-		this.model.pageLength = 10;
+		this.model.pageLength = this.itemsPerPageOptions[0];
 		this.model.currentPage = 1;
 	}
 
 	selectPage(page) {
 		console.log("Loading page", page, "from pagination model");
 		this.model.currentPage = page;
+		// pretend the server doesn't know the total, but knows when it's out of items
+		this.model.hasNextPage = page * this.model.pageLength < this.totalDataLength;
+	}
+
+	pageLengthChange(pageLength) {
+		console.log("Page length changed to", pageLength);
+	}
+}
+
+@Component({
+	selector: "app-cursor-pagination",
+	template: `
+		<ibm-pagination
+			[model]="model"
+			[pagesUnknown]="true"
+			[cursorPagination]="true"
+			(selectPage)="selectPage($event)">
+		</ibm-pagination>
+	`
+})
+class CursorPaginationStory implements OnInit {
+	model = new PaginationModel();
+
+	ngOnInit() {
+		this.model.pageLength = 10;
+		this.selectPage(1);
+	}
+
+	selectPage(page) {
+		// a cursor paginated backend would get the token and return the ones around the page
+		const token = page === this.model.currentPage + 1 ? this.model.nextPageToken : this.model.previousPageToken;
+		console.log("Loading page", page, "with cursor", token);
+		this.model.currentPage = page;
+		this.model.nextPageToken = page < 5 ? btoa(`after ${page * 10}`) : undefined;
+		this.model.previousPageToken = page > 1 ? btoa(`before ${page * 10 - 9}`) : undefined;
 	}
 }
 
@@ -51,7 +93,8 @@ storiesOf("Pagination", module).addDecorator(
 				PaginationModule
 			],
 			declarations: [
-				PaginationStory
+				PaginationStory,
+				CursorPaginationStory
 			]
 		})
 	)
@@ -63,5 +106,34 @@ storiesOf("Pagination", module).addDecorator(
 		props: {
 			totalDataLength: number("totalDataLength", 105)
 		}
+	}))
+	.add("with many pages", () => ({
+		template: `
+			<app-pagination [totalDataLength]="totalDataLength"></app-pagination>
+		`,
+		props: {
+			totalDataLength: number("totalDataLength", 1000000)
+		}
+	}))
+	.add("with unknown number of pages", () => ({
+		template: `
+			<app-pagination [totalDataLength]="totalDataLength" [pagesUnknown]="true"></app-pagination>
+		`,
+		props: {
+			totalDataLength: number("totalDataLength", 105)
+		}
+	}))
+	.add("with cursors", () => ({
+		template: `
+			<app-cursor-pagination></app-cursor-pagination>
+		`
+	}))
+	.add("with custom items per page", () => ({
+		template: `
+			<app-pagination [totalDataLength]="totalDataLength" [itemsPerPageOptions]="[25, 50, 100]"></app-pagination>
+		`,
+		props: {
+			totalDataLength: number("totalDataLength", 1000)
+		}
 	}));
 
@@ -0,0 +1,74 @@
+import { TableHeaderItem } from "./table-header-item.class";
+import { TableItem } from "./table-item.class";
+import { DateTimeModel } from "./../calendar/date-time-model.class";
+
+/**
+ * `TableHeaderItem` that filters out rows whose date is outside of a date range.
+ *
+ * Data of the cells should be `Date`s, or strings and numbers `Date` can parse.
+ *
+ * `ibm-table` provides a popover with an `ibm-calendar` to select the range, unless
+ * `filterTemplate` is set. The range is stored in `filterData.data` as a `DateTimeModel`.
+ *
+ * ```typescript
+ * this.model.header = [new DateRangeFilterHeaderItem({data: "Created"})];
+ * ```
+ *
+ * @export
+ * @class DateRangeFilterHeaderItem
+ * @extends {TableHeaderItem}
+ */
+export class DateRangeFilterHeaderItem extends TableHeaderItem {
+	/**
+	 * 1 if a range is selected, 0 otherwise.
+	 *
+	 * @memberof DateRangeFilterHeaderItem
+	 */
+	set filterCount(n) {}
+	get filterCount() {
+		return this.filterData && this.filterData.data && this.filterData.data.startDate ? 1 : 0;
+	}
+
+	/**
+	 * Creates an instance of DateRangeFilterHeaderItem.
+	 * @param {*} [rawData]
+	 * @memberof DateRangeFilterHeaderItem
+	 */
+	constructor(rawData?: any) {
+		super(rawData);
+		if (!rawData || !rawData.filterData) {
+			this.filterData = {data: new DateTimeModel()};
+		}
+	}
+
+	filter(item: TableItem): boolean {
+		const range: DateTimeModel = this.filterData ? this.filterData.data : null;
+		if (!range || !range.startDate) {
+			return false;
+		}
+		const date = item.data instanceof Date ? item.data : new Date(item.data);
+		// range selection in the calendar is in progress, so filter by the first selected day
+		const endDate = range.endDate || DateTimeModel.dayEnd(range.startDate);
+		return isNaN(date.getTime()) || date.getTime() < range.startDate.getTime() || date.getTime() > endDate.getTime();
+	}
+
+	getFilterState() {
+		const range: DateTimeModel = this.filterData.data;
+		return {
+			startDate: range.startDate ? range.startDate.toISOString() : null,
+			endDate: range.endDate ? range.endDate.toISOString() : null
+		};
+	}
+
+	setFilterState(state: any) {
+		const range: DateTimeModel = this.filterData.data;
+		range.startDate = state && state.startDate ? new Date(state.startDate) : undefined;
+		range.endDate = state && state.endDate ? new Date(state.endDate) : undefined;
+	}
+
+	clearFilter() {
+		const range: DateTimeModel = this.filterData.data;
+		range.startDate = undefined;
+		range.endDate = undefined;
+	}
+}
@@ -0,0 +1,64 @@
+import { Observable, of } from "rxjs";
+
+import { TableItem } from "./table-item.class";
+import {
+	TableDataSource,
+	TableDataRequest,
+	TableDataResponse
+} from "./table-data-source.interface";
+
+/**
+ * `TableDataSource` that has all the data in memory.
+ *
+ * Filters the data with `filter()` and sorts it with `compare()` of the header items,
+ * just like `TableModel` does, then returns the requested page.
+ *
+ * ```typescript
+ * this.model.dataSource = new InMemoryTableDataSource(data);
+ * this.model.pageLength = 10;
+ * this.model.loadPage(1);
+ * ```
+ *
+ * @export
+ * @class InMemoryTableDataSource
+ * @implements {TableDataSource}
+ */
+export class InMemoryTableDataSource implements TableDataSource {
+	/**
+	 * Creates an instance of InMemoryTableDataSource.
+	 *
+	 * @param {Array<Array<TableItem>>} [data=[]] All the rows of the table
+	 * @memberof InMemoryTableDataSource
+	 */
+	constructor(public data: TableItem[][] = []) {}
+
+	getData(request: TableDataRequest): Observable<TableDataResponse> {
+		const header = request.header;
+		// remember the original position of each row so equal rows stay in place
+		const rows = this.data
+			.filter(row => !header.some((column, i) => column.filter(row[i])))
+			.filter(row => !request.search || header.some((column, i) => column.visible && column.matchesSearch(row[i], request.search)))
+			.map((row, position) => ({row, position}));
+
+		rows.sort((a, b) => {
+			for (const key of request.sortKeys) {
+				const result = (key.ascending ? 1 : -1) * header[key.column].compare(a.row[key.column], b.row[key.column]);
+				if (result !== 0) {
+					return result;
+				}
+			}
+			return a.position - b.position;
+		});
+
+		let data = rows.map(sorted => sorted.row);
+		if (request.pageLength) {
+			const start = (request.page - 1) * request.pageLength;
+			data = data.slice(start, start + request.pageLength);
+		}
+
+		return of({
+			data,
+			totalDataLength: rows.length
+		});
+	}
+}
@@ -0,0 +1,37 @@
+import { Observable, of } from "rxjs";
+
+import { TableViewState } from "./table-view-state.interface";
+import { TableViewStateStorage } from "./table-view-state-storage.interface";
+
+/**
+ * `TableViewStateStorage` that keeps the states in memory, so they're kept while the app
+ * is running but not after a reload.
+ *
+ * Share one instance between the models that should remember their views.
+ *
+ * ```typescript
+ * export const viewStates = new InMemoryTableViewStateStorage();
+ * ```
+ *
+ * @export
+ * @class InMemoryTableViewStateStorage
+ * @implements {TableViewStateStorage}
+ */
+export class InMemoryTableViewStateStorage implements TableViewStateStorage {
+	/**
+	 * Stored states, serialized so changing a restored state doesn't change the stored one
+	 *
+	 * @protected
+	 * @memberof InMemoryTableViewStateStorage
+	 */
+	protected states: {[key: string]: string} = {};
+
+	load(key: string): Observable<TableViewState> {
+		return of(this.states.hasOwnProperty(key) ? JSON.parse(this.states[key]) : null);
+	}
+
+	save(key: string, state: TableViewState): Observable<any> {
+		this.states[key] = JSON.stringify(state);
+		return of(null);
+	}
+}
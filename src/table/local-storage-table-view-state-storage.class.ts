@@ -0,0 +1,47 @@
+import { Observable, of } from "rxjs";
+
+import { TableViewState } from "./table-view-state.interface";
+import { TableViewStateStorage } from "./table-view-state-storage.interface";
+
+/**
+ * `TableViewStateStorage` that keeps the states in `localStorage`, so they survive reloads.
+ *
+ * ```typescript
+ * this.model.viewStateStorage = new LocalStorageTableViewStateStorage();
+ * this.model.viewStateKey = "users-table";
+ * this.model.restoreViewState();
+ * ```
+ *
+ * States that can't be read, or storage that isn't available, are treated as no saved state.
+ *
+ * @export
+ * @class LocalStorageTableViewStateStorage
+ * @implements {TableViewStateStorage}
+ */
+export class LocalStorageTableViewStateStorage implements TableViewStateStorage {
+	/**
+	 * Creates an instance of LocalStorageTableViewStateStorage.
+	 *
+	 * @param {string} [prefix="ibm-table-view-state:"] Prepended to the keys of the states in `localStorage`
+	 * @memberof LocalStorageTableViewStateStorage
+	 */
+	constructor(public prefix = "ibm-table-view-state:") {}
+
+	load(key: string): Observable<TableViewState> {
+		try {
+			const state = localStorage.getItem(this.prefix + key);
+			return of(state ? JSON.parse(state) : null);
+		} catch (error) {
+			return of(null);
+		}
+	}
+
+	save(key: string, state: TableViewState): Observable<any> {
+		try {
+			localStorage.setItem(this.prefix + key, JSON.stringify(state));
+		} catch (error) {
+			// storage is full or disabled, the view just won't be remembered
+		}
+		return of(null);
+	}
+}
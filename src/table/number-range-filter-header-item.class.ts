@@ -0,0 +1,76 @@
+import { TableHeaderItem } from "./table-header-item.class";
+import { TableItem } from "./table-item.class";
+
+/**
+ * `TableHeaderItem` that filters out rows whose data is outside of a numeric range.
+ *
+ * `ibm-table` provides a popover with inputs for the minimum and the maximum, unless
+ * `filterTemplate` is set. The range is stored in `filterData.data` as `{min, max}`,
+ * either of which can be `null` for an open range.
+ *
+ * ```typescript
+ * this.model.header = [new NumberRangeFilterHeaderItem({data: "Price"})];
+ * ```
+ *
+ * @export
+ * @class NumberRangeFilterHeaderItem
+ * @extends {TableHeaderItem}
+ */
+export class NumberRangeFilterHeaderItem extends TableHeaderItem {
+	/**
+	 * 1 if the range has a minimum or a maximum, 0 otherwise.
+	 *
+	 * @memberof NumberRangeFilterHeaderItem
+	 */
+	set filterCount(n) {}
+	get filterCount() {
+		return this.isSet(this.range.min) || this.isSet(this.range.max) ? 1 : 0;
+	}
+
+	/**
+	 * Creates an instance of NumberRangeFilterHeaderItem.
+	 * @param {*} [rawData]
+	 * @memberof NumberRangeFilterHeaderItem
+	 */
+	constructor(rawData?: any) {
+		super(rawData);
+		if (!rawData || !rawData.filterData) {
+			this.filterData = {data: {min: null, max: null}};
+		}
+	}
+
+	filter(item: TableItem): boolean {
+		const { min, max } = this.range;
+		if (!this.isSet(min) && !this.isSet(max)) {
+			return false;
+		}
+		const value = typeof item.data === "number" ? item.data : parseFloat(item.data);
+		return isNaN(value) || (this.isSet(min) && value < Number(min)) || (this.isSet(max) && value > Number(max));
+	}
+
+	clearFilter() {
+		this.filterData.data = {min: null, max: null};
+	}
+
+	/**
+	 * The range from `filterData`, empty if there is none.
+	 *
+	 * @protected
+	 * @memberof NumberRangeFilterHeaderItem
+	 */
+	protected get range(): {min: number, max: number} {
+		return this.filterData && this.filterData.data ? this.filterData.data : {min: null, max: null};
+	}
+
+	/**
+	 * Checks if the bound of the range is set. Number inputs give us `""` once they're cleared.
+	 *
+	 * @protected
+	 * @param {*} bound
+	 * @returns {boolean}
+	 * @memberof NumberRangeFilterHeaderItem
+	 */
+	protected isSet(bound: any): boolean {
+		return bound !== null && bound !== undefined && bound !== "" && !isNaN(bound);
+	}
+}
@@ -0,0 +1,62 @@
+import { Observable } from "rxjs";
+import { map } from "rxjs/operators";
+
+import { TableItem } from "./table-item.class";
+import {
+	TableDataSource,
+	TableDataRequest,
+	TableDataResponse
+} from "./table-data-source.interface";
+
+/**
+ * Response of the `fetch` function of `RemoteTableDataSource`. Same as `TableDataResponse`,
+ * but cells of the rows can be plain values.
+ *
+ * @export
+ * @interface RemoteTableDataResponse
+ */
+export interface RemoteTableDataResponse extends TableDataResponse {
+	data: Array<Array<any>>;
+}
+
+/**
+ * `TableDataSource` that delegates sorting, filtering and paging to a backend.
+ *
+ * Provide a function that fetches the data for the request. Cells of the rows it returns
+ * can be plain values, they get wrapped in a `TableItem`.
+ *
+ * ```typescript
+ * this.model.dataSource = new RemoteTableDataSource(request =>
+ * 	this.http.get<{rows: Array<Array<any>>, total: number}>("/api/deployments", {params: toParams(request)})
+ * 		.pipe(map(response => ({data: response.rows, totalDataLength: response.total})))
+ * );
+ * ```
+ *
+ * Use `request.sortKeys` and `request.filters` to build the query, `request.header[i].metadata`
+ * is a good place to store the name of the field each column shows.
+ *
+ * Backends that paginate with cursors get the cursor in `request.pageToken`. Return `nextPageToken`
+ * and `previousPageToken` with the data, and `hasNextPage` instead of `totalDataLength` if the total isn't known.
+ * Set `cursorPagination` on the `ibm-pagination` of the table then.
+ *
+ * @export
+ * @class RemoteTableDataSource
+ * @implements {TableDataSource}
+ */
+export class RemoteTableDataSource implements TableDataSource {
+	/**
+	 * Creates an instance of RemoteTableDataSource.
+	 *
+	 * @param {(request: TableDataRequest) => Observable<RemoteTableDataResponse>} fetch
+	 * @memberof RemoteTableDataSource
+	 */
+	constructor(protected fetch: (request: TableDataRequest) => Observable<RemoteTableDataResponse>) {}
+
+	getData(request: TableDataRequest): Observable<TableDataResponse> {
+		return this.fetch(request).pipe(
+			map(response => Object.assign({}, response, {
+				data: response.data.map(row => row.map(cell => cell instanceof TableItem ? cell : new TableItem({data: cell})))
+			}))
+		);
+	}
+}
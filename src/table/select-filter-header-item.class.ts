@@ -0,0 +1,103 @@
+import { TableHeaderItem } from "./table-header-item.class";
+import { TableItem } from "./table-item.class";
+import { ListItem } from "./../dropdown/list-item.interface";
+
+/**
+ * `TableHeaderItem` that shows only the rows with one of the selected values.
+ *
+ * `ibm-table` provides a popover with a multi select `ibm-dropdown` of `options`, unless
+ * `filterTemplate` is set. Selected values are stored in `filterData.data`.
+ *
+ * ```typescript
+ * this.model.header = [new SelectFilterHeaderItem({data: "Status", options: ["Active", "Inactive", "Pending"]})];
+ * ```
+ *
+ * @export
+ * @class SelectFilterHeaderItem
+ * @extends {TableHeaderItem}
+ */
+export class SelectFilterHeaderItem extends TableHeaderItem {
+	/**
+	 * Values to choose from.
+	 *
+	 * @type {Array<string>}
+	 * @memberof SelectFilterHeaderItem
+	 */
+	options: Array<string>;
+
+	/**
+	 * `options` as `ListItem`s for the dropdown in the filter popover.
+	 *
+	 * @type {Array<ListItem>}
+	 * @memberof SelectFilterHeaderItem
+	 */
+	items: Array<ListItem>;
+
+	/**
+	 * Number of selected values.
+	 *
+	 * @memberof SelectFilterHeaderItem
+	 */
+	set filterCount(n) {}
+	get filterCount() {
+		return this.selectedValues.length;
+	}
+
+	/**
+	 * Creates an instance of SelectFilterHeaderItem.
+	 * @param {*} [rawData]
+	 * @memberof SelectFilterHeaderItem
+	 */
+	constructor(rawData?: any) {
+		super(rawData);
+		if (!rawData || !rawData.filterData) {
+			this.filterData = {data: []};
+		}
+		this.items = (this.options || []).map(option => ({
+			content: option,
+			selected: this.selectedValues.indexOf(option) >= 0
+		}));
+	}
+
+	filter(item: TableItem): boolean {
+		const selectedValues = this.selectedValues;
+		return selectedValues.length > 0 && selectedValues.indexOf(item.data) < 0;
+	}
+
+	/**
+	 * Sets the values to filter by to the contents of `selectedItems`.
+	 *
+	 * The dropdown emits `null` once the last value is deselected, which clears the filter.
+	 *
+	 * @param {Array<ListItem>} selectedItems
+	 * @memberof SelectFilterHeaderItem
+	 */
+	select(selectedItems: Array<ListItem>) {
+		const selectedValues = (selectedItems || []).map(item => item.content);
+		this.filterData.data = selectedValues;
+		this.items.forEach(item => item.selected = selectedValues.indexOf(item.content) >= 0);
+	}
+
+	getFilterState() {
+		return this.selectedValues.slice();
+	}
+
+	setFilterState(state: any) {
+		const values: Array<string> = Array.isArray(state) ? state : [];
+		this.select(this.items.filter(item => values.indexOf(item.content) >= 0));
+	}
+
+	clearFilter() {
+		this.select([]);
+	}
+
+	/**
+	 * Selected values from `filterData`
+	 *
+	 * @protected
+	 * @memberof SelectFilterHeaderItem
+	 */
+	protected get selectedValues(): Array<string> {
+		return this.filterData && Array.isArray(this.filterData.data) ? this.filterData.data : [];
+	}
+}
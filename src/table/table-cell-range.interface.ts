@@ -0,0 +1,45 @@
+/**
+ * Position of a cell in `TableModel`, `row` indexes `data` and `column` indexes `header`.
+ *
+ * @export
+ * @interface TableCellPosition
+ */
+export interface TableCellPosition {
+	/**
+	 * Index of the row in `TableModel.data`
+	 *
+	 * @type {number}
+	 * @memberof TableCellPosition
+	 */
+	row: number;
+	/**
+	 * Index of the column in `TableModel.header`
+	 *
+	 * @type {number}
+	 * @memberof TableCellPosition
+	 */
+	column: number;
+}
+
+/**
+ * Rectangle of cells selected in `ibm-table`, see `Table.selectedCells`.
+ *
+ * @export
+ * @interface TableCellRange
+ */
+export interface TableCellRange {
+	/**
+	 * Cell the selection started from
+	 *
+	 * @type {TableCellPosition}
+	 * @memberof TableCellRange
+	 */
+	start: TableCellPosition;
+	/**
+	 * Cell the selection was extended to, the opposite corner from `start`
+	 *
+	 * @type {TableCellPosition}
+	 * @memberof TableCellRange
+	 */
+	end: TableCellPosition;
+}
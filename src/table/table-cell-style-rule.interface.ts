@@ -0,0 +1,41 @@
+import { TableItem } from "./table-item.class";
+
+/**
+ * Styles the cells of a column that match a condition, see `TableHeaderItem.cellStyleRules`.
+ *
+ * ```typescript
+ * {condition: data => data > 1000, context: "error"}
+ * ```
+ *
+ * @export
+ * @interface TableCellStyleRule
+ */
+export interface TableCellStyleRule {
+	/**
+	 * Returns `true` for the cells the rule applies to.
+	 *
+	 * @memberof TableCellStyleRule
+	 */
+	condition: (data: any, item: TableItem) => boolean;
+	/**
+	 * Class added to the matching cells.
+	 *
+	 * @type {string}
+	 * @memberof TableCellStyleRule
+	 */
+	className?: string;
+	/**
+	 * Tints the matching cells like `TableModel.rowsContext` tints the rows,
+	 * by adding the `table_cell--<context>` class.
+	 *
+	 * @type {("success" | "warning" | "info" | "error")}
+	 * @memberof TableCellStyleRule
+	 */
+	context?: "success" | "warning" | "info" | "error";
+	/**
+	 * Style added to the matching cells, in ngStyle-like format.
+	 *
+	 * @memberof TableCellStyleRule
+	 */
+	style?: {[property: string]: string};
+}
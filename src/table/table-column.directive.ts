@@ -0,0 +1,156 @@
+import {
+	Directive,
+	Input,
+	Output,
+	EventEmitter,
+	OnChanges,
+	SimpleChanges,
+	TemplateRef
+} from "@angular/core";
+
+import { TableHeaderItem, TableCellFormat } from "./table-header-item.class";
+import { TableItem } from "./table-item.class";
+
+/**
+ * Declares a column of an `ibm-table` that shows plain row objects from its `rows` input.
+ *
+ * ```html
+ * <ibm-table [rows]="users">
+ * 	<ibm-table-column field="name" header="Name" sortable></ibm-table-column>
+ * 	<ibm-table-column field="address.city" header="City"></ibm-table-column>
+ * 	<ibm-table-column header="Actions" [cellTemplate]="actionsTemplate"></ibm-table-column>
+ * </ibm-table>
+ * ```
+ *
+ * @export
+ * @class TableColumn
+ */
+@Directive({
+	// tslint:disable-next-line
+	selector: "ibm-table-column"
+})
+export class TableColumn implements OnChanges {
+	/**
+	 * Property of the row objects the column shows. Nested properties are separated with dots.
+	 *
+	 * Leave it out to give `cellTemplate` the whole row object.
+	 *
+	 * @type {string}
+	 * @memberof TableColumn
+	 */
+	@Input() field: string;
+
+	/**
+	 * Text of the column header.
+	 *
+	 * @type {string}
+	 * @memberof TableColumn
+	 */
+	@Input() header: string;
+
+	/**
+	 * Allows sorting the rows by the column, the attribute alone is enough.
+	 *
+	 * @memberof TableColumn
+	 */
+	@Input()
+	set sortable(value: boolean) {
+		// `<ibm-table-column sortable>` sets it to an empty string
+		this._sortable = value != null && `${value}` !== "false";
+	}
+
+	get sortable(): boolean {
+		return this._sortable;
+	}
+
+	/**
+	 * Template of the cells. `let-data="data"` gives you access to the value of `field`,
+	 * or to the row object if there's no `field`.
+	 *
+	 * @type {TemplateRef<any>}
+	 * @memberof TableColumn
+	 */
+	@Input() cellTemplate: TemplateRef<any>;
+
+	/**
+	 * Template of the column header. `let-data="data"` gives you access to `header`.
+	 *
+	 * @type {TemplateRef<any>}
+	 * @memberof TableColumn
+	 */
+	@Input() headerTemplate: TemplateRef<any>;
+
+	/**
+	 * Width of the column, `"150px"` by default.
+	 *
+	 * @type {string}
+	 * @memberof TableColumn
+	 */
+	@Input() width: string;
+
+	/**
+	 * Class of the header and the cells of the column.
+	 *
+	 * @type {string}
+	 * @memberof TableColumn
+	 */
+	@Input() className: string;
+
+	/**
+	 * See `TableHeaderItem.format`.
+	 *
+	 * @memberof TableColumn
+	 */
+	@Input() format: TableCellFormat | Array<TableCellFormat>;
+
+	/**
+	 * Emits when any of the inputs changes after the column is created.
+	 *
+	 * @memberof TableColumn
+	 */
+	@Output() columnChange = new EventEmitter<TableColumn>();
+
+	protected _sortable = false;
+
+	ngOnChanges(changes: SimpleChanges) {
+		if (Object.keys(changes).some(key => !changes[key].isFirstChange())) {
+			this.columnChange.emit(this);
+		}
+	}
+
+	/**
+	 * Creates the `TableHeaderItem` of the column.
+	 *
+	 * @returns {TableHeaderItem}
+	 * @memberof TableColumn
+	 */
+	headerItem(): TableHeaderItem {
+		const options: any = {
+			data: this.header,
+			sortable: this.sortable,
+			template: this.headerTemplate,
+			className: this.className,
+			format: this.format
+		};
+		if (this.width) {
+			options.style = {"width": this.width};
+		}
+		// keep the defaults of `TableHeaderItem` for the options that aren't set
+		Object.keys(options).filter(key => options[key] === undefined).forEach(key => delete options[key]);
+		return new TableHeaderItem(options);
+	}
+
+	/**
+	 * Creates the `TableItem` of the column for the `row` object.
+	 *
+	 * @param {*} row
+	 * @returns {TableItem}
+	 * @memberof TableColumn
+	 */
+	item(row: any): TableItem {
+		const data = this.field
+			? this.field.split(".").reduce((value, key) => value == null ? undefined : value[key], row)
+			: row;
+		return new TableItem({data, template: this.cellTemplate});
+	}
+}
@@ -0,0 +1,134 @@
+import { Observable } from "rxjs";
+
+import { TableItem } from "./table-item.class";
+import { TableHeaderItem } from "./table-header-item.class";
+import { TableSortKey } from "./table-sort-key.interface";
+
+/**
+ * Describes the data `TableModel` asks its `dataSource` for.
+ *
+ * @export
+ * @interface TableDataRequest
+ */
+export interface TableDataRequest {
+	/**
+	 * Page to load, starting with 1
+	 *
+	 * @type {number}
+	 * @memberof TableDataRequest
+	 */
+	page: number;
+	/**
+	 * Number of rows in a page. Falsy if the data isn't paginated.
+	 *
+	 * @type {number}
+	 * @memberof TableDataRequest
+	 */
+	pageLength: number;
+	/**
+	 * Cursor of the requested page, from `nextPageToken` or `previousPageToken` of an earlier response.
+	 * Empty for the first page, and for data sources that paginate by page numbers.
+	 *
+	 * @type {string}
+	 * @memberof TableDataRequest
+	 */
+	pageToken?: string;
+	/**
+	 * Columns to sort by, primary sort key first.
+	 *
+	 * @type {Array<TableSortKey>}
+	 * @memberof TableDataRequest
+	 */
+	sortKeys: Array<TableSortKey>;
+	/**
+	 * `filterData.data` of every column, in the order of the header.
+	 *
+	 * @type {Array<any>}
+	 * @memberof TableDataRequest
+	 */
+	filters: Array<any>;
+	/**
+	 * Text to search for in all the visible columns, see `TableModel.search()`. Empty if there's no search.
+	 *
+	 * @type {string}
+	 * @memberof TableDataRequest
+	 */
+	search: string;
+	/**
+	 * Header of the table, in case the data source needs `compare()`, `filter()` or `metadata`
+	 * of the columns.
+	 *
+	 * @type {Array<TableHeaderItem>}
+	 * @memberof TableDataRequest
+	 */
+	header: Array<TableHeaderItem>;
+}
+
+/**
+ * Describes the data a `TableDataSource` responds with.
+ *
+ * @export
+ * @interface TableDataResponse
+ */
+export interface TableDataResponse {
+	/**
+	 * Rows of the requested page.
+	 *
+	 * @type {Array<Array<TableItem>>}
+	 * @memberof TableDataResponse
+	 */
+	data: Array<Array<TableItem>>;
+	/**
+	 * Number of rows matching the filters, on all pages. `null` if it isn't known,
+	 * use `hasNextPage` instead.
+	 *
+	 * @type {number}
+	 * @memberof TableDataResponse
+	 */
+	totalDataLength: number;
+	/**
+	 * `false` if this is the last page, for responses without `totalDataLength`.
+	 *
+	 * @type {boolean}
+	 * @memberof TableDataResponse
+	 */
+	hasNextPage?: boolean;
+	/**
+	 * Cursor of the next page, for data sources that paginate with cursors. Empty on the last page.
+	 *
+	 * @type {string}
+	 * @memberof TableDataResponse
+	 */
+	nextPageToken?: string;
+	/**
+	 * Cursor of the previous page, for data sources that paginate with cursors.
+	 *
+	 * @type {string}
+	 * @memberof TableDataResponse
+	 */
+	previousPageToken?: string;
+}
+
+/**
+ * Source of data for `TableModel`.
+ *
+ * When `TableModel.dataSource` is set, sorting, filtering and paging are delegated to it,
+ * instead of working on the data the model already has.
+ *
+ * See `InMemoryTableDataSource` and `RemoteTableDataSource` for ready-made implementations.
+ *
+ * @export
+ * @interface TableDataSource
+ */
+export interface TableDataSource {
+	/**
+	 * Returns an `Observable` of the requested data.
+	 *
+	 * `TableModel` unsubscribes from it if a newer request is made before it responds.
+	 *
+	 * @param {TableDataRequest} request
+	 * @returns {Observable<TableDataResponse>}
+	 * @memberof TableDataSource
+	 */
+	getData(request: TableDataRequest): Observable<TableDataResponse>;
+}
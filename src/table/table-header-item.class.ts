@@ -1,9 +1,15 @@
 import { TableItem } from "./table-item.class";
+import { TableCellStyleRule } from "./table-cell-style-rule.interface";
 import {
 	EventEmitter,
 	TemplateRef
 } from "@angular/core";
 
+/**
+ * A built-in format name, or a function formatting the data, see `TableHeaderItem.format`.
+ */
+export type TableCellFormat = "number" | "currency" | "percentage" | "date" | "bytes" | ((data: any, item?: TableItem) => any);
+
 export class TableHeaderItem {
 	/**
 	 * Defines if column under this TableHeaderItem should be displayed.
@@ -36,6 +42,18 @@ export class TableHeaderItem {
 	 */
 	filterCount = 0;
 
+	/**
+	 * Pins the column to the left or the right edge of the table, so it stays in view
+	 * while the table scrolls horizontally.
+	 *
+	 * Columns pinned to the left stay in place after the other columns pinned to the left
+	 * that come before them, and columns pinned to the right after the ones that come after them.
+	 *
+	 * @type {("left" | "right")}
+	 * @memberof TableHeaderItem
+	 */
+	frozen: "left" | "right";
+
 	/**
 	 * Attach a class to the column, both the header and column cells.
 	 *
@@ -52,6 +70,21 @@ export class TableHeaderItem {
 	 */
 	style = {"width": "150px"};
 
+	/**
+	 * Narrowest width (in px) users can resize the column to.
+	 *
+	 * @memberof TableHeaderItem
+	 */
+	minWidth = 50;
+
+	/**
+	 * Widest width (in px) users can resize the column to. No limit if not set.
+	 *
+	 * @type {number}
+	 * @memberof TableHeaderItem
+	 */
+	maxWidth: number;
+
 	/**
 	 * If true, sort is set to ascending, if false descending will be true.
 	 *
@@ -76,6 +109,17 @@ export class TableHeaderItem {
 		return !this._ascending;
 	}
 
+	/**
+	 * Identifies the column in `TableViewState`, so saved views can be restored after
+	 * the columns are reordered.
+	 *
+	 * If it's not set, `data` is used when it's a string, otherwise the index of the column.
+	 *
+	 * @type {string}
+	 * @memberof TableHeaderItem
+	 */
+	id: string;
+
 	/**
 	 * Data for the header item.
 	 *
@@ -204,6 +248,139 @@ export class TableHeaderItem {
 	 */
 	filterData: any;
 
+	/**
+	 * Editor used to edit cells of the column inline. The column isn't editable if it's not set.
+	 *
+	 * `"text"` and `"number"` use an input, `"dropdown"` uses an `ibm-dropdown` with
+	 * `editOptions` to choose from and `"checkbox"` uses an `ibm-checkbox`.
+	 *
+	 * Set `editTemplate` instead for a custom editor.
+	 *
+	 * @type {("text" | "number" | "dropdown" | "checkbox")}
+	 * @memberof TableHeaderItem
+	 */
+	editor: "text" | "number" | "dropdown" | "checkbox";
+
+	/**
+	 * Values to choose from when `editor` is `"dropdown"`.
+	 *
+	 * @type {Array<string>}
+	 * @memberof TableHeaderItem
+	 */
+	editOptions: Array<string>;
+
+	/**
+	 * Used as a custom editor of the cells in the column, makes the column editable.
+	 *
+	 * `let-data="data"` gives you access to the data of the cell being edited,
+	 * `let-commit="commit"` to the function saving the new value and `let-cancel="cancel"`
+	 * to the function closing the editor without any changes. `let-invalid="invalid"` is
+	 * `true` if the last committed value didn't pass `validate()`.
+	 *
+	 * Example:
+	 * ```html
+	 * <ng-template #colorEditor let-data="data" let-commit="commit">
+	 * 	<input type="color" [value]="data" (change)="commit($event.target.value)">
+	 * </ng-template>
+	 * ```
+	 *
+	 * @type {TemplateRef<any>}
+	 * @memberof TableHeaderItem
+	 */
+	editTemplate: TemplateRef<any>;
+
+	/**
+	 * Aggregate of the column shown in the summary row of the table, and of every group
+	 * when the rows are grouped. Computed over the rows that aren't filtered out.
+	 *
+	 * `"sum"` and `"avg"` work on numbers, `"min"` and `"max"` use `compare()`, `"count"` counts
+	 * the non empty items and `"distinct"` the different values. Pass a function for anything else:
+	 *
+	 * ```typescript
+	 * new TableHeaderItem({data: "Amount", aggregate: items => items.filter(item => item.data < 0).length})
+	 * ```
+	 *
+	 * Columns without an aggregate have empty summary cells.
+	 *
+	 * @type {("sum" | "avg" | "min" | "max" | "count" | "distinct" | ((items: Array<TableItem>) => any))}
+	 * @memberof TableHeaderItem
+	 */
+	aggregate: "sum" | "avg" | "min" | "max" | "count" | "distinct" | ((items: Array<TableItem>) => any);
+
+	/**
+	 * Used to display the aggregate of the column in the summary rows.
+	 *
+	 * `let-data="data"` gives you access to the aggregate value and `let-column="column"`
+	 * to this header item.
+	 *
+	 * @type {TemplateRef<any>}
+	 * @memberof TableHeaderItem
+	 */
+	aggregateTemplate: TemplateRef<any>;
+
+	/**
+	 * Formats the data of the cells, and of the `"sum"`, `"avg"`, `"min"` and `"max"` aggregates, for display.
+	 *
+	 * Built-in formats use `locale` and `formatOptions`:
+	 *
+	 * - `"number"` - `1,234.5`
+	 * - `"currency"` - `$1,234.50`, set `formatOptions.currency` for other currencies than US dollar
+	 * - `"percentage"` - `0.25` becomes `25%`
+	 * - `"date"` - dates, ISO strings and timestamps
+	 * - `"bytes"` - `1536` becomes `1.5 KB`
+	 *
+	 * A function gets the value and the item and returns the formatted value. Pass an array to
+	 * apply several formats one after another, each getting the value the previous one returned.
+	 *
+	 * ```typescript
+	 * new TableHeaderItem({data: "Discount", format: [data => data / 100, "percentage"]})
+	 * ```
+	 *
+	 * Items with a `template` aren't formatted. The data itself stays as it is, so sorting, filtering,
+	 * editing and exports work with the raw values.
+	 *
+	 * @memberof TableHeaderItem
+	 */
+	format: TableCellFormat | Array<TableCellFormat>;
+
+	/**
+	 * Options of the built-in formats, in `Intl.NumberFormat` or `Intl.DateTimeFormat` format.
+	 *
+	 * ```typescript
+	 * new TableHeaderItem({data: "Price", format: "currency", formatOptions: {currency: "EUR"}})
+	 * ```
+	 *
+	 * @memberof TableHeaderItem
+	 */
+	formatOptions: Intl.NumberFormatOptions | Intl.DateTimeFormatOptions;
+
+	/**
+	 * Locale of the built-in formats, defaults to the locale of the browser.
+	 *
+	 * @type {string}
+	 * @memberof TableHeaderItem
+	 */
+	locale: string;
+
+	/**
+	 * Rules styling the cells of the column, evaluated for each item.
+	 * Every matching rule applies.
+	 *
+	 * ```typescript
+	 * new TableHeaderItem({
+	 * 	data: "Temperature",
+	 * 	cellStyleRules: [
+	 * 		{condition: data => data > 30, context: "error"},
+	 * 		{condition: data => data < 0, className: "cold", style: {"font-weight": "bold"}}
+	 * 	]
+	 * })
+	 * ```
+	 *
+	 * @type {Array<TableCellStyleRule>}
+	 * @memberof TableHeaderItem
+	 */
+	cellStyleRules: Array<TableCellStyleRule> = [];
+
 	/**
 	 * used in `ascending`
 	 *
@@ -212,6 +389,23 @@ export class TableHeaderItem {
 	 */
 	protected _ascending = true;
 
+	/**
+	 * Formatters of the built-in formats, made for `formattersKey`.
+	 *
+	 * @protected
+	 * @memberof TableHeaderItem
+	 */
+	protected formatters: {[name: string]: Intl.NumberFormat | Intl.DateTimeFormat} = {};
+
+	/**
+	 * `locale` and `formatOptions` the `formatters` were made for.
+	 *
+	 * @protected
+	 * @type {string}
+	 * @memberof TableHeaderItem
+	 */
+	protected formattersKey: string = null;
+
 	/**
 	 * Creates an instance of TableHeaderItem.
 	 * @param {*} [rawData]
@@ -258,6 +452,194 @@ export class TableHeaderItem {
 		}
 	}
 
+	/**
+	 * Limits `width` (in px) to `minWidth` and `maxWidth` of the column.
+	 *
+	 * @param {number} width
+	 * @returns {number}
+	 * @memberof TableHeaderItem
+	 */
+	clampWidth(width: number): number {
+		const min = this.minWidth || 0;
+		const max = this.maxWidth || Infinity;
+		return Math.max(min, Math.min(width, max));
+	}
+
+	/**
+	 * Used to get the value of the item when exporting the table with `TableModel.exportCSV()`
+	 * or `exportTSV()`, and by `exportJSONValue()`.
+	 *
+	 * Override, or pass your own `exportValue` in the constructor, for items rendered with a
+	 * `template`, so the export contains what users see rather than the raw data.
+	 *
+	 * By default `Date`s are exported as ISO strings and objects as JSON.
+	 *
+	 * @param {TableItem} item
+	 * @returns {*} value for the export
+	 * @memberof TableHeaderItem
+	 */
+	exportValue(item: TableItem): any {
+		const data = item.data;
+		if (data == null) {
+			return "";
+		} else if (data instanceof Date) {
+			return data.toISOString();
+		} else if (typeof data === "object") {
+			return JSON.stringify(data);
+		}
+		return data;
+	}
+
+	/**
+	 * Used to get the value of the item when exporting the table with `TableModel.exportJSON()`.
+	 *
+	 * By default objects and `Date`s are exported as they are, so they end up as JSON objects and ISO strings,
+	 * `null` and `undefined` as `null`, and the rest with `exportValue()`.
+	 *
+	 * @param {TableItem} item
+	 * @returns {*} value for the export
+	 * @memberof TableHeaderItem
+	 */
+	exportJSONValue(item: TableItem): any {
+		const data = item.data;
+		if (data == null) {
+			return null;
+		} else if (typeof data === "object") {
+			return data;
+		}
+		return this.exportValue(item);
+	}
+
+	/**
+	 * Used to compute the aggregate of the column over the items of the column in the rows
+	 * shown in the table, or in a group of rows. See `aggregate`.
+	 *
+	 * Items with `null`, `undefined` or empty string data are left out of the built-in aggregates.
+	 *
+	 * @param {Array<TableItem>} items
+	 * @returns {*} the aggregate value, `null` for `"avg"`, `"min"` and `"max"` of no items
+	 * @memberof TableHeaderItem
+	 */
+	aggregateValue(items: Array<TableItem>): any {
+		if (typeof this.aggregate === "function") {
+			return this.aggregate(items);
+		}
+
+		const values = items.filter(item => item.data != null && item.data !== "");
+		const sum = () => values.reduce((total, item) => total + Number(item.data), 0);
+		switch (this.aggregate) {
+			case "sum":
+				return sum();
+			case "avg":
+				return values.length ? sum() / values.length : null;
+			case "min":
+				return values.length ? values.reduce((min, item) => this.compare(item, min) < 0 ? item : min).data : null;
+			case "max":
+				return values.length ? values.reduce((max, item) => this.compare(item, max) > 0 ? item : max).data : null;
+			case "count":
+				return values.length;
+			case "distinct": {
+				// equal items end up next to each other once sorted
+				const sorted = values.slice().sort((a, b) => this.compare(a, b));
+				return sorted.filter((item, i) => i === 0 || this.compare(item, sorted[i - 1]) !== 0).length;
+			}
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Formats `data` for display with `format`. Returns `data` as it is if there's no `format`.
+	 *
+	 * @param {*} data
+	 * @param {TableItem} [item] The item the data belongs to, if any
+	 * @returns {*}
+	 * @memberof TableHeaderItem
+	 */
+	formatData(data: any, item?: TableItem): any {
+		const formats = Array.isArray(this.format) ? this.format : (this.format ? [this.format] : []);
+		return formats.reduce((value, format) => this.applyFormat(format, value, item), data);
+	}
+
+	/**
+	 * Formats the aggregate `value` of the column for display. Only `"sum"`, `"avg"`, `"min"` and `"max"`
+	 * are formatted, they are the only ones in the same unit as the data.
+	 *
+	 * @param {*} value
+	 * @returns {*}
+	 * @memberof TableHeaderItem
+	 */
+	formatAggregate(value: any): any {
+		return ["sum", "avg", "min", "max"].indexOf(this.aggregate as string) >= 0 ? this.formatData(value) : value;
+	}
+
+	/**
+	 * Classes of the cell of `item`, `className` of the column and the ones added by the matching `cellStyleRules`.
+	 *
+	 * @param {TableItem} item
+	 * @returns {Array<string>}
+	 * @memberof TableHeaderItem
+	 */
+	cellClasses(item: TableItem): Array<string> {
+		return this.matchingCellStyleRules(item).reduce((classes, rule) => classes.concat(
+			rule.className ? [rule.className] : [],
+			rule.context ? [`table_cell--${rule.context}`] : []
+		), this.className ? [this.className] : []);
+	}
+
+	/**
+	 * Style of the cell of `item`, `style` of the column extended with the matching `cellStyleRules`.
+	 *
+	 * @param {TableItem} item
+	 * @returns {Object}
+	 * @memberof TableHeaderItem
+	 */
+	cellStyle(item: TableItem): Object {
+		const rules = this.matchingCellStyleRules(item).filter(rule => !!rule.style);
+		if (!rules.length) {
+			return this.style;
+		}
+		return rules.reduce((style, rule) => Object.assign(style, rule.style), Object.assign({}, this.style));
+	}
+
+	/**
+	 * Used to turn text pasted into the column (see `TableModel.pasteCells()`) into data.
+	 *
+	 * By default `"number"` editors get numbers and `"checkbox"` editors booleans, the rest get the text.
+	 * Override, or pass your own `parseValue` in the constructor, for other data. The value still has
+	 * to pass `validate()`.
+	 *
+	 * @param {string} text
+	 * @param {TableItem} item the item the value is pasted into
+	 * @returns {*}
+	 * @memberof TableHeaderItem
+	 */
+	parseValue(text: string, item: TableItem): any {
+		switch (this.editor) {
+			case "number":
+				return text.trim() === "" ? null : Number(text);
+			case "checkbox":
+				return /^(true|yes|1)$/i.test(text.trim());
+			default:
+				return text;
+		}
+	}
+
+	/**
+	 * Used to validate values entered in the inline editor of the column.
+	 *
+	 * Override, or pass your own `validate` in the constructor, to reject some values.
+	 * The editor stays open until a valid value is entered or the edit is cancelled.
+	 *
+	 * @param {*} value The new value
+	 * @param {TableItem} item The edited item, still containing the old value
+	 * @returns {boolean} `true` if the value can be saved
+	 * @memberof TableHeaderItem
+	 */
+	validate(value: any, item: TableItem): boolean {
+		return true;
+	}
+
 	/**
 	 * Used to filter rows in the table.
 	 *
@@ -276,4 +658,141 @@ export class TableHeaderItem {
 		this.filterCount = 0;
 		return false;
 	}
+
+	/**
+	 * Used by `TableModel.search()` to check if the item contains the searched text.
+	 *
+	 * By default the value from `exportValue()`, and the formatted value if the column has a `format`,
+	 * are searched, ignoring case.
+	 *
+	 * @param {TableItem} item
+	 * @param {string} text The searched text, never empty
+	 * @returns {boolean} `true` if the item matches the search
+	 * @memberof TableHeaderItem
+	 */
+	matchesSearch(item: TableItem, text: string): boolean {
+		const values = [this.exportValue(item)].concat(this.format ? [this.formatData(item.data, item)] : []);
+		return values.some(value => String(value).toLowerCase().indexOf(text.toLowerCase()) >= 0);
+	}
+
+	/**
+	 * Used to save the filter of the column in `TableViewState`.
+	 *
+	 * Has to return plain data that survives `JSON.stringify()`. By default it's `filterData.data`.
+	 * Override along with `setFilterState()` if your filter stores anything else in `filterData`.
+	 *
+	 * @returns {*}
+	 * @memberof TableHeaderItem
+	 */
+	getFilterState(): any {
+		return this.filterData ? this.filterData.data : undefined;
+	}
+
+	/**
+	 * Used to restore the filter of the column from `TableViewState`.
+	 *
+	 * @param {*} state The value returned by `getFilterState()`
+	 * @memberof TableHeaderItem
+	 */
+	setFilterState(state: any) {
+		if (!this.filterData) {
+			this.filterData = {};
+		}
+		this.filterData.data = state;
+	}
+
+	/**
+	 * Resets the filter so it doesn't filter out any rows.
+	 *
+	 * Used by `TableModel.clearFilters()`. Override along with `filter()` if your filter
+	 * doesn't store a string in `filterData.data`.
+	 *
+	 * @memberof TableHeaderItem
+	 */
+	clearFilter() {
+		this.filterData.data = "";
+		this.filterCount = 0;
+	}
+
+	/**
+	 * Applies one of the `format`s to `value`.
+	 *
+	 * @protected
+	 * @param {TableCellFormat} format
+	 * @param {*} value
+	 * @param {TableItem} item
+	 * @returns {*}
+	 * @memberof TableHeaderItem
+	 */
+	protected applyFormat(format: TableCellFormat, value: any, item: TableItem): any {
+		if (typeof format === "function") {
+			return format(value, item);
+		}
+		if (value == null || value === "") {
+			return value;
+		}
+
+		const numberFormat = (name: string, defaults: Intl.NumberFormatOptions) =>
+			this.formatter(name, () => new Intl.NumberFormat(this.locale, Object.assign(defaults, this.formatOptions)));
+		switch (format) {
+			case "number":
+				return numberFormat(format, {}).format(Number(value));
+			case "currency":
+				return numberFormat(format, {style: "currency", currency: "USD"}).format(Number(value));
+			case "percentage":
+				return numberFormat(format, {style: "percent"}).format(Number(value));
+			case "date": {
+				const date = value instanceof Date ? value : new Date(value);
+				return isNaN(date.getTime()) ? value :
+					this.formatter(format, () => new Intl.DateTimeFormat(this.locale, this.formatOptions)).format(date);
+			}
+			case "bytes": {
+				const units = ["B", "KB", "MB", "GB", "TB", "PB"];
+				let size = Number(value);
+				let unit = 0;
+				while (Math.abs(size) >= 1024 && unit < units.length - 1) {
+					size /= 1024;
+					unit++;
+				}
+				const fractionDigits = unit ? 1 : 0;
+				return `${numberFormat(`bytes${fractionDigits}`, {maximumFractionDigits: fractionDigits}).format(size)} ${units[unit]}`;
+			}
+			default:
+				return value;
+		}
+	}
+
+	/**
+	 * Returns the formatter called `name`, made with `create()` the first time it's needed.
+	 * The formatters are made again once `locale` or `formatOptions` change.
+	 *
+	 * @protected
+	 * @param {string} name
+	 * @param {() => T} create
+	 * @returns {T}
+	 * @memberof TableHeaderItem
+	 */
+	protected formatter<T extends Intl.NumberFormat | Intl.DateTimeFormat>(name: string, create: () => T): T {
+		const key = JSON.stringify([this.locale, this.formatOptions]);
+		if (key !== this.formattersKey) {
+			this.formatters = {};
+			this.formattersKey = key;
+		}
+		if (!this.formatters[name]) {
+			this.formatters[name] = create();
+		}
+		return this.formatters[name] as T;
+	}
+
+	/**
+	 * Returns the `cellStyleRules` whose condition `item` matches.
+	 *
+	 * @protected
+	 * @param {TableItem} item
+	 * @returns {Array<TableCellStyleRule>}
+	 * @memberof TableHeaderItem
+	 */
+	protected matchingCellStyleRules(item: TableItem): Array<TableCellStyleRule> {
+		return this.cellStyleRules ? this.cellStyleRules.filter(rule => rule.condition(item.data, item)) : [];
+	}
 }
@@ -1,4 +1,19 @@
-import { TableModel, TableItem, TableHeaderItem } from "./table.module";
+import { Subject, of } from "rxjs";
+
+import {
+	TableModel,
+	TableItem,
+	TableHeaderItem,
+	InMemoryTableDataSource,
+	RemoteTableDataSource,
+	TextFilterHeaderItem,
+	NumberRangeFilterHeaderItem,
+	DateRangeFilterHeaderItem,
+	SelectFilterHeaderItem,
+	InMemoryTableViewStateStorage,
+	LocalStorageTableViewStateStorage
+} from "./table.module";
+import { DateTimeModel } from "./../calendar/calendar.module";
 
 describe("Table", () => {
 	it("empty model should have length 0", () => {
@@ -46,6 +61,58 @@ describe("Table", () => {
 		expect(tableModel.rowsContext.length).toEqual(2);
 	});
 
+	it("should reset row state when setting new rows", () => {
+		let tableModel  = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "B"})],
+			[new TableItem({data: "C"}), new TableItem({data: "D"})]
+		];
+		tableModel.rowsSelected[1] = true;
+
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "B"})],
+			[new TableItem({data: "C"}), new TableItem({data: "D"})]
+		];
+
+		expect(tableModel.selectedRowsCount()).toEqual(0);
+	});
+
+	it("should keep row state of rows with the same key when setting data", () => {
+		let tableModel  = new TableModel();
+		tableModel.trackBy = row => row[0].data;
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "B"})],
+			[new TableItem({data: "C"}), new TableItem({data: "D"})]
+		];
+		tableModel.rowsSelected[1] = true;
+		tableModel.rowsExpanded[1] = true;
+		tableModel.rowsContext[0] = "error";
+
+		tableModel.data = [
+			[new TableItem({data: "E"}), new TableItem({data: "F"})],
+			[new TableItem({data: "C"}), new TableItem({data: "G"})],
+			[new TableItem({data: "A"}), new TableItem({data: "H"})]
+		];
+
+		expect(tableModel.rowsSelected).toEqual([undefined, true, undefined]);
+		expect(tableModel.rowsExpanded).toEqual([undefined, true, undefined]);
+		expect(tableModel.rowsContext).toEqual([undefined, undefined, "error"]);
+		expect(tableModel.rowKey(-1)).toEqual("A");
+	});
+
+	it("should keep row state of the same rows when setting data", () => {
+		let tableModel  = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "B"})],
+			[new TableItem({data: "C"}), new TableItem({data: "D"})]
+		];
+		tableModel.rowsSelected[0] = true;
+
+		tableModel.data = tableModel.data.slice().reverse();
+
+		expect(tableModel.rowsSelected).toEqual([undefined, true]);
+	});
+
 	it("should set header when setting data", () => {
 		let tableModel  = new TableModel();
 		tableModel.data = [
@@ -151,6 +218,76 @@ describe("Table", () => {
 		expect(tableModel.rowsContext).toEqual(["success", undefined, undefined]);
 	});
 
+	it("should sort data by multiple columns", () => {
+		let tableModel = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "B"}), new TableItem({data: 1})],
+			[new TableItem({data: "A"}), new TableItem({data: 2})],
+			[new TableItem({data: "B"}), new TableItem({data: 3})],
+			[new TableItem({data: "A"}), new TableItem({data: 1})]
+		];
+		tableModel.rowsSelected[2] = true;
+		tableModel.header[1].descending = true;
+
+		tableModel.sort(0);
+		tableModel.sort(1, true);
+		expect(tableModel.column(0).map(item => item.data)).toEqual(["A", "A", "B", "B"]);
+		expect(tableModel.column(1).map(item => item.data)).toEqual([2, 1, 3, 1]);
+		expect(tableModel.rowsSelected).toEqual([false, false, true, false]);
+		expect(tableModel.header[0].sorted).toBe(true);
+		expect(tableModel.header[1].sorted).toBe(true);
+		expect(tableModel.sortPriority(0)).toEqual(1);
+		expect(tableModel.sortPriority(1)).toEqual(2);
+	});
+
+	it("should keep the order of equal rows when sorting", () => {
+		let tableModel = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "B"}), new TableItem({data: "1"})],
+			[new TableItem({data: "A"}), new TableItem({data: "2"})],
+			[new TableItem({data: "B"}), new TableItem({data: "3"})],
+			[new TableItem({data: "A"}), new TableItem({data: "4"})]
+		];
+
+		tableModel.sort(0);
+		expect(tableModel.column(1).map(item => item.data)).toEqual(["2", "4", "1", "3"]);
+	});
+
+	it("should reset sort keys on non additive sort", () => {
+		let tableModel = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "B"})],
+			[new TableItem({data: "C"}), new TableItem({data: "D"})]
+		];
+
+		tableModel.sort(0);
+		tableModel.sort(1, true);
+		tableModel.sort(1);
+		expect(tableModel.sortKeys).toEqual([{column: 1, ascending: true}]);
+		expect(tableModel.header[0].sorted).toBe(false);
+		expect(tableModel.sortPriority(0)).toEqual(0);
+	});
+
+	it("should expose and restore sort keys", () => {
+		let tableModel = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "1"}), new TableItem({data: "x"})],
+			[new TableItem({data: "B"}), new TableItem({data: "2"}), new TableItem({data: "y"})],
+			[new TableItem({data: "A"}), new TableItem({data: "3"}), new TableItem({data: "z"})]
+		];
+
+		tableModel.sortBy([{column: 0, ascending: false}, {column: 1, ascending: false}]);
+		expect(tableModel.column(1).map(item => item.data)).toEqual(["2", "3", "1"]);
+		expect(tableModel.sortKeys).toEqual([{column: 0, ascending: false}, {column: 1, ascending: false}]);
+
+		tableModel.moveColumn(0, 3);
+		expect(tableModel.sortKeys).toEqual([{column: 2, ascending: false}, {column: 0, ascending: false}]);
+
+		tableModel.sortBy([]);
+		expect(tableModel.sortKeys).toEqual([]);
+		expect(tableModel.header.some(column => column.sorted)).toBe(false);
+	});
+
 	/* ****************************************************************
 	***********                                             ***********
 	***********                   ROWS                      ***********
@@ -338,6 +475,62 @@ describe("Table", () => {
 
 
 
+	it("should return the selected rows", () => {
+		let tableModel = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: 1})],
+			[new TableItem({data: "B"}), new TableItem({data: 2})],
+			[new TableItem({data: "C"}), new TableItem({data: 3})]
+		];
+		tableModel.selectRow(0);
+		tableModel.selectRow(2);
+
+		expect(tableModel.selectedRowIndexes()).toEqual([0, 2]);
+		expect(tableModel.selectedRows()).toEqual([tableModel.data[0], tableModel.data[2]]);
+		expect(tableModel.selectedRowsData()).toEqual([["A", 1], ["C", 3]]);
+	});
+
+	it("should select a range of rows that aren't filtered out", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TextFilterHeaderItem({data: "Name"})];
+		tableModel.data = [
+			[new TableItem({data: "Ax"})],
+			[new TableItem({data: "B"})],
+			[new TableItem({data: "Cx"})],
+			[new TableItem({data: "Dx"})]
+		];
+		tableModel.header[0].filterData.data = "x";
+
+		expect(tableModel.selectRange(2, 0)).toEqual([0, 2]);
+		expect(tableModel.selectedRowIndexes()).toEqual([0, 2]);
+
+		tableModel.selectAll();
+		expect(tableModel.selectedRowIndexes()).toEqual([0, 2, 3]);
+	});
+
+	it("should keep rows on all pages selected", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem({data: "Name"})];
+		tableModel.pageLength = 2;
+		tableModel.dataSource = new InMemoryTableDataSource([
+			[new TableItem({data: "A"})],
+			[new TableItem({data: "B"})],
+			[new TableItem({data: "C"})]
+		]);
+		tableModel.loadPage(1);
+		tableModel.selectAllPages();
+		tableModel.loadPage(2);
+
+		expect(tableModel.allPagesSelected).toBe(true);
+		expect(tableModel.selectedRowsData()).toEqual([["C"]]);
+
+		tableModel.selectRow(0, false);
+		tableModel.loadPage(1);
+
+		expect(tableModel.allPagesSelected).toBe(false);
+		expect(tableModel.selectedRowsCount()).toEqual(0);
+	});
+
 	/* ****************************************************************
 	***********                                             ***********
 	***********                  COLUMNS                    ***********
@@ -605,4 +798,760 @@ describe("Table", () => {
 		expect(tableModel.header[2].data).toEqual("h3");
 		expect(tableModel.header.length).toEqual(3);
 	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                DATA SOURCE                  ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	it("should load a page from data source", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem(), new TableHeaderItem()];
+		tableModel.dataSource = new InMemoryTableDataSource(
+			Array.from(Array(25), (_, i) => [new TableItem({data: i}), new TableItem({data: `Row ${i}`})])
+		);
+		tableModel.pageLength = 10;
+
+		tableModel.loadPage(3);
+		expect(tableModel.data.length).toEqual(5);
+		expect(tableModel.row(0)[0].data).toEqual(20);
+		expect(tableModel.currentPage).toEqual(3);
+		expect(tableModel.totalDataLength).toEqual(25);
+		expect(tableModel.isLoading).toBe(false);
+	});
+
+	it("should sort with data source", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem()];
+		tableModel.dataSource = new InMemoryTableDataSource(
+			Array.from(Array(25), (_, i) => [new TableItem({data: i})])
+		);
+		tableModel.pageLength = 10;
+		tableModel.loadPage(2);
+
+		tableModel.header[0].descending = true;
+		tableModel.sort(0);
+		expect(tableModel.currentPage).toEqual(1);
+		expect(tableModel.row(0)[0].data).toEqual(24);
+		expect(tableModel.header[0].sorted).toBe(true);
+	});
+
+	it("should filter with data source", () => {
+		class OddHeaderItem extends TableHeaderItem {
+			filter(item: TableItem) {
+				return item.data % 2 === 0;
+			}
+		}
+
+		let tableModel = new TableModel();
+		tableModel.header = [new OddHeaderItem()];
+		tableModel.dataSource = new InMemoryTableDataSource(
+			Array.from(Array(10), (_, i) => [new TableItem({data: i})])
+		);
+
+		tableModel.loadPage(1);
+		expect(tableModel.column(0).map(item => item.data)).toEqual([1, 3, 5, 7, 9]);
+		expect(tableModel.totalDataLength).toEqual(5);
+		expect(tableModel.isRowFiltered(0)).toBe(false);
+	});
+
+	it("should surface data source errors", () => {
+		const response = new Subject<any>();
+		let tableModel = new TableModel();
+		tableModel.data = [[new TableItem({data: "kept"})]];
+		tableModel.dataSource = new RemoteTableDataSource(() => response);
+		let emitted;
+		tableModel.dataError.subscribe(error => emitted = error);
+
+		tableModel.loadPage(1);
+		response.error("offline");
+
+		expect(tableModel.isLoading).toBe(false);
+		expect(tableModel.loadingError).toEqual("offline");
+		expect(emitted).toEqual("offline");
+		expect(tableModel.row(0)[0].data).toEqual("kept");
+
+		tableModel.dataSource = new RemoteTableDataSource(() => of({data: [["loaded"]], totalDataLength: 1}));
+		tableModel.loadPage(1);
+		expect(tableModel.loadingError).toBeNull();
+	});
+
+	it("should discard stale data source responses", () => {
+		const responses = [new Subject<any>(), new Subject<any>()];
+		let requests = [];
+		let tableModel = new TableModel();
+		tableModel.dataSource = new RemoteTableDataSource(request => {
+			requests.push(request);
+			return responses[requests.length - 1];
+		});
+		tableModel.pageLength = 1;
+
+		tableModel.loadPage(1);
+		tableModel.loadPage(2);
+		expect(tableModel.isLoading).toBe(true);
+
+		responses[1].next({data: [["second"]], totalDataLength: 2});
+		responses[0].next({data: [["first"]], totalDataLength: 2});
+
+		expect(requests.map(request => request.page)).toEqual([1, 2]);
+		expect(tableModel.row(0)[0]).toEqual(new TableItem({data: "second"}));
+		expect(tableModel.currentPage).toEqual(2);
+		expect(tableModel.isLoading).toBe(false);
+	});
+
+	it("should request pages with cursors", () => {
+		let requests = [];
+		let tableModel = new TableModel();
+		tableModel.dataSource = new RemoteTableDataSource(request => {
+			requests.push(request.pageToken);
+			const page = request.page;
+			return of({
+				data: [[`row ${page}`]],
+				totalDataLength: null,
+				hasNextPage: page < 3,
+				nextPageToken: page < 3 ? `after ${page}` : undefined,
+				previousPageToken: page > 1 ? `before ${page}` : undefined
+			});
+		});
+		tableModel.pageLength = 1;
+
+		tableModel.loadPage(1);
+		tableModel.loadPage(2);
+		tableModel.loadPage(3);
+		tableModel.loadPage(3);
+		tableModel.loadPage(2);
+		tableModel.loadPage(1);
+
+		expect(requests).toEqual([undefined, "after 1", "after 2", "after 2", "before 3", undefined]);
+		expect(tableModel.currentPage).toEqual(1);
+		expect(tableModel.hasNextPage).toBe(true);
+		expect(tableModel.nextPageToken).toEqual("after 1");
+		expect(tableModel.previousPageToken).toBeUndefined();
+	});
+
+	it("should send sort keys and filters to data source", () => {
+		let request;
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem(), new TableHeaderItem({filterData: {data: "abc"}})];
+		tableModel.dataSource = new RemoteTableDataSource(r => {
+			request = r;
+			return of({data: [], totalDataLength: 0});
+		});
+
+		tableModel.header[1].descending = true;
+		tableModel.sort(1);
+		expect(request.sortKeys).toEqual([{column: 1, ascending: false}]);
+		expect(request.filters).toEqual(["", "abc"]);
+		expect(tableModel.totalDataLength).toEqual(0);
+	});
+
+	it("should keep row state when reloading data from data source", () => {
+		let tableModel = new TableModel();
+		tableModel.trackBy = row => row[0].data;
+		tableModel.dataSource = new InMemoryTableDataSource([
+			[new TableItem({data: "B"})],
+			[new TableItem({data: "A"})],
+			[new TableItem({data: "C"})]
+		]);
+		tableModel.loadPage(1);
+		tableModel.selectRow(0);
+
+		tableModel.sort(0);
+		expect(tableModel.column(0).map(item => item.data)).toEqual(["A", "B", "C"]);
+		expect(tableModel.rowsSelected).toEqual([undefined, true, undefined]);
+	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                  FILTERS                    ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	it("should filter rows with built-in filters", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TextFilterHeaderItem({data: "Name"}),
+			new NumberRangeFilterHeaderItem({data: "Count"}),
+			new DateRangeFilterHeaderItem({data: "Created"}),
+			new SelectFilterHeaderItem({data: "Status", options: ["Active", "Inactive"]})
+		];
+		tableModel.data = [
+			[
+				new TableItem({data: "Lorem"}),
+				new TableItem({data: 1}),
+				new TableItem({data: new Date(2018, 6, 10)}),
+				new TableItem({data: "Active"})
+			],
+			[
+				new TableItem({data: "ipsum"}),
+				new TableItem({data: 20}),
+				new TableItem({data: new Date(2018, 7, 10)}),
+				new TableItem({data: "Inactive"})
+			]
+		];
+		const visibleRows = () => tableModel.data.filter((row, i) => !tableModel.isRowFiltered(i)).length;
+		expect(visibleRows()).toEqual(2);
+
+		tableModel.header[0].filterData.data = "LOR";
+		expect(visibleRows()).toEqual(1);
+		expect(tableModel.header[0].filterCount).toEqual(1);
+		tableModel.header[0].clearFilter();
+
+		tableModel.header[1].filterData.data.min = 10;
+		expect(tableModel.isRowFiltered(0)).toBe(true);
+		expect(tableModel.isRowFiltered(1)).toBe(false);
+		tableModel.header[1].clearFilter();
+
+		tableModel.header[2].filterData.data = new DateTimeModel(new Date(2018, 6, 1), new Date(2018, 6, 31));
+		expect(tableModel.isRowFiltered(0)).toBe(false);
+		expect(tableModel.isRowFiltered(1)).toBe(true);
+		tableModel.header[2].clearFilter();
+
+		(tableModel.header[3] as SelectFilterHeaderItem).select([{content: "Inactive", selected: true}]);
+		expect(tableModel.isRowFiltered(0)).toBe(true);
+		expect(tableModel.header[3].filterCount).toEqual(1);
+		expect((tableModel.header[3] as SelectFilterHeaderItem).items[1].selected).toBe(true);
+	});
+
+	it("should clear the select filter when the last value is deselected", () => {
+		let tableModel = new TableModel();
+		const status = new SelectFilterHeaderItem({data: "Status", options: ["Active", "Inactive"]});
+		tableModel.header = [status];
+		tableModel.data = [
+			[new TableItem({data: "Active"})],
+			[new TableItem({data: "Inactive"})]
+		];
+		status.select([{content: "Inactive", selected: true}]);
+		expect(tableModel.isRowFiltered(0)).toBe(true);
+
+		// the multi select dropdown emits `null` when nothing is selected
+		status.select(null);
+		expect(tableModel.isRowFiltered(0)).toBe(false);
+		expect(status.filterCount).toEqual(0);
+		expect(status.items.map(item => item.selected)).toEqual([false, false]);
+	});
+
+	it("should clear all filters", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TextFilterHeaderItem({data: "Name", filterData: {data: "a"}}),
+			new NumberRangeFilterHeaderItem({data: "Count", filterData: {data: {min: 5, max: null}}})
+		];
+		tableModel.data = [
+			[new TableItem({data: "Lorem"}), new TableItem({data: 1})]
+		];
+		expect(tableModel.isRowFiltered(0)).toBe(true);
+
+		tableModel.clearFilters();
+		expect(tableModel.isRowFiltered(0)).toBe(false);
+		expect(tableModel.header.map(column => column.filterCount)).toEqual([0, 0]);
+	});
+
+	it("should search in all visible columns", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TableHeaderItem({data: "Name"}),
+			new TableHeaderItem({data: "Note", visible: false}),
+			new TableHeaderItem({data: "Created"})
+		];
+		tableModel.data = [
+			[new TableItem({data: "Lorem"}), new TableItem({data: "ipsum"}), new TableItem({data: new Date(Date.UTC(2018, 0, 1))})],
+			[new TableItem({data: "Dolor"}), new TableItem({data: "sit"}), new TableItem({data: new Date(Date.UTC(2019, 0, 1))})]
+		];
+		const shownRows = () => tableModel.data.map((row, index) => tableModel.isRowFiltered(index));
+
+		tableModel.search("LOR");
+		expect(shownRows()).toEqual([false, false]);
+
+		tableModel.search("ipsum");
+		expect(shownRows()).toEqual([true, true]);
+
+		tableModel.search("2019");
+		expect(shownRows()).toEqual([true, false]);
+
+		tableModel.search("");
+		expect(shownRows()).toEqual([false, false]);
+	});
+
+	it("should pass the search to the data source", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem({data: "Name"})];
+		tableModel.dataSource = new InMemoryTableDataSource([
+			[new TableItem({data: "Lorem"})],
+			[new TableItem({data: "ipsum"})]
+		]);
+		tableModel.search("IPS");
+
+		expect(tableModel.data.map(row => row[0].data)).toEqual(["ipsum"]);
+		expect(tableModel.totalDataLength).toEqual(1);
+	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                   EXPORT                    ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	it("should export rows shown in the table as CSV", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TextFilterHeaderItem({data: "Name"}),
+			new TableHeaderItem({data: "Hidden", visible: false}),
+			new TableHeaderItem({data: "Note"})
+		];
+		tableModel.data = [
+			[new TableItem({data: "Bx"}), new TableItem({data: 1}), new TableItem({data: "say \"hi\""})],
+			[new TableItem({data: "Ax"}), new TableItem({data: 2}), new TableItem({data: "one, two"})],
+			[new TableItem({data: "C"}), new TableItem({data: 3}), new TableItem({data: "line\nbreak"})]
+		];
+		tableModel.sort(0);
+		tableModel.header[0].filterData.data = "x";
+
+		expect(tableModel.exportCSV()).toEqual("Name,Note\r\nAx,\"one, two\"\r\nBx,\"say \"\"hi\"\"\"");
+		expect(tableModel.exportTSV()).toEqual("Name\tNote\r\nAx\tone, two\r\nBx\t\"say \"\"hi\"\"\"");
+	});
+
+	it("should export rows shown in the table as JSON", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TableHeaderItem({data: "Name"}),
+			new TableHeaderItem({data: "Count", exportValue: item => item.data * 2}),
+			new TableHeaderItem({data: "Name"}),
+			new TableHeaderItem({data: "Date"})
+		];
+		const date = new Date(Date.UTC(2018, 0, 2));
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: 1}), new TableItem({data: "a"}), new TableItem({data: date})],
+			[new TableItem({data: {name: "B"}}), new TableItem({data: 2}), new TableItem({data: null}), new TableItem({data: null})]
+		];
+		tableModel.moveColumn(1, 0);
+
+		expect(JSON.parse(tableModel.exportJSON())).toEqual([
+			{"Count": 2, "Name": "A", "Name (2)": "a", "Date": "2018-01-02T00:00:00.000Z"},
+			{"Count": 4, "Name": {name: "B"}, "Name (2)": null, "Date": null}
+		]);
+	});
+
+	it("should export cells for the clipboard", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TextFilterHeaderItem({data: "Name"}),
+			new TableHeaderItem({data: "Hidden", visible: false}),
+			new TableHeaderItem({data: "Note"})
+		];
+		tableModel.data = [
+			[new TableItem({data: "Ax"}), new TableItem({data: 1}), new TableItem({data: "<b>&</b>"})],
+			[new TableItem({data: "B"}), new TableItem({data: 2}), new TableItem({data: "hidden"})],
+			[new TableItem({data: "Cx"}), new TableItem({data: 3}), new TableItem({data: "tab\there"})]
+		];
+		tableModel.header[0].filterData.data = "x";
+
+		const { text, html } = tableModel.exportCells([2, 1, 0], [0, 1, 2]);
+
+		expect(text).toEqual("Ax\t<b>&</b>\r\nCx\t\"tab\there\"");
+		expect(html).toEqual("<table><tr><td>Ax</td><td>&lt;b&gt;&amp;&lt;/b&gt;</td></tr><tr><td>Cx</td><td>tab\there</td></tr></table>");
+	});
+
+	it("should paste TSV into the editable cells", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TableHeaderItem({data: "Name", editor: "text"}),
+			new TableHeaderItem({data: "Id"}),
+			new TableHeaderItem({data: "Count", editor: "number", validate: value => value >= 0}),
+			new TableHeaderItem({data: "Done", editor: "checkbox"})
+		];
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: 1}), new TableItem({data: 1}), new TableItem({data: false})],
+			[new TableItem({data: "B"}), new TableItem({data: 2}), new TableItem({data: 2}), new TableItem({data: false})]
+		];
+
+		const changes = tableModel.pasteCells("x\ty\t-5\tyes\n\"two\nlines\"\t\t7\ttrue\textra\nignored\r\n", 0, 0);
+
+		expect(tableModel.data.map(row => row.map(item => item.data))).toEqual([
+			["x", 1, 1, true],
+			["two\nlines", 2, 7, true]
+		]);
+		expect(changes.map(({row, column, oldValue, newValue}) => [row, column, oldValue, newValue])).toEqual([
+			[0, 0, "A", "x"],
+			[0, 3, false, true],
+			[1, 0, "B", "two\nlines"],
+			[1, 2, 2, 7],
+			[1, 3, false, true]
+		]);
+	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                  GROUPING                   ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	it("should group rows by column values", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem({data: "Team"}), new TableHeaderItem({data: "Role"}), new TableHeaderItem({data: "Name"})];
+		tableModel.data = [
+			[new TableItem({data: "B"}), new TableItem({data: "dev"}), new TableItem({data: "Ann"})],
+			[new TableItem({data: "A"}), new TableItem({data: "qa"}), new TableItem({data: "Bob"})],
+			[new TableItem({data: "B"}), new TableItem({data: "qa"}), new TableItem({data: "Cid"})],
+			[new TableItem({data: "A"}), new TableItem({data: "qa"}), new TableItem({data: "Dan"})]
+		];
+		tableModel.sortBy([{column: 2, ascending: false}]);
+		tableModel.groupBy([0, 1]);
+
+		expect(tableModel.groupKeys).toEqual([0, 1]);
+		expect(tableModel.data.map(row => row[2].data)).toEqual(["Dan", "Bob", "Ann", "Cid"]);
+		expect(tableModel.groups.map(group => group.item.data)).toEqual(["A", "B"]);
+		expect(tableModel.groups[0].rows).toEqual([0, 1]);
+		expect(tableModel.groups[1].groups.map(group => [group.item.data, group.rows, group.level])).toEqual([
+			["dev", [2], 1],
+			["qa", [3], 1]
+		]);
+		expect(tableModel.hasExpandableRows()).toBe(true);
+
+		tableModel.groupBy([]);
+
+		expect(tableModel.groups).toEqual([]);
+		expect(tableModel.hasExpandableRows()).toBe(false);
+	});
+
+	it("should keep groups collapsed when data changes", () => {
+		let tableModel = new TableModel();
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: 1})],
+			[new TableItem({data: "B"}), new TableItem({data: 2})]
+		];
+		tableModel.groupBy([0]);
+		tableModel.expandGroup(tableModel.groups[1], false);
+		tableModel.addRow([new TableItem({data: "B"}), new TableItem({data: 3})]);
+
+		expect(tableModel.groups.map(group => group.expanded)).toEqual([true, false]);
+		expect(tableModel.groups[1].rows).toEqual([1, 2]);
+	});
+
+	it("should keep groups of objects apart", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TableHeaderItem({data: "Team", compare: (one, two) => one.data.name.localeCompare(two.data.name)}),
+			new TableHeaderItem({data: "Amount"})
+		];
+		tableModel.data = [
+			[new TableItem({data: {name: "A"}}), new TableItem({data: 1})],
+			[new TableItem({data: {name: "B"}}), new TableItem({data: 2})]
+		];
+		tableModel.groupBy([0]);
+		tableModel.expandGroup(tableModel.groups[0], false);
+		tableModel.addRow([new TableItem({data: {name: "B"}}), new TableItem({data: 3})]);
+
+		expect(tableModel.groups[0].key).not.toEqual(tableModel.groups[1].key);
+		expect(tableModel.groups.map(group => group.expanded)).toEqual([false, true]);
+	});
+
+	it("should select rows of a group", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem({data: "Team"}), new TextFilterHeaderItem({data: "Name"})];
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "Ann"})],
+			[new TableItem({data: "A"}), new TableItem({data: "Bob"})],
+			[new TableItem({data: "B"}), new TableItem({data: "Cid"})]
+		];
+		tableModel.groupBy([0]);
+		tableModel.header[1].filterData.data = "n";
+		tableModel.selectGroup(tableModel.groups[0]);
+
+		expect(tableModel.rowsSelected).toEqual([true, false, false]);
+		expect(tableModel.isGroupSelected(tableModel.groups[0])).toBe(true);
+		expect(tableModel.isGroupSelected(tableModel.groups[1])).toBe(false);
+	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                 AGGREGATES                  ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	it("should aggregate columns over rows that aren't filtered out", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TextFilterHeaderItem({data: "Name", aggregate: "count"}),
+			new TableHeaderItem({data: "Amount", aggregate: "sum"}),
+			new TableHeaderItem({data: "Rate", aggregate: "avg"}),
+			new TableHeaderItem({data: "Min", aggregate: "min"}),
+			new TableHeaderItem({data: "Max", aggregate: "max"}),
+			new TableHeaderItem({data: "Team", aggregate: "distinct"}),
+			new TableHeaderItem({data: "Custom", aggregate: items => items.map(item => item.data).join("")}),
+			new TableHeaderItem({data: "None"})
+		];
+		const row = (name, amount, rate, team, custom) => [name, amount, rate, amount, amount, team, custom, ""]
+			.map(data => new TableItem({data}));
+		tableModel.data = [
+			row("Ann", 10, 1, "A", "x"),
+			row("Bob", 20, "", "B", "y"),
+			row("Cid", 30, 3, "A", "z"),
+			row("Dan", 100, 4, "C", "w")
+		];
+		tableModel.header[0].filterData.data = "n";
+
+		expect(tableModel.hasAggregates()).toBe(true);
+		expect(tableModel.aggregates()).toEqual([2, 110, 2.5, 10, 100, 2, "xw", undefined]);
+		expect(tableModel.aggregates([1, 2])).toEqual([0, 0, null, null, null, 0, "", undefined]);
+	});
+
+	it("should aggregate groups", () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TableHeaderItem({data: "Team"}), new TableHeaderItem({data: "Amount", aggregate: "sum"})];
+		tableModel.data = [
+			[new TableItem({data: "A"}), new TableItem({data: 1})],
+			[new TableItem({data: "B"}), new TableItem({data: 2})],
+			[new TableItem({data: "A"}), new TableItem({data: 3})]
+		];
+		tableModel.groupBy([0]);
+
+		expect(tableModel.groups.map(group => tableModel.aggregates(group.rows)[1])).toEqual([4, 2]);
+	});
+
+	it("should cache the aggregates until the data, the search or the filters change", () => {
+		let tableModel = new TableModel();
+		const header = new TableHeaderItem({data: "Amount", aggregate: "sum"});
+		spyOn(header, "aggregateValue").and.callThrough();
+		tableModel.header = [new TextFilterHeaderItem({data: "Name"}), header];
+		tableModel.data = [
+			[new TableItem({data: "Ann"}), new TableItem({data: 1})],
+			[new TableItem({data: "Bob"}), new TableItem({data: 2})]
+		];
+
+		expect(tableModel.aggregates()).toEqual([undefined, 3]);
+		expect(tableModel.aggregates()).toBe(tableModel.aggregates());
+		expect(header.aggregateValue).toHaveBeenCalledTimes(1);
+
+		tableModel.header[0].filterData.data = "ann";
+		expect(tableModel.aggregates()).toEqual([undefined, 1]);
+		tableModel.header[0].filterData.data = "";
+		tableModel.search("bob");
+		expect(tableModel.aggregates()).toEqual([undefined, 2]);
+		tableModel.search("");
+
+		tableModel.pasteCells("5", 0, 1);
+		expect(tableModel.aggregates()).toEqual([undefined, 3]);
+		tableModel.header[1].editor = "number";
+		tableModel.pasteCells("5", 0, 1);
+		expect(tableModel.aggregates()).toEqual([undefined, 7]);
+		tableModel.addRow([new TableItem({data: "Cid"}), new TableItem({data: 3})]);
+		expect(tableModel.aggregates()).toEqual([undefined, 10]);
+	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                 FORMATTING                  ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	it("should format cell data with the column format", () => {
+		const format = (options) => new TableHeaderItem(Object.assign({locale: "en-US"}, options));
+
+		expect(format({}).formatData(1234.5)).toEqual(1234.5);
+		expect(format({format: "number"}).formatData(1234.5)).toEqual("1,234.5");
+		expect(format({format: "currency"}).formatData(1234.5)).toEqual("$1,234.50");
+		expect(format({format: "currency", formatOptions: {currency: "EUR"}, locale: "en-GB"}).formatData(1234.5)).toEqual("€1,234.50");
+		expect(format({format: "percentage"}).formatData(0.25)).toEqual("25%");
+		expect(format({format: "date", formatOptions: {timeZone: "UTC"}}).formatData("2018-03-01T00:00:00Z")).toEqual("3/1/2018");
+		expect(format({format: "date"}).formatData("not a date")).toEqual("not a date");
+		expect(format({format: "bytes"}).formatData(512)).toEqual("512 B");
+		expect(format({format: "bytes"}).formatData(1536)).toEqual("1.5 KB");
+		expect(format({format: "bytes"}).formatData(5 * 1024 * 1024 * 1024)).toEqual("5 GB");
+		expect(format({format: "number"}).formatData(null)).toBe(null);
+		expect(format({format: [data => data / 100, "percentage"]}).formatData(25)).toEqual("25%");
+		expect(format({format: "currency", aggregate: "sum"}).formatAggregate(3)).toEqual("$3.00");
+		expect(format({format: "currency", aggregate: "count"}).formatAggregate(3)).toEqual(3);
+	});
+
+	it("should make the formatters again only when the locale or the options change", () => {
+		const header = new TableHeaderItem({format: "currency", locale: "en-US"});
+		expect(header.formatData(1)).toEqual("$1.00");
+		const formatter = header["formatters"].currency;
+		expect(header.formatData(2)).toEqual("$2.00");
+		expect(header["formatters"].currency).toBe(formatter);
+
+		header.formatOptions = {currency: "EUR"};
+		expect(header.formatData(2)).toEqual("€2.00");
+		header.locale = "de-DE";
+		expect(header.formatData(2)).toEqual("2,00\u00a0€");
+
+		header.format = "bytes";
+		expect(header.formatData(512)).toEqual("512 B");
+		expect(header.formatData(1536)).toEqual("1,5 KB");
+	});
+
+	it("should style cells matching the rules", () => {
+		const header = new TableHeaderItem({
+			data: "Amount",
+			className: "amount",
+			cellStyleRules: [
+				{condition: data => data > 100, context: "error"},
+				{condition: data => data < 0, className: "negative", style: {"font-weight": "bold"}}
+			]
+		});
+		const item = (data) => new TableItem({data});
+
+		expect(header.cellClasses(item(50))).toEqual(["amount"]);
+		expect(header.cellClasses(item(500))).toEqual(["amount", "table_cell--error"]);
+		expect(header.cellClasses(item(-5))).toEqual(["amount", "negative"]);
+		expect(header.cellStyle(item(50))).toBe(header.style);
+		expect(header.cellStyle(item(-5))).toEqual({"width": "150px", "font-weight": "bold"});
+		expect(header.style).toEqual({"width": "150px"});
+	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                 VIEW STATE                  ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	const viewStateModel = () => {
+		let tableModel = new TableModel();
+		tableModel.header = [
+			new TextFilterHeaderItem({data: "Name"}),
+			new TableHeaderItem({data: {label: "Amount"}, id: "amount"}),
+			new DateRangeFilterHeaderItem({data: "Created"}),
+			new SelectFilterHeaderItem({data: "Status", options: ["Active", "Inactive"]})
+		];
+		tableModel.data = [
+			[new TableItem({data: "Bx"}), new TableItem({data: 2}), new TableItem({data: new Date(2018, 0, 2)}), new TableItem({data: "Active"})],
+			[new TableItem({data: "Ax"}), new TableItem({data: 1}), new TableItem({data: new Date(2018, 0, 1)}), new TableItem({data: "Active"})],
+			[new TableItem({data: "C"}), new TableItem({data: 3}), new TableItem({data: new Date(2018, 0, 3)}), new TableItem({data: "Inactive"})]
+		];
+		return tableModel;
+	};
+
+	it("should restore a view state snapshot", () => {
+		let tableModel = viewStateModel();
+		tableModel.moveColumn(1, 0);
+		tableModel.header[2].visible = false;
+		tableModel.header[3].style = {width: "300px"};
+		tableModel.header[1].filterData.data = "x";
+		tableModel.header[2].filterData.data.startDate = new Date(2018, 0, 1);
+		const status = tableModel.header[3] as SelectFilterHeaderItem;
+		status.select([status.items[0]]);
+		tableModel.sortBy([{column: 1, ascending: false}]);
+		const state = JSON.parse(JSON.stringify(tableModel.getViewState()));
+
+		expect(state.columns.map(column => column.id)).toEqual(["amount", "Name", "Created", "Status"]);
+		expect(state.sort).toEqual([{column: "Name", ascending: false}]);
+
+		let restoredModel = viewStateModel();
+		restoredModel.setViewState(state);
+
+		expect(restoredModel.header.map(column => column.data)).toEqual([{label: "Amount"}, "Name", "Created", "Status"]);
+		expect(restoredModel.data.map(row => row[1].data)).toEqual(["C", "Bx", "Ax"]);
+		expect(restoredModel.data[0][0].data).toEqual(3);
+		expect(restoredModel.header[2].visible).toBe(false);
+		expect(restoredModel.header[3].style.width).toEqual("300px");
+		expect(restoredModel.header[2].filterData.data.startDate).toEqual(new Date(2018, 0, 1));
+		expect((restoredModel.header[3] as SelectFilterHeaderItem).items.map(item => item.selected)).toEqual([true, false]);
+		expect(restoredModel.sortKeys).toEqual([{column: 1, ascending: false}]);
+		expect(restoredModel.data.map((row, index) => restoredModel.isRowFiltered(index))).toEqual([true, true, false]);
+	});
+
+	it("should ignore unknown columns in a view state", () => {
+		let tableModel = viewStateModel();
+		tableModel.setViewState({
+			columns: [{id: "Status", visible: true}, {id: "Removed", visible: false}],
+			sort: [{column: "Removed", ascending: true}]
+		});
+
+		expect(tableModel.header.map(column => column.data)).toEqual(["Status", "Name", {label: "Amount"}, "Created"]);
+		expect(tableModel.data[0].map(item => item.data)).toEqual(["Active", "Bx", 2, new Date(2018, 0, 2)]);
+		expect(tableModel.sortKeys).toEqual([]);
+	});
+
+	it("should save and restore view state with a storage", () => {
+		[new InMemoryTableViewStateStorage(), new LocalStorageTableViewStateStorage("test:")].forEach(storage => {
+			let tableModel = viewStateModel();
+			tableModel.viewStateStorage = storage;
+			tableModel.viewStateKey = "table";
+			tableModel.header[0].visible = false;
+			tableModel.saveViewState();
+
+			let restoredModel = viewStateModel();
+			restoredModel.viewStateStorage = storage;
+			restoredModel.viewStateKey = "table";
+			restoredModel.restoreViewState();
+
+			expect(restoredModel.header[0].visible).toBe(false);
+
+			let otherModel = viewStateModel();
+			otherModel.viewStateStorage = storage;
+			otherModel.viewStateKey = "other";
+			otherModel.restoreViewState();
+
+			expect(otherModel.header[0].visible).toBe(true);
+		});
+	});
+
+	/* ****************************************************************
+	***********                                             ***********
+	***********                 TREE ROWS                   ***********
+	***********                                             ***********
+	***************************************************************** */
+
+	const treeModel = () => {
+		let tableModel = new TableModel();
+		tableModel.header = [new TextFilterHeaderItem({data: "Name"}), new TableHeaderItem({data: "Size"})];
+		const row = (name, size) => [new TableItem({data: name}), new TableItem({data: size})];
+		tableModel.setTreeData([
+			{row: row("src", 4), expanded: true, children: [
+				{row: row("table", 3), children: [{row: row("table.ts", 2)}, {row: row("model.ts", 1)}]},
+				{row: row("index.ts", 1)}
+			]},
+			{row: row("docs", 1), hasChildren: true}
+		]);
+		return tableModel;
+	};
+
+	it("should flatten tree rows", () => {
+		let tableModel = treeModel();
+
+		expect(tableModel.hasTreeRows()).toBe(true);
+		expect(tableModel.data.map(row => row[0].data)).toEqual(["src", "table", "table.ts", "model.ts", "index.ts", "docs"]);
+		expect(tableModel.rowsLevel).toEqual([0, 1, 2, 2, 1, 0]);
+		expect(tableModel.rowsHasChildren).toEqual([true, true, false, false, false, true]);
+		expect(tableModel.childRowIndexes(-1)).toEqual([0, 5]);
+		expect(tableModel.childRowIndexes(0)).toEqual([1, 4]);
+		expect(tableModel.parentRowIndex(3)).toEqual(1);
+		expect(tableModel.data.map((row, index) => tableModel.isRowHidden(index))).toEqual([false, false, true, true, false, false]);
+	});
+
+	it("should sort and filter tree rows per level", () => {
+		let tableModel = treeModel();
+		tableModel.sort(0);
+
+		expect(tableModel.data.map(row => row[0].data)).toEqual(["docs", "src", "index.ts", "table", "model.ts", "table.ts"]);
+		expect(tableModel.rowsLevel).toEqual([0, 0, 1, 1, 2, 2]);
+		expect(tableModel.data.map((row, index) => tableModel.parentRowIndex(index))).toEqual([-1, -1, 1, 1, 3, 3]);
+
+		tableModel.header[0].filterData.data = "model";
+
+		expect(tableModel.data.map((row, index) => tableModel.isRowFiltered(index))).toEqual([true, false, true, false, false, true]);
+	});
+
+	it("should load child rows when expanded", () => {
+		let tableModel = treeModel();
+		const children = new Subject<any>();
+		tableModel.loadChildRows = row => children;
+		tableModel.expandRow(5);
+
+		expect(tableModel.isLoadingChildRows(5)).toBe(true);
+
+		children.next([{row: [new TableItem({data: "readme.md"}), new TableItem({data: 1})]}]);
+
+		expect(tableModel.isLoadingChildRows(5)).toBe(false);
+		expect(tableModel.data[6][0].data).toEqual("readme.md");
+		expect(tableModel.rowsLevel[6]).toEqual(1);
+		expect(tableModel.isRowHidden(6)).toBe(false);
+
+		tableModel.deleteRow(0);
+
+		expect(tableModel.data.map(row => row[0].data)).toEqual(["docs", "readme.md"]);
+		expect(tableModel.parentRowIndex(1)).toEqual(0);
+	});
 });
@@ -1,10 +1,18 @@
 import {
 	EventEmitter
 } from "@angular/core";
+import { Observable, Subscription } from "rxjs";
 
 import { PaginationModel } from "./../pagination/pagination-model.class";
 import { TableHeaderItem } from "./table-header-item.class";
 import { TableItem } from "./table-item.class";
+import { TableSortKey } from "./table-sort-key.interface";
+import { TableDataSource } from "./table-data-source.interface";
+import { TableRowState } from "./table-row-state.interface";
+import { TableRowGroup } from "./table-row-group.interface";
+import { TableTreeRow } from "./table-tree-row.interface";
+import { TableViewState } from "./table-view-state.interface";
+import { TableViewStateStorage } from "./table-view-state-storage.interface";
 
 export class TableModel implements PaginationModel {
 	/**
@@ -12,6 +20,9 @@ export class TableModel implements PaginationModel {
 	 *
 	 * Make sure all rows are the same length to keep the column count accurate.
 	 *
+	 * Selection, expansion and context of the rows are carried over to the rows
+	 * of the new data that have the same key (see `trackBy`).
+	 *
 	 * @memberof TableModel
 	 */
 	set data(newData: Array<Array<TableItem>>) {
@@ -19,6 +30,8 @@ export class TableModel implements PaginationModel {
 			newData = [[]];
 		}
 
+		const rowStates = this.getRowStates();
+
 		this._data = newData;
 
 		// init rowsSelected
@@ -28,6 +41,17 @@ export class TableModel implements PaginationModel {
 		// init rowsContext
 		this.rowsContext = new Array<string>(this._data.length);
 
+		// plain data has no child rows, `setTreeData()` sets them up
+		this.rowsLevel = new Array<number>(this._data.length).fill(0);
+		this.rowsHasChildren = new Array<boolean>(this._data.length).fill(false);
+		this.treeRows = false;
+
+		this.setRowStates(rowStates);
+		if (this.allPagesSelected) {
+			// rows of a newly loaded page are part of the selection too
+			this.rowsSelected.fill(true);
+		}
+
 		// only create a fresh header if necessary (header doesn't exist or differs in length)
 		if (this.header == null || (this.header.length !== this._data[0].length && this._data[0].length > 0)) {
 			let header = new Array<TableHeaderItem>();
@@ -37,12 +61,18 @@ export class TableModel implements PaginationModel {
 			this.header = header;
 		}
 
+		this.updateRowsParent();
+		this.updateGroups();
 		this.dataChange.emit();
 	}
 
 	dataChange = new EventEmitter();
 	rowsSelectedChange = new EventEmitter();
 	rowsExpandedChange = new EventEmitter();
+	/**
+	 * Emits the error when `dataSource` fails to load a page, see `loadingError`.
+	 */
+	dataError = new EventEmitter<any>();
 
 	/**
 	 * Gets the full data.
@@ -86,6 +116,80 @@ export class TableModel implements PaginationModel {
 	 */
 	rowsContext: Array<string>;
 
+	/**
+	 * Contains the nesting level of the rows of a tree table, 0 for top level rows.
+	 *
+	 * Child rows come right after their parent row in `data`. See `setTreeData()`.
+	 *
+	 * @type {Array<number>}
+	 * @memberof TableModel
+	 */
+	rowsLevel: Array<number>;
+
+	/**
+	 * Contains information about which rows of a tree table have child rows,
+	 * including the rows whose children aren't loaded yet.
+	 *
+	 * @type {Array<boolean>}
+	 * @memberof TableModel
+	 */
+	rowsHasChildren: Array<boolean>;
+
+	/**
+	 * Loads the child rows of the `index`th row the first time it's expanded, for rows
+	 * set up with `hasChildren` in `setTreeData()`.
+	 *
+	 * ```typescript
+	 * this.model.loadChildRows = row => this.http.get<Array<Folder>>(`/api/folders/${row[0].data}`)
+	 * 	.pipe(map(folders => folders.map(folder => ({row: toRow(folder), hasChildren: folder.hasSubfolders}))));
+	 * ```
+	 *
+	 * @type {(row: Array<TableItem>, index: number) => Observable<Array<TableTreeRow>>}
+	 * @memberof TableModel
+	 */
+	loadChildRows: (row: Array<TableItem>, index: number) => Observable<Array<TableTreeRow>>;
+
+	/**
+	 * Returns the key that identifies the row.
+	 *
+	 * Rows of new `data` with the same key as rows of the previous data get their
+	 * selection, expansion and context, and `ibm-table` reuses their DOM elements.
+	 *
+	 * If not set, the row itself is the key, so the state only survives if the same row
+	 * arrays are reused. Set it to read a unique id from the row to keep the state when
+	 * the data gets replaced with a fresh copy, for example when it's re-fetched from the server.
+	 *
+	 * ```typescript
+	 * this.model.trackBy = row => row[0].data.id;
+	 * ```
+	 *
+	 * @type {(row: Array<TableItem>) => any}
+	 * @memberof TableModel
+	 */
+	trackBy: (row: Array<TableItem>) => any;
+
+	/**
+	 * Groups of rows with the same values in the columns set with `groupBy()`.
+	 *
+	 * Empty if the rows aren't grouped. Kept up to date by the model, don't change it directly.
+	 *
+	 * @type {Array<TableRowGroup>}
+	 * @memberof TableModel
+	 */
+	groups: Array<TableRowGroup> = [];
+
+	/**
+	 * Returns the aggregate value shown in the group header rows, next to the row count.
+	 *
+	 * ```typescript
+	 * this.model.groupAggregate = rows => `Total: ${rows.reduce((sum, row) => sum + row[2].data, 0)}`;
+	 * ```
+	 *
+	 * @type {(rows: Array<Array<TableItem>>, group: TableRowGroup) => any}
+	 * @memberof TableModel
+	 */
+	groupAggregate: (rows: Array<Array<TableItem>>, group: TableRowGroup) => any;
+
 	/**
 	 * Contains information about the header cells of the table.
 	 *
@@ -110,6 +214,33 @@ export class TableModel implements PaginationModel {
 	 */
 	pageLength: number;
 
+	/**
+	 * `false` on the last page when the total number of rows isn't known, set by `loadPage()`
+	 * from the `dataSource` response.
+	 *
+	 * @type {boolean}
+	 * @memberof TableModel
+	 */
+	hasNextPage: boolean;
+
+	/**
+	 * Cursor of the page after the current one, set by `loadPage()` for data sources
+	 * that paginate with cursors.
+	 *
+	 * @type {string}
+	 * @memberof TableModel
+	 */
+	nextPageToken: string;
+
+	/**
+	 * Cursor of the page before the current one, set by `loadPage()` for data sources
+	 * that paginate with cursors.
+	 *
+	 * @type {string}
+	 * @memberof TableModel
+	 */
+	previousPageToken: string;
+
 	/**
 	 * Set to true when there is no more data to load in the table
 	 *
@@ -126,6 +257,73 @@ export class TableModel implements PaginationModel {
 	 */
 	isLoading = false;
 
+	/**
+	 * Error of the last page `dataSource` failed to load, `null` while a page is loading or once it's loaded.
+	 *
+	 * @type {*}
+	 * @memberof TableModel
+	 */
+	loadingError: any = null;
+
+	/**
+	 * Source the model loads its data from.
+	 *
+	 * When set, sorting, filtering and paging are delegated to it. `sort()` and `loadPage()`
+	 * request new data from the source and replace `data` with the response, and
+	 * rows are no longer filtered by the model.
+	 *
+	 * ```typescript
+	 * this.model.dataSource = new InMemoryTableDataSource(data);
+	 * this.model.pageLength = 10;
+	 * this.model.loadPage(1);
+	 * ```
+	 *
+	 * See `TableDataSource`, `InMemoryTableDataSource` and `RemoteTableDataSource`.
+	 *
+	 * @type {TableDataSource}
+	 * @memberof TableModel
+	 */
+	dataSource: TableDataSource;
+
+	/**
+	 * Storage used by `saveViewState()` and `restoreViewState()`.
+	 *
+	 * See `TableViewStateStorage`, `LocalStorageTableViewStateStorage` and `InMemoryTableViewStateStorage`.
+	 *
+	 * @type {TableViewStateStorage}
+	 * @memberof TableModel
+	 */
+	viewStateStorage: TableViewStateStorage;
+
+	/**
+	 * Key the view state of this table is stored under in `viewStateStorage`.
+	 * Give every table its own key.
+	 *
+	 * @type {string}
+	 * @memberof TableModel
+	 */
+	viewStateKey: string;
+
+	/**
+	 * `true` when the rows on all the pages are selected with `selectAllPages()`, including
+	 * the ones that aren't loaded from `dataSource` yet.
+	 *
+	 * Check it before acting on `selectedRows()`, which only knows about the loaded rows,
+	 * and send the filters instead of the rows to the backend.
+	 *
+	 * Deselecting any row clears it.
+	 *
+	 * @memberof TableModel
+	 */
+	allPagesSelected = false;
+
+	/**
+	 * Text searched for in all the visible columns, set with `search()`.
+	 *
+	 * @memberof TableModel
+	 */
+	searchText = "";
+
 	/**
 	 * Absolute total number of rows of the table.
 	 *
@@ -178,6 +376,154 @@ export class TableModel implements PaginationModel {
 	 */
 	protected _data: Array<Array<TableItem>> = [[]];
 
+	/**
+	 * Headers of the columns the data is sorted by, primary sort key first.
+	 *
+	 * Keeps references to `TableHeaderItem`s rather than indexes so the sort
+	 * survives moving the columns around.
+	 *
+	 * @protected
+	 * @type {Array<TableHeaderItem>}
+	 * @memberof TableModel
+	 */
+	protected sortedHeaders: Array<TableHeaderItem> = [];
+
+	/**
+	 * Headers of the columns the rows are grouped by, outermost group first.
+	 *
+	 * @protected
+	 * @type {Array<TableHeaderItem>}
+	 * @memberof TableModel
+	 */
+	protected groupedHeaders: Array<TableHeaderItem> = [];
+
+	/**
+	 * `true` if the data was set up with `setTreeData()`.
+	 *
+	 * @protected
+	 * @memberof TableModel
+	 */
+	protected treeRows = false;
+
+	/**
+	 * Index of the parent row of every row, -1 for top level rows. Kept up to date with `rowsLevel`
+	 * by `updateRowsParent()`, so `isRowHidden()` doesn't have to look for the parents on every check.
+	 *
+	 * @protected
+	 * @type {Array<number>}
+	 * @memberof TableModel
+	 */
+	protected rowsParent: Array<number> = [];
+
+	/**
+	 * Results of `aggregates()` by the rows they were computed for, `data` standing for all the rows.
+	 *
+	 * @protected
+	 * @type {WeakMap<Array<any>, Array<any>>}
+	 * @memberof TableModel
+	 */
+	protected aggregatesCache = new WeakMap<Array<any>, Array<any>>();
+
+	/**
+	 * The search and the filters of the columns `aggregatesCache` was filled with.
+	 *
+	 * @protected
+	 * @type {string}
+	 * @memberof TableModel
+	 */
+	protected aggregatesFilterKey: string = null;
+
+	/**
+	 * Rows whose child rows are being loaded with `loadChildRows`.
+	 *
+	 * @protected
+	 * @type {Array<Array<TableItem>>}
+	 * @memberof TableModel
+	 */
+	protected loadingRows: Array<Array<TableItem>> = [];
+
+	/**
+	 * Subscription to the latest `dataSource` request.
+	 *
+	 * @protected
+	 * @type {Subscription}
+	 * @memberof TableModel
+	 */
+	protected dataSourceSubscription: Subscription;
+
+	/**
+	 * Cursor the current page was loaded with, to reload it.
+	 *
+	 * @protected
+	 * @type {string}
+	 * @memberof TableModel
+	 */
+	protected currentPageToken: string;
+
+	/**
+	 * Ordered list of the columns the data is currently sorted by, primary sort key first.
+	 *
+	 * The list is a snapshot, changing it doesn't affect the model. Use `sortBy()` to apply
+	 * a stored list of sort keys.
+	 *
+	 * @readonly
+	 * @type {Array<TableSortKey>}
+	 * @memberof TableModel
+	 */
+	get sortKeys(): Array<TableSortKey> {
+		return this.sortedHeaders
+			.filter(column => this.header.indexOf(column) >= 0)
+			.map(column => ({
+				column: this.header.indexOf(column),
+				ascending: column.ascending
+			}));
+	}
+
+	/**
+	 * Indexes of the columns the rows are grouped by, outermost group first.
+	 *
+	 * @readonly
+	 * @type {Array<number>}
+	 * @memberof TableModel
+	 */
+	get groupKeys(): Array<number> {
+		return this.groupedHeaders
+			.filter(column => this.header.indexOf(column) >= 0)
+			.map(column => this.header.indexOf(column));
+	}
+
+	/**
+	 * Returns the rows that are currently selected
+	 *
+	 * @returns {Array<Array<TableItem>>}
+	 * @memberof TableModel
+	 */
+	selectedRows(): Array<Array<TableItem>> {
+		return this.selectedRowIndexes().map(index => this.data[index]);
+	}
+
+	/**
+	 * Returns the `data` of the items of the rows that are currently selected
+	 *
+	 * @returns {Array<Array<any>>}
+	 * @memberof TableModel
+	 */
+	selectedRowsData(): Array<Array<any>> {
+		return this.selectedRows().map(row => row.map(item => item.data));
+	}
+
+	/**
+	 * Returns the indexes of the rows that are currently selected
+	 *
+	 * @returns {Array<number>}
+	 * @memberof TableModel
+	 */
+	selectedRowIndexes(): Array<number> {
+		return this.data
+			.map((row, index) => index)
+			.filter(index => this.rowsSelected[index] && this.data[index].length > 0);
+	}
+
 	/**
 	 * Returns how many rows is currently selected
 	 *
@@ -296,6 +642,9 @@ export class TableModel implements PaginationModel {
 
 			// update rowsContext property for length
 			this.rowsContext.push(undefined);
+
+			this.rowsLevel.push(0);
+			this.rowsHasChildren.push(false);
 		} else {
 			const ri = this.realRowIndex(index);
 			this.data.splice(ri, 0, realRow);
@@ -308,13 +657,18 @@ export class TableModel implements PaginationModel {
 
 			// update rowsContext property for length
 			this.rowsContext.splice(ri, 0, undefined);
+
+			this.rowsLevel.splice(ri, 0, 0);
+			this.rowsHasChildren.splice(ri, 0, false);
 		}
 
+		this.updateRowsParent();
+		this.updateGroups();
 		this.dataChange.emit();
 	}
 
 	/**
-	 * Deletes `index`th row.
+	 * Deletes `index`th row, along with its child rows.
 	 *
 	 * Negative index starts from the end. -1 being the last element.
 	 *
@@ -323,22 +677,159 @@ export class TableModel implements PaginationModel {
 	 */
 	deleteRow(index: number) {
 		const rri = this.realRowIndex(index);
-		this.data.splice(rri, 1);
-		this.rowsSelected.splice(rri, 1);
-		this.rowsExpanded.splice(rri, 1);
-		this.rowsContext.splice(rri, 1);
-
+		const count = 1 + this.descendantRowIndexes(rri).length;
+		this.data.splice(rri, count);
+		this.rowsSelected.splice(rri, count);
+		this.rowsExpanded.splice(rri, count);
+		this.rowsContext.splice(rri, count);
+		this.rowsLevel.splice(rri, count);
+		this.rowsHasChildren.splice(rri, count);
+
+		this.updateRowsParent();
+		this.updateGroups();
 		this.dataChange.emit();
 	}
 
+	/**
+	 * Returns the key of the `index`th row, as returned by `trackBy`.
+	 *
+	 * Negative index starts from the end. -1 being the last element.
+	 *
+	 * @param {number} index
+	 * @returns {any}
+	 * @memberof TableModel
+	 */
+	rowKey(index: number): any {
+		return this.keyOf(this.row(index));
+	}
+
+	/**
+	 * Checks if any of the rows can be expanded. Rows are expandable if they have
+	 * `expandedData` or if they're grouped.
+	 *
+	 * @returns {boolean}
+	 * @memberof TableModel
+	 */
 	hasExpandableRows() {
-		return this.data.some(data => data.some(d => d.expandedData)); // checking for some in 2D array
+		return this.groups.length > 0 || this.data.some(data => data.some(d => d.expandedData)); // checking for some in 2D array
 	}
 
 	isRowExpandable(index: number) {
 		return this.data[index].some(d => d.expandedData);
 	}
 
+	/**
+	 * Sets up the data of a tree table, where rows have child rows with the same columns.
+	 *
+	 * Rows are flattened into `data`, every row followed by its children, and `rowsLevel`
+	 * tells how deep they're nested. Child rows are shown when their parent row is expanded
+	 * with `expandRow()`. Sorting sorts the child rows of every row separately, and filters
+	 * keep the parent rows of the matching rows in the table.
+	 *
+	 * ```typescript
+	 * this.model.setTreeData([
+	 * 	{row: [new TableItem({data: "src"})], children: [{row: [new TableItem({data: "index.ts"})]}]},
+	 * 	{row: [new TableItem({data: "node_modules"})], hasChildren: true}
+	 * ]);
+	 * ```
+	 *
+	 * Children of the rows with `hasChildren` are loaded with `loadChildRows`.
+	 *
+	 * @param {Array<TableTreeRow>} rows top level rows
+	 * @memberof TableModel
+	 */
+	setTreeData(rows: Array<TableTreeRow>) {
+		const flat = this.flattenTreeRows(rows, 0);
+		this.data = flat.map(treeRow => treeRow.row);
+		flat.forEach((treeRow, i) => {
+			this.rowsLevel[i] = treeRow.level;
+			this.rowsHasChildren[i] = treeRow.hasChildren;
+			this.rowsExpanded[i] = treeRow.expanded;
+		});
+		this.treeRows = true;
+		this.applyTreeChange();
+	}
+
+	/**
+	 * Adds child rows to the `index`th row, after the child rows it already has.
+	 *
+	 * @param {number} index
+	 * @param {Array<TableTreeRow>} rows
+	 * @memberof TableModel
+	 */
+	addChildRows(index: number, rows: Array<TableTreeRow>) {
+		const parent = this.realRowIndex(index);
+		const descendants = this.descendantRowIndexes(parent);
+		const position = descendants.length ? descendants[descendants.length - 1] + 1 : parent + 1;
+		const flat = this.flattenTreeRows(rows, this.rowsLevel[parent] + 1);
+
+		this.data.splice(position, 0, ...flat.map(treeRow => treeRow.row));
+		this.rowsSelected.splice(position, 0, ...flat.map(() => false));
+		this.rowsExpanded.splice(position, 0, ...flat.map(treeRow => treeRow.expanded));
+		this.rowsContext.splice(position, 0, ...flat.map(() => undefined));
+		this.rowsLevel.splice(position, 0, ...flat.map(treeRow => treeRow.level));
+		this.rowsHasChildren.splice(position, 0, ...flat.map(treeRow => treeRow.hasChildren));
+		this.rowsHasChildren[parent] = true;
+		this.treeRows = true;
+		this.applyTreeChange();
+	}
+
+	/**
+	 * Checks if the data is a tree, set up with `setTreeData()` or `addChildRows()`.
+	 *
+	 * @returns {boolean}
+	 * @memberof TableModel
+	 */
+	hasTreeRows(): boolean {
+		return this.treeRows;
+	}
+
+	/**
+	 * Returns the indexes of the child rows of the `index`th row, or of the top level rows for -1.
+	 *
+	 * @param {number} index
+	 * @returns {Array<number>}
+	 * @memberof TableModel
+	 */
+	childRowIndexes(index: number): Array<number> {
+		const level = index < 0 ? -1 : this.rowsLevel[index];
+		const children = [];
+		let childLevel = Infinity;
+		for (let i = index + 1; i < this.data.length && this.rowsLevel[i] > level; i++) {
+			// rows nested deeper than the last child are its descendants
+			if (this.rowsLevel[i] <= childLevel) {
+				children.push(i);
+				childLevel = this.rowsLevel[i];
+			}
+		}
+		return children;
+	}
+
+	/**
+	 * Returns the index of the parent row of the `index`th row, -1 for top level rows.
+	 *
+	 * @param {number} index
+	 * @returns {number}
+	 * @memberof TableModel
+	 */
+	parentRowIndex(index: number): number {
+		if (!this.treeRows || !this.rowsLevel[index] || this.rowsParent[index] === undefined) {
+			return -1;
+		}
+		return this.rowsParent[index];
+	}
+
+	/**
+	 * Checks if the child rows of the `index`th row are being loaded with `loadChildRows`.
+	 *
+	 * @param {number} index
+	 * @returns {boolean}
+	 * @memberof TableModel
+	 */
+	isLoadingChildRows(index: number): boolean {
+		return this.loadingRows.indexOf(this.data[index]) >= 0;
+	}
+
 	/**
 	 * Returns `index`th column of the table.
 	 *
@@ -428,6 +919,7 @@ export class TableModel implements PaginationModel {
 			}
 		}
 
+		this.updateGroups();
 		this.dataChange.emit();
 	}
 
@@ -450,6 +942,7 @@ export class TableModel implements PaginationModel {
 			this.header.splice(rci, 1);
 		}
 
+		this.updateGroups();
 		this.dataChange.emit();
 	}
 
@@ -460,6 +953,7 @@ export class TableModel implements PaginationModel {
 		this.deleteColumn(indexFrom + (indexTo < indexFrom ? 1 : 0));
 
 		this.header[indexTo + (indexTo > indexFrom ? -1 : 0)] = headerFrom;
+		this.updateGroups();
 	}
 
 	/**
@@ -468,19 +962,337 @@ export class TableModel implements PaginationModel {
 	 * Direction is set by `ascending` and `descending` properties of `TableHeaderItem`
 	 * in `index`th column.
 	 *
+	 * By default `index`th column becomes the only sort key. Set `additive` to `true`
+	 * to add the column as the next (secondary, tertiary, ...) sort key instead, or to
+	 * re-apply the sort if the column is already one of the sort keys.
+	 *
+	 * Sorting is stable, rows that compare equal on every sort key keep their order.
+	 *
+	 * If `dataSource` is set, first page of the sorted data is loaded from it instead.
+	 *
 	 * @param {number} index The column based on which it's sorting
+	 * @param {boolean} [additive=false] Keep the current sort keys and add the column to them
 	 * @memberof TableModel
 	 */
-	sort(index: number) {
-		this.pushRowStateToModelData();
-		this.data.sort((a, b) => (this.header[index].descending ? -1 : 1) * this.header[index].compare(a[index], b[index]));
-		this.popRowStateFromModelData();
-		this.header.forEach(column => column.sorted = false);
-		this.header[index].sorted = true;
+	sort(index: number, additive = false) {
+		const column = this.header[index];
+		if (!additive) {
+			this.sortedHeaders = [column];
+		} else if (this.sortedHeaders.indexOf(column) < 0) {
+			this.sortedHeaders.push(column);
+		}
+		this.applySort();
 	}
 
 	/**
-	 * Appends `rowsSelected` and `rowsExpanded` info to model data.
+	 * Sorts the data by the list of sort keys, primary sort key first.
+	 *
+	 * Sets the direction of every sorted column to the one in its sort key, which makes
+	 * it the counterpart of `sortKeys` for restoring persisted sorting.
+	 *
+	 * Pass an empty array to clear the sort. Keys for columns that don't exist are ignored.
+	 *
+	 * @param {Array<TableSortKey>} keys
+	 * @memberof TableModel
+	 */
+	sortBy(keys: Array<TableSortKey>) {
+		this.sortedHeaders = keys
+			.filter(key => !!this.header[key.column])
+			.map(key => {
+				const column = this.header[key.column];
+				column.ascending = key.ascending;
+				return column;
+			});
+		this.applySort();
+	}
+
+	/**
+	 * Groups the rows by the values of the columns, outermost group first.
+	 *
+	 * Rows are in the same group when `compare()` of the column finds their items equal.
+	 * The data is sorted by the grouped columns first, and by the sort keys within the groups.
+	 *
+	 * Pass an empty array to ungroup the rows.
+	 *
+	 * @param {Array<number>} columns
+	 * @memberof TableModel
+	 */
+	groupBy(columns: Array<number>) {
+		this.groupedHeaders = columns
+			.filter(index => !!this.header[index])
+			.map(index => this.header[index]);
+		this.applySort();
+		this.updateGroups();
+		this.dataChange.emit();
+	}
+
+	/**
+	 * Checks if any of the columns has an `aggregate`, in which case the table shows a summary row.
+	 *
+	 * @returns {boolean}
+	 * @memberof TableModel
+	 */
+	hasAggregates(): boolean {
+		return this.header.some(column => !!column.aggregate);
+	}
+
+	/**
+	 * Returns the aggregate of every column over the rows that aren't filtered out,
+	 * `undefined` for columns without an `aggregate`.
+	 *
+	 * Pass the row indexes to aggregate only some of the rows, for example `group.rows`
+	 * for the aggregates of a group.
+	 *
+	 * The results are cached until the data, the search or the filters change. Call `invalidateAggregates()`
+	 * if you change the data of the items yourself.
+	 *
+	 * @param {Array<number>} [rows] indexes of the rows, all the rows by default
+	 * @returns {Array<any>}
+	 * @memberof TableModel
+	 */
+	aggregates(rows?: Array<number>): Array<any> {
+		const filterKey = JSON.stringify([this.searchText, this.header.map(column => column.getFilterState())]);
+		if (filterKey !== this.aggregatesFilterKey) {
+			this.invalidateAggregates();
+			this.aggregatesFilterKey = filterKey;
+		}
+
+		const key = rows || this.data;
+		if (!this.aggregatesCache.has(key)) {
+			const shown = (rows || this.data.map((row, index) => index))
+				.filter(index => this.data[index] && this.data[index].length > 0 && !this.isRowFiltered(index));
+			this.aggregatesCache.set(key, this.header.map((column, columnIndex) =>
+				column.aggregate ? column.aggregateValue(shown.map(index => this.data[index][columnIndex])) : undefined));
+		}
+		return this.aggregatesCache.get(key);
+	}
+
+	/**
+	 * Drops the cached results of `aggregates()`.
+	 *
+	 * The model calls it whenever the data changes. Call it if you change the data of the items yourself.
+	 *
+	 * @memberof TableModel
+	 */
+	invalidateAggregates() {
+		this.aggregatesCache = new WeakMap<Array<any>, Array<any>>();
+	}
+
+	/**
+	 * Expands/Collapses the group based on value
+	 *
+	 * @param {TableRowGroup} group
+	 * @param {boolean} [value=true]
+	 * @memberof TableModel
+	 */
+	expandGroup(group: TableRowGroup, value = true) {
+		group.expanded = value;
+	}
+
+	/**
+	 * Selects/deselects all the rows of the group that aren't filtered out
+	 *
+	 * @param {TableRowGroup} group
+	 * @param {boolean} [value=true]
+	 * @memberof TableModel
+	 */
+	selectGroup(group: TableRowGroup, value = true) {
+		group.rows
+			.filter(index => !this.isRowFiltered(index))
+			.forEach(index => this.selectRow(index, value));
+	}
+
+	/**
+	 * Checks if all the rows of the group that aren't filtered out are selected
+	 *
+	 * @param {TableRowGroup} group
+	 * @returns {boolean}
+	 * @memberof TableModel
+	 */
+	isGroupSelected(group: TableRowGroup): boolean {
+		const rows = group.rows.filter(index => !this.isRowFiltered(index));
+		return rows.length > 0 && rows.every(index => this.rowsSelected[index]);
+	}
+
+	/**
+	 * Returns the priority of the `index`th column in the current sort.
+	 *
+	 * @param {number} index
+	 * @returns {number} 1 for the primary sort key, 2 for the secondary and so on, 0 if the column isn't sorted
+	 * @memberof TableModel
+	 */
+	sortPriority(index: number): number {
+		return this.sortedHeaders.indexOf(this.header[index]) + 1;
+	}
+
+	/**
+	 * Loads the `page`th page from `dataSource`, using current sorting and filters.
+	 *
+	 * `isLoading` is `true` until the data arrives. Once it does, it replaces `data`, and
+	 * `totalDataLength` and `currentPage` get updated. Responses to previous requests
+	 * that didn't arrive yet are discarded.
+	 *
+	 * If the request fails, `data` stays as it is, the error is set to `loadingError` and `dataError` emits it.
+	 *
+	 * Data sources that paginate with cursors get `nextPageToken` or `previousPageToken` with the request
+	 * for the next or the previous page. They can only move to those, the first page, or reload the current one.
+	 *
+	 * Does nothing if `dataSource` isn't set.
+	 *
+	 * @param {number} [page=this.currentPage] Page to load, starting with 1
+	 * @memberof TableModel
+	 */
+	loadPage(page = this.currentPage) {
+		if (!this.dataSource) {
+			return;
+		}
+
+		if (this.dataSourceSubscription) {
+			// we only care about the latest request
+			this.dataSourceSubscription.unsubscribe();
+		}
+
+		// page selects in `ibm-pagination` give us strings
+		page = Number(page) || 1;
+		const header = this.header || [];
+		const pageToken = this.pageTokenFor(page);
+		this.isLoading = true;
+		this.loadingError = null;
+		this.dataSourceSubscription = this.dataSource.getData({
+			page,
+			pageLength: Number(this.pageLength) || 0,
+			pageToken,
+			sortKeys: this.sortingHeaders()
+				.filter(column => header.indexOf(column) >= 0)
+				.map(column => ({column: header.indexOf(column), ascending: column.ascending})),
+			filters: header.map(column => column.filterData ? column.filterData.data : undefined),
+			search: this.searchText,
+			header
+		}).subscribe(response => {
+			this.data = response.data;
+			this.totalDataLength = response.totalDataLength;
+			this.hasNextPage = response.hasNextPage;
+			this.nextPageToken = response.nextPageToken;
+			this.previousPageToken = response.previousPageToken;
+			this.currentPageToken = pageToken;
+			this.currentPage = page;
+			this.isLoading = false;
+		}, error => {
+			this.isLoading = false;
+			this.loadingError = error;
+			this.dataError.emit(error);
+		});
+	}
+
+	/**
+	 * Returns a snapshot of the order, widths and visibility of the columns, and of the sorting,
+	 * grouping and filters, to restore later with `setViewState()`.
+	 *
+	 * @returns {TableViewState}
+	 * @memberof TableModel
+	 */
+	getViewState(): TableViewState {
+		const state: TableViewState = {
+			columns: this.header.map((column, index) => ({
+				id: this.columnId(index),
+				visible: column.visible,
+				width: column.style ? column.style.width : undefined,
+				filter: column.getFilterState()
+			})),
+			sort: this.sortedHeaders.map(column => ({
+				column: this.columnId(this.header.indexOf(column)),
+				ascending: column.ascending
+			})),
+			groups: this.groupedHeaders.map(column => this.columnId(this.header.indexOf(column)))
+		};
+		// detach the snapshot from the header items
+		return JSON.parse(JSON.stringify(state));
+	}
+
+	/**
+	 * Restores a snapshot made with `getViewState()`.
+	 *
+	 * Columns are matched by their id, see `TableHeaderItem.id`. Columns missing from the
+	 * snapshot keep their state and go after the ones in it, and unknown columns are ignored,
+	 * so snapshots of older versions of the table can still be restored.
+	 *
+	 * @param {TableViewState} state
+	 * @memberof TableModel
+	 */
+	setViewState(state: TableViewState) {
+		if (!state) {
+			return;
+		}
+
+		const ids = this.header.map((column, index) => this.columnId(index));
+		const known = (state.columns || []).filter(column => ids.indexOf(column.id) >= 0);
+		const order = known
+			.map(column => ids.indexOf(column.id))
+			.concat(ids.map((id, index) => index).filter(index => !known.some(column => column.id === ids[index])));
+		const header = this.header.slice();
+		this.header = order.map(index => header[index]);
+		this.data.forEach(row => {
+			if (row.length === header.length) {
+				const items = row.slice();
+				order.forEach((index, position) => row[position] = items[index]);
+			}
+		});
+
+		known.forEach(columnState => {
+			const column = this.header[order.indexOf(ids.indexOf(columnState.id))];
+			column.visible = columnState.visible;
+			if (columnState.width) {
+				column.style = Object.assign({}, column.style, {width: columnState.width});
+			}
+			column.setFilterState(columnState.filter);
+		});
+
+		const indexOf = (id: string) => order.indexOf(ids.indexOf(id));
+		this.groupedHeaders = (state.groups || [])
+			.filter(id => indexOf(id) >= 0)
+			.map(id => this.header[indexOf(id)]);
+		this.sortBy((state.sort || [])
+			.filter(key => indexOf(key.column) >= 0)
+			.map(key => ({column: indexOf(key.column), ascending: key.ascending})));
+		this.updateGroups();
+		this.dataChange.emit();
+	}
+
+	/**
+	 * Stores `getViewState()` in `viewStateStorage` under `viewStateKey`.
+	 *
+	 * `ibm-table` calls it after the user sorts, filters, resizes or moves the columns.
+	 * Call it after changing the view from code, for example after hiding a column.
+	 *
+	 * Does nothing if `viewStateStorage` or `viewStateKey` isn't set.
+	 *
+	 * @memberof TableModel
+	 */
+	saveViewState() {
+		if (!this.viewStateStorage || !this.viewStateKey) {
+			return;
+		}
+		this.viewStateStorage.save(this.viewStateKey, this.getViewState()).subscribe();
+	}
+
+	/**
+	 * Restores the view state stored in `viewStateStorage` under `viewStateKey`, if there is one.
+	 *
+	 * Set the header first, the stored state is applied to it.
+	 *
+	 * Does nothing if `viewStateStorage` or `viewStateKey` isn't set.
+	 *
+	 * @memberof TableModel
+	 */
+	restoreViewState() {
+		if (!this.viewStateStorage || !this.viewStateKey) {
+			return;
+		}
+		this.viewStateStorage.load(this.viewStateKey).subscribe(state => this.setViewState(state));
+	}
+
+	/**
+	 * Appends `rowsSelected` and `rowsExpanded` info to model data.
 	 *
 	 * When sorting rows, do this first so information about row selection
 	 * gets sorted with the other row info.
@@ -488,6 +1300,8 @@ export class TableModel implements PaginationModel {
 	 * Call `popRowSelectionFromModelData()` after sorting to make everything
 	 * right with the world again.
 	 *
+	 * @deprecated `sort()` keeps the row state in place by itself, and `data` keeps
+	 * it for rows with the same key (see `trackBy`)
 	 * @memberof TableModel
 	 */
 	pushRowStateToModelData() {
@@ -512,6 +1326,8 @@ export class TableModel implements PaginationModel {
 	 * Call after sorting data (if you previously pushed to maintain selection order)
 	 * to make everything right with the world again.
 	 *
+	 * @deprecated `sort()` keeps the row state in place by itself, and `data` keeps
+	 * it for rows with the same key (see `trackBy`)
 	 * @memberof TableModel
 	 */
 	popRowStateFromModelData() {
@@ -525,13 +1341,230 @@ export class TableModel implements PaginationModel {
 	/**
 	 * Checks if row is filtered out.
 	 *
+	 * Rows are never filtered out if `dataSource` is set, since it filters the data itself.
+	 *
 	 * @param {number} index
 	 * @returns {boolean} true if any of the filters in header filters out the `index`th row
 	 * @memberof TableModel
 	 */
 	isRowFiltered(index: number) {
+		if (this.dataSource) {
+			return false;
+		}
 		const ind = this.realRowIndex(index);
-		return this.header.some((item, i) => item.filter(this.row(ind)[i]));
+		// parent rows stay in the table if any of their descendants match
+		return !this.rowMatchesFilters(ind) &&
+			!(this.treeRows && this.descendantRowIndexes(ind).some(descendant => this.rowMatchesFilters(descendant)));
+	}
+
+	/**
+	 * Checks if the row isn't shown in the table, because it's filtered out or
+	 * one of its parent rows is collapsed.
+	 *
+	 * @param {number} index
+	 * @returns {boolean}
+	 * @memberof TableModel
+	 */
+	isRowHidden(index: number): boolean {
+		if (this.isRowFiltered(index)) {
+			return true;
+		}
+		for (let parent = this.parentRowIndex(index); parent >= 0; parent = this.parentRowIndex(parent)) {
+			if (!this.rowsExpanded[parent]) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Shows only the rows that contain `text` in any of the visible columns, along with
+	 * the column filters. See `TableHeaderItem.matchesSearch()`.
+	 *
+	 * Pass an empty string to show all the rows again. Loads the first page from `dataSource` if it's set.
+	 *
+	 * @param {string} text
+	 * @memberof TableModel
+	 */
+	search(text: string) {
+		this.searchText = text || "";
+		if (this.dataSource) {
+			this.loadPage(1);
+		} else {
+			// let the views know different rows are visible now
+			this.dataChange.emit();
+		}
+	}
+
+	/**
+	 * Clears the filters of all the columns, see `TableHeaderItem.clearFilter()`.
+	 *
+	 * Loads the first page from `dataSource` if it's set.
+	 *
+	 * @memberof TableModel
+	 */
+	clearFilters() {
+		this.header.forEach(column => column.clearFilter());
+		if (this.dataSource) {
+			this.loadPage(1);
+		} else {
+			// let the views know different rows are visible now
+			this.dataChange.emit();
+		}
+	}
+
+	/**
+	 * Exports the rows shown in the table as CSV, with the column titles in the first line.
+	 *
+	 * Only the rows that aren't filtered out and the visible columns are exported, in the
+	 * order they're shown. Header `data` is used for the titles and `exportValue()` of
+	 * the columns for the values. If `dataSource` is set, that's the current page.
+	 *
+	 * Values containing the separator, quotes or line breaks are quoted.
+	 *
+	 * @param {string} [separator=","]
+	 * @returns {string}
+	 * @memberof TableModel
+	 */
+	exportCSV(separator = ","): string {
+		const quote = (value: any) => {
+			const text = value == null ? "" : String(value);
+			if (text.indexOf(separator) >= 0 || /["\r\n]/.test(text)) {
+				return `"${text.replace(/"/g, "\"\"")}"`;
+			}
+			return text;
+		};
+		const { titles, rows } = this.exportRows();
+		return [titles].concat(rows)
+			.map(row => row.map(quote).join(separator))
+			.join("\r\n");
+	}
+
+	/**
+	 * Exports the rows shown in the table as TSV, see `exportCSV()`.
+	 *
+	 * @returns {string}
+	 * @memberof TableModel
+	 */
+	exportTSV(): string {
+		return this.exportCSV("\t");
+	}
+
+	/**
+	 * Exports the rows shown in the table as a JSON array of objects, one per row, with
+	 * column titles as keys. See `exportCSV()` for the rows and columns that are exported.
+	 *
+	 * Values come from `exportJSONValue()` of the columns. Columns with the same title get
+	 * numbered keys, for example `"Name"` and `"Name (2)"`.
+	 *
+	 * @returns {string}
+	 * @memberof TableModel
+	 */
+	exportJSON(): string {
+		const { titles, rows } = this.exportRows((column, item) => column.exportJSONValue(item));
+		const keys = [];
+		titles.forEach(title => {
+			let key = title;
+			for (let n = 2; keys.indexOf(key) >= 0; n++) {
+				key = `${title} (${n})`;
+			}
+			keys.push(key);
+		});
+		return JSON.stringify(rows.map(row => {
+			const rowObject = {};
+			keys.forEach((key, i) => rowObject[key] = row[i]);
+			return rowObject;
+		}));
+	}
+
+	/**
+	 * Exports the cells of `rows` and `columns` for the clipboard, as TSV text and as an HTML table.
+	 *
+	 * Rows that aren't shown (see `isRowHidden()`) and hidden columns are left out, the rest are
+	 * exported in the order they're in the model, with `exportValue()` of the columns.
+	 *
+	 * @param {Array<number>} rows indexes of the rows
+	 * @param {Array<number>} columns indexes of the columns
+	 * @returns {{text: string, html: string}}
+	 * @memberof TableModel
+	 */
+	exportCells(rows: Array<number>, columns: Array<number>): {text: string, html: string} {
+		const shownColumns = columns
+			.filter(index => this.header[index] && this.header[index].visible)
+			.sort((a, b) => a - b);
+		const values = rows
+			.filter(index => this.data[index] && this.data[index].length > 0 && !this.isRowHidden(index))
+			.sort((a, b) => a - b)
+			.map(index => shownColumns.map(column => {
+				const value = this.header[column].exportValue(this.data[index][column]);
+				return value == null ? "" : String(value);
+			}));
+
+		const quote = (text: string) => /[\t"\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+		const escape = (text: string) => text
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;");
+		return {
+			text: values.map(row => row.map(quote).join("\t")).join("\r\n"),
+			html: `<table>${values.map(row => `<tr>${row.map(value => `<td>${escape(value)}</td>`).join("")}</tr>`).join("")}</table>`
+		};
+	}
+
+	/**
+	 * Pastes a block of TSV text, as it comes from spreadsheets, into the cells starting at `row` and `column`.
+	 *
+	 * Lines go to the shown rows from `row` on and values to the visible columns from `column` on.
+	 * Values are turned into data with `parseValue()` of the columns. Columns that aren't editable
+	 * (see `TableHeaderItem.editor`) and values that don't pass `validate()` are skipped,
+	 * as is anything past the last row or column.
+	 *
+	 * @param {string} text
+	 * @param {number} row index of the top left cell
+	 * @param {number} column index of the top left cell
+	 * @returns {Array<{row: number, column: number, item: TableItem, oldValue: any, newValue: any}>} changed cells
+	 * @memberof TableModel
+	 */
+	pasteCells(
+		text: string,
+		row: number,
+		column: number
+	): Array<{row: number, column: number, item: TableItem, oldValue: any, newValue: any}> {
+		const rows = [];
+		for (let i = row; i < this.data.length; i++) {
+			if (this.data[i].length > 0 && !this.isRowHidden(i)) {
+				rows.push(i);
+			}
+		}
+		const columns = [];
+		for (let i = column; i < this.header.length; i++) {
+			if (this.header[i].visible) {
+				columns.push(i);
+			}
+		}
+
+		const changes = [];
+		this.parseTSV(text).forEach((values, i) => values.forEach((value, j) => {
+			if (i >= rows.length || j >= columns.length) {
+				return;
+			}
+			const header = this.header[columns[j]];
+			const item = this.data[rows[i]][columns[j]];
+			if (!item || (!header.editor && !header.editTemplate)) {
+				return;
+			}
+			const newValue = header.parseValue(value, item);
+			if (!header.validate(newValue, item) || newValue === item.data) {
+				return;
+			}
+			changes.push({row: rows[i], column: columns[j], item, oldValue: item.data, newValue});
+			item.data = newValue;
+		}));
+		if (changes.length > 0) {
+			this.invalidateAggregates();
+		}
+		return changes;
 	}
 
 	/**
@@ -542,9 +1575,64 @@ export class TableModel implements PaginationModel {
 	 */
 	selectRow(index, value = true) {
 		this.rowsSelected[index] = value;
+		if (!value) {
+			this.allPagesSelected = false;
+		}
 		this.rowsSelectedChange.emit(index);
 	}
 
+	/**
+	 * Selects/deselects the rows shown in the table, leaving out the rows that are filtered out.
+	 *
+	 * Deselecting deselects all the rows.
+	 *
+	 * @param {boolean} [value=true]
+	 * @memberof TableModel
+	 */
+	selectAll(value = true) {
+		this.data.forEach((row, index) => {
+			const selected = value && !this.isRowFiltered(index);
+			if (!!this.rowsSelected[index] !== selected) {
+				this.selectRow(index, selected);
+			}
+		});
+		if (!value) {
+			this.allPagesSelected = false;
+		}
+	}
+
+	/**
+	 * Selects/deselects the rows on all the pages, see `allPagesSelected`.
+	 *
+	 * @param {boolean} [value=true]
+	 * @memberof TableModel
+	 */
+	selectAllPages(value = true) {
+		this.selectAll(value);
+		this.allPagesSelected = value;
+	}
+
+	/**
+	 * Selects/deselects the rows between `from` and `to`, both included, leaving out
+	 * the rows that are filtered out.
+	 *
+	 * @param {number} from
+	 * @param {number} to
+	 * @param {boolean} [value=true]
+	 * @returns {Array<number>} indexes of the rows that changed
+	 * @memberof TableModel
+	 */
+	selectRange(from: number, to: number, value = true): Array<number> {
+		const changed = [];
+		for (let index = Math.min(from, to); index <= Math.max(from, to); index++) {
+			if (index >= 0 && index < this.data.length && !this.isRowFiltered(index) && !!this.rowsSelected[index] !== value) {
+				this.selectRow(index, value);
+				changed.push(index);
+			}
+		}
+		return changed;
+	}
+
 	/**
 	 * Expands/Collapses `index`th row based on value
 	 *
@@ -554,6 +1642,431 @@ export class TableModel implements PaginationModel {
 	expandRow(index, value = true) {
 		this.rowsExpanded[index] = value;
 		this.rowsExpandedChange.emit(index);
+		if (value && this.rowsHasChildren[index] && this.childRowIndexes(index).length === 0) {
+			this.requestChildRows(index);
+		}
+	}
+
+	/**
+	 * Sorts the data by `sortedHeaders` and updates `sorted` of every `TableHeaderItem`
+	 *
+	 * Loads the sorted data from `dataSource` if it's set.
+	 *
+	 * @protected
+	 * @memberof TableModel
+	 */
+	protected applySort() {
+		// forget about columns that were removed from the table
+		this.sortedHeaders = this.sortedHeaders.filter(column => this.header.indexOf(column) >= 0);
+		this.groupedHeaders = this.groupedHeaders.filter(column => this.header.indexOf(column) >= 0);
+		this.header.forEach(column => column.sorted = this.sortedHeaders.indexOf(column) >= 0);
+
+		if (this.dataSource) {
+			this.loadPage(1);
+			return;
+		}
+
+		const keys = this.sortingHeaders().map(column => this.header.indexOf(column));
+
+		// remember the original position of each row so equal rows stay in place
+		const rows = this.data.map((row, position) => ({row, position}));
+		rows.sort((a, b) => {
+			for (const i of keys) {
+				const result = (this.header[i].descending ? -1 : 1) * this.header[i].compare(a.row[i], b.row[i]);
+				if (result !== 0) {
+					return result;
+				}
+			}
+			return a.position - b.position;
+		});
+		const order = this.treeRows ? this.treeOrder(rows.map(sorted => sorted.position)) : rows.map(sorted => sorted.position);
+		// move the row state along with the rows
+		const data = this.data.slice();
+		const rowsSelected = this.rowsSelected.slice();
+		const rowsExpanded = this.rowsExpanded.slice();
+		const rowsContext = this.rowsContext.slice();
+		const rowsLevel = this.rowsLevel.slice();
+		const rowsHasChildren = this.rowsHasChildren.slice();
+		order.forEach((position, i) => {
+			this.data[i] = data[position];
+			this.rowsSelected[i] = !!rowsSelected[position];
+			this.rowsExpanded[i] = !!rowsExpanded[position];
+			this.rowsContext[i] = rowsContext[position];
+			this.rowsLevel[i] = rowsLevel[position];
+			this.rowsHasChildren[i] = rowsHasChildren[position];
+		});
+		this.updateRowsParent();
+		this.updateGroups();
+	}
+
+	/**
+	 * Orders the rows of a tree table so the child rows come right after their parent,
+	 * and siblings are in the order they have in `sorted`.
+	 *
+	 * @protected
+	 * @param {Array<number>} sorted indexes of all the rows, sorted
+	 * @returns {Array<number>} indexes of all the rows, in tree order
+	 * @memberof TableModel
+	 */
+	protected treeOrder(sorted: Array<number>): Array<number> {
+		const rank = [];
+		sorted.forEach((position, i) => rank[position] = i);
+		const order = (siblings: Array<number>): Array<number> => siblings
+			.sort((a, b) => rank[a] - rank[b])
+			.reduce((rows, position) => rows.concat([position], order(this.childRowIndexes(position))), []);
+		return order(this.childRowIndexes(-1));
+	}
+
+	/**
+	 * Returns the indexes of all the rows nested under the `index`th row.
+	 *
+	 * @protected
+	 * @param {number} index
+	 * @returns {Array<number>}
+	 * @memberof TableModel
+	 */
+	protected descendantRowIndexes(index: number): Array<number> {
+		const descendants = [];
+		for (let i = index + 1; i < this.data.length && this.rowsLevel[i] > this.rowsLevel[index]; i++) {
+			descendants.push(i);
+		}
+		return descendants;
+	}
+
+	/**
+	 * Flattens tree rows into a list of rows, every row followed by its children.
+	 *
+	 * @protected
+	 * @param {Array<TableTreeRow>} rows
+	 * @param {number} level nesting level of `rows`
+	 * @memberof TableModel
+	 */
+	protected flattenTreeRows(rows: Array<TableTreeRow>, level: number) {
+		return rows.reduce((flat, treeRow) => {
+			const children = treeRow.children || [];
+			return flat.concat([{
+				row: treeRow.row,
+				level,
+				hasChildren: children.length > 0 || !!treeRow.hasChildren,
+				expanded: !!treeRow.expanded
+			}], this.flattenTreeRows(children, level + 1));
+		}, []);
+	}
+
+	/**
+	 * Sorts the rows again and lets the views know rows of a tree table changed.
+	 *
+	 * @protected
+	 * @memberof TableModel
+	 */
+	protected applyTreeChange() {
+		if (this.sortedHeaders.length > 0 && !this.dataSource) {
+			this.applySort();
+		}
+		this.updateRowsParent();
+		this.updateGroups();
+		this.dataChange.emit();
+	}
+
+	/**
+	 * Finds the parent row of every row in `rowsParent`, the closest row above it with a lower level.
+	 *
+	 * @protected
+	 * @memberof TableModel
+	 */
+	protected updateRowsParent() {
+		// index of the last row seen at each level
+		const lastAtLevel: Array<number> = [];
+		this.rowsParent = this.rowsLevel.map((level, i) => {
+			let parent = -1;
+			for (let l = Math.min(level, lastAtLevel.length) - 1; l >= 0; l--) {
+				if (lastAtLevel[l] !== undefined) {
+					parent = lastAtLevel[l];
+					break;
+				}
+			}
+			lastAtLevel.length = level;
+			lastAtLevel[level] = i;
+			return parent;
+		});
+	}
+
+	/**
+	 * Loads the child rows of the `index`th row with `loadChildRows`.
+	 *
+	 * @protected
+	 * @param {number} index
+	 * @memberof TableModel
+	 */
+	protected requestChildRows(index: number) {
+		const row = this.data[index];
+		if (!this.loadChildRows || this.loadingRows.indexOf(row) >= 0) {
+			return;
+		}
+		const done = () => this.loadingRows = this.loadingRows.filter(loadingRow => loadingRow !== row);
+		this.loadingRows.push(row);
+		this.loadChildRows(row, index).subscribe(children => {
+			done();
+			// sorting might have moved the row while its children were loading
+			const position = this.data.indexOf(row);
+			if (position >= 0) {
+				this.addChildRows(position, children);
+			}
+		}, done);
+	}
+
+	/**
+	 * Checks if the row matches the filters of the columns and the search, not taking its
+	 * child rows into account.
+	 *
+	 * @protected
+	 * @param {number} index
+	 * @returns {boolean}
+	 * @memberof TableModel
+	 */
+	protected rowMatchesFilters(index: number): boolean {
+		const row = this.row(index);
+		return !this.header.some((item, i) => item.filter(row[i])) &&
+			(!this.searchText || this.header.some((item, i) => item.visible && item.matchesSearch(row[i], this.searchText)));
+	}
+
+	/**
+	 * Headers of the columns the data is actually sorted by, the grouped columns first
+	 * so the rows of a group end up next to each other.
+	 *
+	 * @protected
+	 * @returns {Array<TableHeaderItem>}
+	 * @memberof TableModel
+	 */
+	protected sortingHeaders(): Array<TableHeaderItem> {
+		return this.groupedHeaders.concat(this.sortedHeaders.filter(column => this.groupedHeaders.indexOf(column) < 0));
+	}
+
+	/**
+	 * Returns the cursor to request the `page`th page with, `undefined` for the first page
+	 * and for data sources that don't paginate with cursors.
+	 *
+	 * @protected
+	 * @param {number} page
+	 * @returns {string}
+	 * @memberof TableModel
+	 */
+	protected pageTokenFor(page: number): string {
+		const currentPage = Number(this.currentPage);
+		if (page === 1) {
+			return undefined;
+		} else if (page === currentPage + 1) {
+			return this.nextPageToken;
+		} else if (page === currentPage - 1) {
+			return this.previousPageToken;
+		} else if (page === currentPage) {
+			return this.currentPageToken;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Returns the id of the `index`th column in `TableViewState`.
+	 *
+	 * @protected
+	 * @param {number} index
+	 * @returns {string}
+	 * @memberof TableModel
+	 */
+	protected columnId(index: number): string {
+		const column = this.header[index];
+		if (column.id != null) {
+			return column.id;
+		}
+		return typeof column.data === "string" && column.data ? column.data : String(index);
+	}
+
+	/**
+	 * Rebuilds `groups` from the current data, keeping collapsed groups collapsed.
+	 *
+	 * Groups are identified by the `exportValue()` of their value and of the values of their parent groups,
+	 * the same way `getRowStates()` and `setRowStates()` carry the state of the rows over by key.
+	 *
+	 * @protected
+	 * @memberof TableModel
+	 */
+	protected updateGroups() {
+		// the rows changed, and so did the groups
+		this.invalidateAggregates();
+		const groupStates = this.getGroupStates();
+		const columns = (this.header || [])
+			.map((column, index) => ({column, index}))
+			.filter(({column}) => this.groupedHeaders.indexOf(column) >= 0)
+			.sort((a, b) => this.groupedHeaders.indexOf(a.column) - this.groupedHeaders.indexOf(b.column));
+		const rows = this.data.map((row, index) => index).filter(index => this.data[index].length > 0);
+
+		const group = (rowIndexes: Array<number>, level: number, parentKey: string): Array<TableRowGroup> => {
+			if (level >= columns.length) {
+				return [];
+			}
+			const { column, index } = columns[level];
+			const groups: Array<TableRowGroup> = [];
+			rowIndexes.forEach(rowIndex => {
+				const item = this.data[rowIndex][index];
+				let rowGroup = groups.find(g => column.compare(g.item, item) === 0);
+				if (!rowGroup) {
+					// quoted values can't run into the values of the other levels
+					const key = `${parentKey}/${JSON.stringify(column.exportValue(item))}`;
+					const expanded = groupStates.has(key) ? groupStates.get(key) : true;
+					rowGroup = {key, column: index, item, rows: [], groups: [], level, expanded};
+					groups.push(rowGroup);
+				}
+				rowGroup.rows.push(rowIndex);
+			});
+			groups.forEach(g => g.groups = group(g.rows, level + 1, g.key));
+			return groups;
+		};
+
+		this.groups = group(rows, 0, "");
+	}
+
+	/**
+	 * Returns the key of the row using `trackBy`, or the row itself if it's not set.
+	 *
+	 * @protected
+	 * @param {Array<TableItem>} row
+	 * @returns {any}
+	 * @memberof TableModel
+	 */
+	protected keyOf(row: Array<TableItem>): any {
+		return this.trackBy ? this.trackBy(row) : row;
+	}
+
+	/**
+	 * Collects titles of the visible columns and values of the rows shown in the table.
+	 *
+	 * @protected
+	 * @param [exportValue] gets the value of an item, `exportValue()` of the column by default
+	 * @returns {{titles: Array<string>, rows: Array<Array<any>>}}
+	 * @memberof TableModel
+	 */
+	protected exportRows(
+		exportValue = (column: TableHeaderItem, item: TableItem): any => column.exportValue(item)
+	): {titles: Array<string>, rows: Array<Array<any>>} {
+		const columns = this.header
+			.map((column, index) => ({column, index}))
+			.filter(({column}) => column.visible);
+		const titles = columns.map(({column}) => column.data == null ? "" : String(column.data));
+		const rows = this.data
+			.filter((row, i) => row.length > 0 && !this.isRowFiltered(i))
+			.map(row => columns.map(({column, index}) => exportValue(column, row[index])));
+		return { titles, rows };
+	}
+
+	/**
+	 * Splits TSV text into lines of values. Quoted values can contain tabs, quotes and line breaks.
+	 *
+	 * @protected
+	 * @param {string} text
+	 * @returns {Array<Array<string>>}
+	 * @memberof TableModel
+	 */
+	protected parseTSV(text: string): Array<Array<string>> {
+		const lines: Array<Array<string>> = [[]];
+		let value = "";
+		let quoted = false;
+		for (let i = 0; i < text.length; i++) {
+			const char = text[i];
+			if (quoted) {
+				if (char === "\"" && text[i + 1] === "\"") {
+					value += char;
+					i++;
+				} else if (char === "\"") {
+					quoted = false;
+				} else {
+					value += char;
+				}
+			} else if (char === "\"" && value === "") {
+				quoted = true;
+			} else if (char === "\t") {
+				lines[lines.length - 1].push(value);
+				value = "";
+			} else if (char === "\n" || char === "\r") {
+				if (char === "\r" && text[i + 1] === "\n") {
+					i++;
+				}
+				lines[lines.length - 1].push(value);
+				lines.push([]);
+				value = "";
+			} else {
+				value += char;
+			}
+		}
+		lines[lines.length - 1].push(value);
+		// spreadsheets end the copied text with a line break
+		if (lines.length > 1 && lines[lines.length - 1].length === 1 && lines[lines.length - 1][0] === "") {
+			lines.pop();
+		}
+		return lines;
+	}
+
+	/**
+	 * Collects selection, expansion and context of the rows keyed by `trackBy`.
+	 *
+	 * Rows without any state are left out.
+	 *
+	 * @protected
+	 * @returns {Map<any, TableRowState>}
+	 * @memberof TableModel
+	 */
+	protected getRowStates(): Map<any, TableRowState> {
+		const rowStates = new Map<any, TableRowState>();
+		if (!this.rowsSelected) {
+			return rowStates;
+		}
+		this.data.forEach((row, i) => {
+			if (row.length > 0 && (this.rowsSelected[i] || this.rowsExpanded[i] || this.rowsContext[i])) {
+				rowStates.set(this.keyOf(row), {
+					selected: this.rowsSelected[i],
+					expanded: this.rowsExpanded[i],
+					context: this.rowsContext[i]
+				});
+			}
+		});
+		return rowStates;
+	}
+
+	/**
+	 * Collects `expanded` of all the groups and their nested groups by `key`.
+	 *
+	 * @protected
+	 * @returns {Map<string, boolean>}
+	 * @memberof TableModel
+	 */
+	protected getGroupStates(): Map<string, boolean> {
+		const groupStates = new Map<string, boolean>();
+		const collect = (groups: Array<TableRowGroup>) => groups.forEach(group => {
+			groupStates.set(group.key, group.expanded);
+			collect(group.groups);
+		});
+		collect(this.groups || []);
+		return groupStates;
+	}
+
+	/**
+	 * Applies state collected by `getRowStates()` to the rows with the same key.
+	 *
+	 * @protected
+	 * @param {Map<any, TableRowState>} rowStates
+	 * @memberof TableModel
+	 */
+	protected setRowStates(rowStates: Map<any, TableRowState>) {
+		if (rowStates.size === 0) {
+			return;
+		}
+		this.data.forEach((row, i) => {
+			const state = row.length > 0 ? rowStates.get(this.keyOf(row)) : undefined;
+			if (state) {
+				this.rowsSelected[i] = state.selected;
+				this.rowsExpanded[i] = state.expanded;
+				this.rowsContext[i] = state.context;
+			}
+		});
 	}
 
 	/**
@@ -0,0 +1,62 @@
+import { TableItem } from "./table-item.class";
+
+/**
+ * Group of `TableModel` rows with the same value in the column they're grouped by.
+ *
+ * `TableModel.groups` lists the top level groups. Grouping by more than one column
+ * nests the groups of the next column in `groups`.
+ *
+ * @export
+ * @interface TableRowGroup
+ */
+export interface TableRowGroup {
+	/**
+	 * Identifies the group, made of the values of the group and its parent groups
+	 *
+	 * @type {string}
+	 * @memberof TableRowGroup
+	 */
+	key: string;
+	/**
+	 * Index of the column the rows are grouped by
+	 *
+	 * @type {number}
+	 * @memberof TableRowGroup
+	 */
+	column: number;
+	/**
+	 * Item of the first row of the group in `column`, holding the value of the group
+	 *
+	 * @type {TableItem}
+	 * @memberof TableRowGroup
+	 */
+	item: TableItem;
+	/**
+	 * Indexes of all the rows in the group, including the rows in nested groups
+	 *
+	 * @type {Array<number>}
+	 * @memberof TableRowGroup
+	 */
+	rows: Array<number>;
+	/**
+	 * Nested groups, empty for the groups of the last column the rows are grouped by
+	 *
+	 * @type {Array<TableRowGroup>}
+	 * @memberof TableRowGroup
+	 */
+	groups: Array<TableRowGroup>;
+	/**
+	 * Nesting level of the group, 0 for top level groups
+	 *
+	 * @type {number}
+	 * @memberof TableRowGroup
+	 */
+	level: number;
+	/**
+	 * `true` if the rows of the group are shown
+	 *
+	 * @type {boolean}
+	 * @memberof TableRowGroup
+	 */
+	expanded: boolean;
+}
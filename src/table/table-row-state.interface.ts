@@ -0,0 +1,32 @@
+/**
+ * State of a row of `TableModel` that isn't part of its data.
+ *
+ * `TableModel` uses it to carry the state over to the row with the same key
+ * when `data` gets replaced (see `TableModel.trackBy`).
+ *
+ * @export
+ * @interface TableRowState
+ */
+export interface TableRowState {
+	/**
+	 * Corresponds to `TableModel.rowsSelected`
+	 *
+	 * @type {boolean}
+	 * @memberof TableRowState
+	 */
+	selected: boolean;
+	/**
+	 * Corresponds to `TableModel.rowsExpanded`
+	 *
+	 * @type {boolean}
+	 * @memberof TableRowState
+	 */
+	expanded: boolean;
+	/**
+	 * Corresponds to `TableModel.rowsContext`
+	 *
+	 * @type {string}
+	 * @memberof TableRowState
+	 */
+	context: string;
+}
@@ -0,0 +1,26 @@
+/**
+ * Describes one of the columns `TableModel` data is sorted by.
+ *
+ * `TableModel.sortKeys` returns an ordered list of these, primary sort key first.
+ * The list is plain data so it can be persisted or sent to a server as is,
+ * and restored later with `TableModel.sortBy()`.
+ *
+ * @export
+ * @interface TableSortKey
+ */
+export interface TableSortKey {
+	/**
+	 * Index of the sorted column in `TableModel.header`
+	 *
+	 * @type {number}
+	 * @memberof TableSortKey
+	 */
+	column: number;
+	/**
+	 * `true` if the column is sorted in ascending order, `false` for descending
+	 *
+	 * @type {boolean}
+	 * @memberof TableSortKey
+	 */
+	ascending: boolean;
+}
@@ -0,0 +1,99 @@
+import { Component, OnInit } from "@angular/core";
+import { TestBed, fakeAsync, tick } from "@angular/core/testing";
+import { FormsModule } from "@angular/forms";
+import { By } from "@angular/platform-browser";
+
+import { TableModule, TableModel, TableHeaderItem, TableItem } from "./table.module";
+import { I18nModule } from "../i18n/i18n.module";
+
+@Component({
+	template: `
+		<ibm-table-toolbar [model]="tableModel" [(size)]="size">
+			<button class="batch-action">Delete</button>
+		</ibm-table-toolbar>
+	`
+})
+class TableToolbarTest implements OnInit {
+	tableModel = new TableModel();
+	size = "md";
+
+	ngOnInit() {
+		this.tableModel.header = [new TableHeaderItem({data: "Name"}), new TableHeaderItem({data: "Count"})];
+		this.tableModel.data = [
+			[new TableItem({data: "Lorem"}), new TableItem({data: 1})],
+			[new TableItem({data: "ipsum"}), new TableItem({data: 2})]
+		];
+	}
+}
+
+describe("TableToolbar", () => {
+	let fixture;
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({
+			imports: [
+				FormsModule,
+				TableModule,
+				I18nModule
+			],
+			declarations: [
+				TableToolbarTest
+			]
+		});
+
+		fixture = TestBed.createComponent(TableToolbarTest);
+		fixture.detectChanges();
+	});
+
+	it("should show the batch action bar when rows are selected", () => {
+		expect(fixture.nativeElement.querySelector(".bx--batch-actions")).toBeFalsy();
+
+		fixture.componentInstance.tableModel.selectRow(1);
+		fixture.detectChanges();
+
+		expect(fixture.nativeElement.querySelector(".bx--batch-actions .batch-action")).toBeTruthy();
+		expect(fixture.nativeElement.querySelector(".bx--batch-summary").textContent.trim()).toEqual("1 items selected");
+
+		fixture.nativeElement.querySelector(".bx--batch-summary__cancel").click();
+		fixture.detectChanges();
+
+		expect(fixture.componentInstance.tableModel.selectedRowsCount()).toEqual(0);
+		expect(fixture.nativeElement.querySelector(".bx--batch-actions")).toBeFalsy();
+	});
+
+	it("should switch the density", () => {
+		fixture.debugElement.queryAll(By.css("[ibmContentOption]"))[0].nativeElement.click();
+		fixture.detectChanges();
+
+		expect(fixture.componentInstance.size).toEqual("sm");
+	});
+
+	it("should search once typing stops", fakeAsync(() => {
+		const toolbar = fixture.debugElement.query(By.css("ibm-table-toolbar")).componentInstance;
+		const tableModel = fixture.componentInstance.tableModel;
+		spyOn(tableModel, "search").and.callThrough();
+
+		toolbar.onSearchInput("l");
+		tick(100);
+		toolbar.onSearchInput("lo");
+		tick(100);
+		expect(tableModel.search).not.toHaveBeenCalled();
+		tick(300);
+		expect(tableModel.search).toHaveBeenCalledTimes(1);
+		expect(tableModel.searchText).toEqual("lo");
+
+		toolbar.onSearchInput("lor");
+		toolbar.clearSearch();
+		tick(300);
+		expect(tableModel.search).toHaveBeenCalledTimes(2);
+		expect(tableModel.searchText).toEqual("");
+	}));
+
+	it("should move columns with the keyboard", () => {
+		const toolbar = fixture.debugElement.query(By.css("ibm-table-toolbar")).componentInstance;
+		toolbar.onColumnKeydown({altKey: true, key: "ArrowDown", preventDefault: () => {}}, 0);
+
+		expect(fixture.componentInstance.tableModel.header.map(column => column.data)).toEqual(["Count", "Name"]);
+		expect(fixture.componentInstance.tableModel.data[0].map(item => item.data)).toEqual([1, "Lorem"]);
+	});
+});
@@ -0,0 +1,340 @@
+import {
+	Component,
+	Input,
+	Output,
+	EventEmitter,
+	OnInit,
+	OnDestroy
+} from "@angular/core";
+import { Subject, Subscription, timer } from "rxjs";
+import { debounce, filter } from "rxjs/operators";
+
+import { TableModel } from "./table-model.class";
+import { I18n } from "./../i18n/i18n.module";
+
+/**
+ * Toolbar for `ibm-table`, placed right above it.
+ *
+ * It has a search box filtering the rows by all the visible columns once users stop typing, a column chooser
+ * to show, hide and reorder the columns, and a switch for the row density. Once rows are selected
+ * it's replaced with the batch action bar, which shows the content of the toolbar.
+ *
+ * ```html
+ * <ibm-table-toolbar [model]="model" [(size)]="size">
+ * 	<button class="bx--btn bx--btn--primary bx--btn--sm" (click)="deleteSelected()">Delete</button>
+ * </ibm-table-toolbar>
+ * <ibm-table [model]="model" [size]="size"></ibm-table>
+ * ```
+ *
+ * Columns are reordered by dragging them in the column chooser, or with alt + up and down arrows.
+ * Changes to the columns are saved with `TableModel.saveViewState()`.
+ *
+ * @export
+ * @class TableToolbar
+ */
+@Component({
+	selector: "ibm-table-toolbar",
+	template: `
+	<section class="bx--table-toolbar" [attr.aria-label]="translations.TOOLBAR">
+		<div
+			*ngIf="model.selectedRowsCount() > 0"
+			class="bx--batch-actions bx--batch-actions--active">
+			<div class="bx--action-list">
+				<ng-content></ng-content>
+				<button
+					type="button"
+					class="bx--btn bx--btn--primary bx--btn--sm bx--batch-summary__cancel"
+					(click)="cancelSelection()">
+					{{translations.CANCEL_SELECTION}}
+				</button>
+			</div>
+			<div class="bx--batch-summary">
+				<p class="bx--batch-summary__para">
+					<span>{{(model.allPagesSelected ? model.totalDataLength : model.selectedRowsCount())}}</span> {{translations.ITEMS_SELECTED}}
+				</p>
+			</div>
+		</div>
+		<div *ngIf="showSearch" class="bx--toolbar-search-container">
+			<div class="bx--search bx--search--sm" role="search">
+				<label class="bx--label">{{translations.SEARCH}}</label>
+				<input
+					type="text"
+					class="bx--search-input"
+					[placeholder]="translations.SEARCH"
+					[attr.aria-label]="translations.SEARCH"
+					[ngModel]="model.searchText"
+					(ngModelChange)="onSearchInput($event)">
+				<button
+					*ngIf="model.searchText"
+					type="button"
+					class="bx--search-close"
+					[title]="translations.CLEAR_SEARCH"
+					[attr.aria-label]="translations.CLEAR_SEARCH"
+					(click)="clearSearch()">
+					<svg width="16" height="16" viewBox="0 0 16 16" class="bx--search-clear">
+						<path d="M12 4.7L11.3 4 8 7.3 4.7 4 4 4.7 7.3 8 4 11.3l.7.7L8 8.7l3.3 3.3.7-.7L8.7 8z"/>
+					</svg>
+				</button>
+			</div>
+		</div>
+		<div class="bx--toolbar-content">
+			<ibm-content-switcher
+				*ngIf="showDensitySwitch"
+				class="table-toolbar_density"
+				[label]="translations.DENSITY"
+				(selected)="onDensitySelected($event.name)">
+				<button ibmContentOption name="sm" [active]="size === 'sm'">{{translations.DENSITY_SM}}</button>
+				<button ibmContentOption name="md" [active]="size === 'md'">{{translations.DENSITY_MD}}</button>
+				<button ibmContentOption name="lg" [active]="size === 'lg'">{{translations.DENSITY_LG}}</button>
+			</ibm-content-switcher>
+			<button
+				*ngIf="showColumnChooser"
+				type="button"
+				class="bx--btn bx--btn--secondary bx--btn--sm table-toolbar_columns"
+				aria-haspopup="true"
+				[ibmTooltip]="columnChooserTemplate"
+				trigger="click"
+				placement="bottom,top"
+				(onClose)="model.saveViewState()">
+				{{translations.COLUMNS}}
+			</button>
+		</div>
+	</section>
+	<ng-template #columnChooserTemplate>
+		<ul class="table-toolbar_column-list" [attr.aria-label]="translations.COLUMNS">
+			<li
+				*ngFor="let column of model.header; let i = index"
+				class="table-toolbar_column"
+				draggable="true"
+				tabindex="0"
+				[title]="translations.MOVE_COLUMN"
+				[ngClass]="{'table-toolbar_column--drop-target': columnDropIndex === i}"
+				(dragstart)="onColumnDragStart($event, i)"
+				(dragover)="onColumnDragOver($event, i)"
+				(dragend)="columnDropIndex = -1"
+				(drop)="onColumnDrop($event, i)"
+				(keydown)="onColumnKeydown($event, i)">
+				<ibm-checkbox
+					size="sm"
+					[checked]="column.visible"
+					(change)="column.visible = $event.checked">
+					{{columnTitle(i)}}
+				</ibm-checkbox>
+			</li>
+		</ul>
+	</ng-template>
+	`
+})
+export class TableToolbar implements OnInit, OnDestroy {
+	/**
+	 * `TableModel` of the table the toolbar controls.
+	 *
+	 * @type {TableModel}
+	 * @memberof TableToolbar
+	 */
+	@Input() model: TableModel;
+
+	/**
+	 * Row density of the table, bind it to the `size` of the table.
+	 *
+	 * @type {("sm" | "md" | "lg")}
+	 * @memberof TableToolbar
+	 */
+	@Input() size: "sm" | "md" | "lg" = "md";
+
+	/**
+	 * Shows the search box.
+	 *
+	 * @memberof TableToolbar
+	 */
+	@Input() showSearch = true;
+
+	/**
+	 * Milliseconds to wait after the last key press in the search box before the rows are searched.
+	 *
+	 * @memberof TableToolbar
+	 */
+	@Input() searchDebounce = 300;
+
+	/**
+	 * Shows the column chooser.
+	 *
+	 * @memberof TableToolbar
+	 */
+	@Input() showColumnChooser = true;
+
+	/**
+	 * Shows the row density switch.
+	 *
+	 * @memberof TableToolbar
+	 */
+	@Input() showDensitySwitch = true;
+
+	/**
+	 * Object of all the strings the toolbar needs.
+	 * Defaults to the `TABLE` value from the i18n service.
+	 */
+	@Input() translations = this.i18n.get().TABLE;
+
+	/**
+	 * Emits the new row density when it's changed with the density switch.
+	 *
+	 * @memberof TableToolbar
+	 */
+	@Output() sizeChange = new EventEmitter<"sm" | "md" | "lg">();
+
+	/**
+	 * Emits when the selection is cancelled in the batch action bar.
+	 *
+	 * @memberof TableToolbar
+	 */
+	@Output() cancel = new EventEmitter<TableModel>();
+
+	/**
+	 * Index of the column being dragged in the column chooser.
+	 *
+	 * @memberof TableToolbar
+	 */
+	columnDragIndex = -1;
+
+	/**
+	 * Index of the column the dragged column would be dropped on.
+	 *
+	 * @memberof TableToolbar
+	 */
+	columnDropIndex = -1;
+
+	/**
+	 * Text typed in the search box, searched for once users stop typing.
+	 *
+	 * @protected
+	 * @memberof TableToolbar
+	 */
+	protected searchQueries = new Subject<string>();
+	protected searchSubscription: Subscription;
+
+	constructor(protected i18n: I18n) {}
+
+	ngOnInit() {
+		this.searchSubscription = this.searchQueries.pipe(
+			debounce(() => timer(this.searchDebounce)),
+			// the search might have been cleared in the meantime
+			filter(text => text !== this.model.searchText)
+		).subscribe(text => this.model.search(text));
+	}
+
+	ngOnDestroy() {
+		this.searchSubscription.unsubscribe();
+	}
+
+	/**
+	 * Searches for `text` once users stop typing for `searchDebounce` milliseconds.
+	 *
+	 * @param {string} text
+	 * @memberof TableToolbar
+	 */
+	onSearchInput(text: string) {
+		this.searchQueries.next(text);
+	}
+
+	/**
+	 * Clears the search right away, dropping the text that's still waiting to be searched for.
+	 *
+	 * @memberof TableToolbar
+	 */
+	clearSearch() {
+		this.searchQueries.next("");
+		this.model.search("");
+	}
+
+	/**
+	 * Returns the title of the `index`th column for the column chooser.
+	 *
+	 * @param {number} index
+	 * @returns {string}
+	 * @memberof TableToolbar
+	 */
+	columnTitle(index: number): string {
+		const data = this.model.header[index].data;
+		return typeof data === "string" ? data : `${this.translations.COLUMN} ${index + 1}`;
+	}
+
+	/**
+	 * Deselects all the rows. Emits the `cancel` event.
+	 *
+	 * @memberof TableToolbar
+	 */
+	cancelSelection() {
+		this.model.rowsSelected.forEach((selected, index) => this.model.selectRow(index, false));
+		this.cancel.emit(this.model);
+	}
+
+	/**
+	 * Triggered when a row density is selected. Emits the `sizeChange` event.
+	 *
+	 * @param {("sm" | "md" | "lg")} size
+	 * @memberof TableToolbar
+	 */
+	onDensitySelected(size: "sm" | "md" | "lg") {
+		this.size = size;
+		this.sizeChange.emit(size);
+	}
+
+	onColumnDragStart(event, index: number) {
+		this.columnDragIndex = index;
+		// firefox doesn't start dragging without data
+		event.dataTransfer.setData("text", String(index));
+	}
+
+	onColumnDragOver(event, index: number) {
+		if (this.columnDragIndex >= 0) {
+			// allow dropping
+			event.preventDefault();
+			this.columnDropIndex = index;
+		}
+	}
+
+	onColumnDrop(event, index: number) {
+		event.preventDefault();
+		this.moveColumn(this.columnDragIndex, index);
+		this.columnDragIndex = -1;
+		this.columnDropIndex = -1;
+	}
+
+	/**
+	 * Moves the column up or down the list on alt + up and down arrows.
+	 *
+	 * @param {KeyboardEvent} event
+	 * @param {number} index
+	 * @memberof TableToolbar
+	 */
+	onColumnKeydown(event: KeyboardEvent, index: number) {
+		if (!event.altKey) {
+			return;
+		}
+		if (event.key === "ArrowUp" || event.key === "Up") {
+			event.preventDefault();
+			this.moveColumn(index, index - 1);
+		} else if (event.key === "ArrowDown" || event.key === "Down") {
+			event.preventDefault();
+			this.moveColumn(index, index + 1);
+		}
+	}
+
+	/**
+	 * Moves the column at `indexFrom` so it ends up at `indexTo` and saves the view state.
+	 *
+	 * @protected
+	 * @param {number} indexFrom
+	 * @param {number} indexTo
+	 * @memberof TableToolbar
+	 */
+	protected moveColumn(indexFrom: number, indexTo: number) {
+		if (indexFrom < 0 || indexTo < 0 || indexTo >= this.model.header.length || indexFrom === indexTo) {
+			return;
+		}
+		// `moveColumn()` inserts the column before `indexTo`
+		this.model.moveColumn(indexFrom, indexTo > indexFrom ? indexTo + 1 : indexTo);
+		this.model.saveViewState();
+	}
+}
@@ -0,0 +1,39 @@
+import { TableItem } from "./table-item.class";
+
+/**
+ * Row of a tree table along with its child rows, see `TableModel.setTreeData()`.
+ *
+ * @export
+ * @interface TableTreeRow
+ */
+export interface TableTreeRow {
+	/**
+	 * Items of the row, same as the rows in `TableModel.data`
+	 *
+	 * @type {Array<TableItem>}
+	 * @memberof TableTreeRow
+	 */
+	row: Array<TableItem>;
+	/**
+	 * Child rows, with the same columns as the row
+	 *
+	 * @type {Array<TableTreeRow>}
+	 * @memberof TableTreeRow
+	 */
+	children?: Array<TableTreeRow>;
+	/**
+	 * Set to `true` if the row has children that aren't loaded yet.
+	 * They're loaded with `TableModel.loadChildRows` when the row is expanded.
+	 *
+	 * @type {boolean}
+	 * @memberof TableTreeRow
+	 */
+	hasChildren?: boolean;
+	/**
+	 * `true` if the child rows are shown
+	 *
+	 * @type {boolean}
+	 * @memberof TableTreeRow
+	 */
+	expanded?: boolean;
+}
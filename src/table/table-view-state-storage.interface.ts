@@ -0,0 +1,33 @@
+import { Observable } from "rxjs";
+
+import { TableViewState } from "./table-view-state.interface";
+
+/**
+ * Storage for `TableViewState`s, used by `TableModel.saveViewState()` and `TableModel.restoreViewState()`.
+ *
+ * See `LocalStorageTableViewStateStorage` and `InMemoryTableViewStateStorage` for ready-made implementations.
+ * Implement it to store the views anywhere else, on a server for example, so they can be shared.
+ *
+ * @export
+ * @interface TableViewStateStorage
+ */
+export interface TableViewStateStorage {
+	/**
+	 * Returns an `Observable` of the state stored under `key`, or of `null` if there isn't one.
+	 *
+	 * @param {string} key
+	 * @returns {Observable<TableViewState>}
+	 * @memberof TableViewStateStorage
+	 */
+	load(key: string): Observable<TableViewState>;
+
+	/**
+	 * Stores the state under `key`, replacing the one stored before.
+	 *
+	 * @param {string} key
+	 * @param {TableViewState} state
+	 * @returns {Observable<any>} completes once the state is stored
+	 * @memberof TableViewStateStorage
+	 */
+	save(key: string, state: TableViewState): Observable<any>;
+}
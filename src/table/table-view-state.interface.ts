@@ -0,0 +1,97 @@
+/**
+ * Describes the state of a column in `TableViewState`.
+ *
+ * @export
+ * @interface TableColumnState
+ */
+export interface TableColumnState {
+	/**
+	 * Identifies the column, see `TableHeaderItem.id`
+	 *
+	 * @type {string}
+	 * @memberof TableColumnState
+	 */
+	id: string;
+	/**
+	 * `TableHeaderItem.visible` of the column
+	 *
+	 * @type {boolean}
+	 * @memberof TableColumnState
+	 */
+	visible: boolean;
+	/**
+	 * Width of the column from its `style`, if it has one
+	 *
+	 * @type {string}
+	 * @memberof TableColumnState
+	 */
+	width?: string;
+	/**
+	 * Filter of the column, as returned by `TableHeaderItem.getFilterState()`
+	 *
+	 * @type {*}
+	 * @memberof TableColumnState
+	 */
+	filter?: any;
+}
+
+/**
+ * Describes one of the columns the data is sorted by in `TableViewState`.
+ *
+ * Same as `TableSortKey`, except the column is identified by its id
+ * so it survives reordering the columns.
+ *
+ * @export
+ * @interface TableViewSortKey
+ */
+export interface TableViewSortKey {
+	/**
+	 * Id of the sorted column
+	 *
+	 * @type {string}
+	 * @memberof TableViewSortKey
+	 */
+	column: string;
+	/**
+	 * `true` if the column is sorted in ascending order, `false` for descending
+	 *
+	 * @type {boolean}
+	 * @memberof TableViewSortKey
+	 */
+	ascending: boolean;
+}
+
+/**
+ * Snapshot of how the user set up the table: order, widths and visibility of the columns,
+ * sorting, grouping and filters.
+ *
+ * It's plain data, so it can be stored with a `TableViewStateStorage`, or serialized
+ * with `JSON.stringify()` to be shared. Get it with `TableModel.getViewState()` and
+ * restore it with `TableModel.setViewState()`.
+ *
+ * @export
+ * @interface TableViewState
+ */
+export interface TableViewState {
+	/**
+	 * States of the columns, in the order they are shown in
+	 *
+	 * @type {Array<TableColumnState>}
+	 * @memberof TableViewState
+	 */
+	columns: Array<TableColumnState>;
+	/**
+	 * Columns to sort by, primary sort key first
+	 *
+	 * @type {Array<TableViewSortKey>}
+	 * @memberof TableViewState
+	 */
+	sort: Array<TableViewSortKey>;
+	/**
+	 * Ids of the columns the rows are grouped by, outermost group first
+	 *
+	 * @type {Array<string>}
+	 * @memberof TableViewState
+	 */
+	groups?: Array<string>;
+}
@@ -1,14 +1,17 @@
 import { Component, OnInit } from "@angular/core";
 import { DialogModule } from "./../dialog/dialog.module";
-import { TestBed } from "@angular/core/testing";
+import { TestBed, fakeAsync, tick } from "@angular/core/testing";
 import { FormsModule } from "@angular/forms";
-import { TableModule, TableModel, TableHeaderItem, TableItem } from "./table.module";
+import { TableModule, TableModel, TableHeaderItem, TableItem, TextFilterHeaderItem } from "./table.module";
 import { Table } from "./table.component";
+import { TableColumn } from "./table-column.directive";
 import { StaticIconModule } from "./../icon/static-icon.module";
 
 import { By } from "@angular/platform-browser";
 
 import { NFormsModule } from "./../forms/forms.module";
+import { DropdownModule } from "./../dropdown/dropdown.module";
+import { CalendarModule } from "./../calendar/calendar.module";
 import { I18nModule } from "../i18n/i18n.module";
 
 @Component({
@@ -28,6 +31,91 @@ class TableTest implements OnInit {
 	}
 }
 
+@Component({
+	template: `<ibm-table [model]="tableModel" [virtualScroll]="true" [virtualBuffer]="5"></ibm-table>`
+})
+class VirtualTableTest implements OnInit {
+	tableModel = new TableModel();
+
+	ngOnInit() {
+		this.tableModel.header = [new TableHeaderItem({data: "Column"})];
+		this.tableModel.data = Array.from(Array(1000), (_, i) => [new TableItem({data: `Row ${i}`})]);
+	}
+}
+
+@Component({
+	template: `<ibm-table [model]="tableModel" [isDataGrid]="isDataGrid"></ibm-table>`
+})
+class GridTableTest implements OnInit {
+	tableModel = new TableModel();
+	isDataGrid = true;
+
+	ngOnInit() {
+		this.tableModel.header = [new TableHeaderItem({data: "Name"}), new TableHeaderItem({data: "Count"})];
+		this.tableModel.data = [
+			[new TableItem({data: "Lorem"}), new TableItem({data: 1})],
+			[new TableItem({data: "ipsum"}), new TableItem({data: 2})]
+		];
+	}
+}
+
+@Component({
+	template: `<ibm-table [model]="tableModel" [stickyHeader]="true"></ibm-table>`
+})
+class FrozenTableTest implements OnInit {
+	tableModel = new TableModel();
+
+	ngOnInit() {
+		this.tableModel.header = [
+			new TableHeaderItem({data: "Name", frozen: "left"}),
+			new TableHeaderItem({data: "Description"}),
+			new TableHeaderItem({data: "Actions", frozen: "right"})
+		];
+		this.tableModel.data = [
+			[new TableItem({data: "Lorem"}), new TableItem({data: "ipsum"}), new TableItem({data: "dolor"})]
+		];
+	}
+}
+
+@Component({
+	template: `<ibm-table [model]="tableModel" (cellEdit)="onCellEdit($event)"></ibm-table>`
+})
+class EditableTableTest implements OnInit {
+	tableModel = new TableModel();
+	edits = [];
+
+	ngOnInit() {
+		this.tableModel.header = [
+			new TableHeaderItem({data: "Name", editor: "text", validate: value => !!value}),
+			new TableHeaderItem({data: "Count"})
+		];
+		this.tableModel.data = [
+			[new TableItem({data: "Lorem"}), new TableItem({data: 1})],
+			[new TableItem({data: "ipsum"}), new TableItem({data: 2})]
+		];
+	}
+
+	onCellEdit(event) {
+		this.edits.push(event);
+	}
+}
+
+@Component({
+	template: `
+		<ibm-table [rows]="users">
+			<ibm-table-column field="name" header="Name" sortable></ibm-table-column>
+			<ibm-table-column field="address.city" [header]="cityHeader"></ibm-table-column>
+		</ibm-table>
+	`
+})
+class DeclarativeTableTest {
+	users = [
+		{name: "Bob", address: {city: "Oslo"}},
+		{name: "Ann", address: {city: "Rome"}}
+	];
+	cityHeader = "City";
+}
+
 describe("Table", () => {
 	let fixture, tableInstance;
 
@@ -36,13 +124,21 @@ describe("Table", () => {
 			imports: [
 				FormsModule,
 				NFormsModule,
+				DropdownModule,
+				CalendarModule,
 				DialogModule,
 				StaticIconModule,
 				I18nModule
 			],
 			declarations: [
 				Table,
-				TableTest
+				TableTest,
+				VirtualTableTest,
+				EditableTableTest,
+				GridTableTest,
+				FrozenTableTest,
+				TableColumn,
+				DeclarativeTableTest
 			]
 		});
 
@@ -56,6 +152,25 @@ describe("Table", () => {
 		expect(fixture.componentInstance instanceof Table).toBe(true);
 	});
 
+	it("should stop listening to the previous model", () => {
+		const table = tableInstance.componentInstance;
+		const previousModel = table.model;
+		let emitted = 0;
+		previousModel.dataChange.subscribe(() => emitted++);
+		table.model = new TableModel();
+		spyOn(table, "refreshVirtualRows");
+
+		previousModel.dataChange.emit();
+		expect(emitted).toEqual(1);
+		expect(table.refreshVirtualRows).not.toHaveBeenCalled();
+
+		// switching back works, and the table listens to the model again
+		table.model = previousModel;
+		previousModel.dataChange.emit();
+		expect(emitted).toEqual(2);
+		expect(table.refreshVirtualRows).toHaveBeenCalledTimes(1);
+	});
+
 	it("should call the row sort function", () => {});
 
 	it("should call the row filter function", () => {});
@@ -103,4 +218,349 @@ describe("Table", () => {
 
 		expect(tableInstance.componentInstance.deselectRow.emit).toHaveBeenCalled();
 	});
+
+	it("should select a range of rows on shift-click", () => {
+		const table = tableInstance.componentInstance;
+		const model = fixture.componentInstance.tableModel;
+		spyOn(table.selectRow, "emit");
+
+		let checkboxes = fixture.nativeElement.querySelectorAll("td input[type='checkbox']");
+		checkboxes[0].click();
+		fixture.detectChanges();
+		// a shift-click on the checkbox of the last row
+		table.onRowSelect(3, {shiftKey: true});
+		model.rowsSelected[3] = true;
+		table.onRowCheckboxChange(3);
+
+		expect(model.rowsSelected).toEqual([true, true, true, true]);
+		expect(table.selectRow.emit).toHaveBeenCalledTimes(4);
+	});
+
+	it("should toggle rows on ctrl-click with single select", () => {
+		const table = tableInstance.componentInstance;
+		const model = fixture.componentInstance.tableModel;
+		table.showSelectionColumn = false;
+		table.enableSingleSelect = true;
+
+		table.onRowSelect(0, {});
+		table.onRowSelect(2, {ctrlKey: true});
+		expect(model.selectedRowIndexes()).toEqual([0, 2]);
+
+		table.onRowSelect(3, {shiftKey: true});
+		expect(model.selectedRowIndexes()).toEqual([2, 3]);
+
+		table.onRowSelect(1, {});
+		expect(model.selectedRowIndexes()).toEqual([1]);
+	});
+
+	it("should render only some of the rows with virtual scroll", () => {
+		fixture = TestBed.createComponent(VirtualTableTest);
+		fixture.detectChanges();
+
+		const rows = fixture.nativeElement.querySelectorAll("tbody tr[data-virtual-index]");
+		expect(rows.length).toBeGreaterThan(0);
+		expect(rows.length).toBeLessThan(1000);
+		expect(rows[0].getAttribute("data-virtual-index")).toEqual("0");
+	});
+
+	it("should edit cells of editable columns", () => {
+		fixture = TestBed.createComponent(EditableTableTest);
+		fixture.detectChanges();
+
+		const cells = fixture.debugElement.queryAll(By.css("tbody td[data-edit-cell]"));
+		expect(cells.length).toEqual(2);
+
+		cells[0].triggerEventHandler("dblclick", null);
+		fixture.detectChanges();
+		const table = fixture.debugElement.query(By.css("ibm-table")).componentInstance;
+		expect(table.isEditing(0, 0)).toBe(true);
+		expect(fixture.nativeElement.querySelector(".table_cell-editor input")).toBeTruthy();
+
+		table.editValue = "";
+		expect(table.commitEdit()).toBe(false);
+		expect(table.editInvalid).toBe(true);
+
+		table.editValue = "dolor";
+		expect(table.commitEdit()).toBe(true);
+		fixture.detectChanges();
+		expect(fixture.nativeElement.querySelector(".table_cell-editor")).toBeFalsy();
+		expect(fixture.componentInstance.tableModel.data[0][0].data).toEqual("dolor");
+		expect(fixture.componentInstance.edits.length).toEqual(1);
+		expect(fixture.componentInstance.edits[0].oldValue).toEqual("Lorem");
+		expect(fixture.componentInstance.edits[0].newValue).toEqual("dolor");
+	});
+
+	it("should not change cells when edit is cancelled", () => {
+		fixture = TestBed.createComponent(EditableTableTest);
+		fixture.detectChanges();
+
+		const table = fixture.debugElement.query(By.css("ibm-table")).componentInstance;
+		table.startEdit(1, 0);
+		table.editValue = "dolor";
+		table.cancelEdit();
+		fixture.detectChanges();
+
+		expect(table.editingCell).toBeNull();
+		expect(fixture.componentInstance.tableModel.data[1][0].data).toEqual("ipsum");
+		expect(fixture.componentInstance.edits.length).toEqual(0);
+	});
+
+	it("should copy selected cells and paste into editable cells", () => {
+		fixture = TestBed.createComponent(EditableTableTest);
+		fixture.detectChanges();
+		const table: Table = fixture.debugElement.query(By.css("ibm-table")).componentInstance;
+		table.cellSelection = true;
+		table.enablePaste = true;
+		const clipboard = {};
+		const clipboardEvent = (text?: string): any => ({
+			target: fixture.nativeElement.querySelector("table"),
+			clipboardData: {setData: (type, value) => clipboard[type] = value, getData: () => text},
+			preventDefault() {}
+		});
+
+		table.onCellMouseDown({button: 0, shiftKey: false} as any, 0, 0);
+		table.onCellMouseEnter(1, 1);
+		fixture.detectChanges();
+		expect(fixture.nativeElement.querySelectorAll("td.table_cell--selected").length).toEqual(4);
+
+		table.onCopy(clipboardEvent());
+		expect(clipboard["text/plain"]).toEqual("Lorem\t1\r\nipsum\t2");
+		expect(clipboard["text/html"]).toEqual("<table><tr><td>Lorem</td><td>1</td></tr><tr><td>ipsum</td><td>2</td></tr></table>");
+
+		table.selectedCells = {start: {row: 1, column: 0}, end: {row: 1, column: 0}};
+		table.onPaste(clipboardEvent("dolor\t5"));
+
+		expect(fixture.componentInstance.tableModel.data[1].map(item => item.data)).toEqual(["dolor", 2]);
+		expect(fixture.componentInstance.edits.map(edit => [edit.row, edit.column, edit.newValue])).toEqual([[1, 0, "dolor"]]);
+	});
+
+	it("should have a single tab stop in grid mode", () => {
+		fixture = TestBed.createComponent(GridTableTest);
+		fixture.detectChanges();
+
+		const table = fixture.nativeElement.querySelector("table");
+		expect(table.getAttribute("role")).toEqual("grid");
+		expect(table.querySelectorAll("tr[role=row]").length).toEqual(3);
+		expect(table.querySelectorAll("[tabindex='0']").length).toEqual(1);
+		expect(table.querySelector("th").getAttribute("tabindex")).toEqual("0");
+		expect(table.querySelector("td input").getAttribute("tabindex")).toEqual("-1");
+	});
+
+	it("should take the controls of new rows out of the tab order and put them back when grid mode turns off", () => {
+		fixture = TestBed.createComponent(GridTableTest);
+		fixture.detectChanges();
+		const table = fixture.nativeElement.querySelector("table");
+
+		fixture.componentInstance.tableModel.addRow([new TableItem({data: "dolor"}), new TableItem({data: 3})]);
+		fixture.detectChanges();
+		const inputs = Array.from(table.querySelectorAll("td input")) as HTMLElement[];
+		expect(inputs.length).toEqual(3);
+		expect(inputs.every(input => input.getAttribute("tabindex") === "-1")).toBe(true);
+		expect(table.querySelectorAll("[tabindex='0']").length).toEqual(1);
+
+		fixture.componentInstance.isDataGrid = false;
+		fixture.detectChanges();
+		expect(inputs.every(input => input.getAttribute("tabindex") === null)).toBe(true);
+		expect(table.querySelector("th").getAttribute("tabindex")).toBeNull();
+		expect(table.querySelector("th input").getAttribute("tabindex")).toBeNull();
+	});
+
+	it("should move between cells with arrow keys in grid mode", () => {
+		fixture = TestBed.createComponent(GridTableTest);
+		fixture.detectChanges();
+
+		const table = fixture.debugElement.query(By.css("table"));
+		const press = (key: string) => table.triggerEventHandler("keydown", {
+			key,
+			target: table.nativeElement.querySelector("[tabindex='0']"),
+			preventDefault: () => {}
+		});
+
+		press("ArrowDown");
+		press("ArrowRight");
+		expect(table.nativeElement.querySelector("[tabindex='0']").textContent.trim()).toEqual("Lorem");
+
+		press("End");
+		press("ArrowDown");
+		expect(table.nativeElement.querySelector("[tabindex='0']").textContent.trim()).toEqual("2");
+
+		press(" ");
+		expect(fixture.componentInstance.tableModel.rowsSelected[1]).toBe(true);
+	});
+
+	it("should make the header and frozen columns sticky", fakeAsync(() => {
+		fixture = TestBed.createComponent(FrozenTableTest);
+		fixture.detectChanges();
+		// the frozen columns are measured once they're rendered
+		tick();
+		fixture.detectChanges();
+
+		const headerCells = fixture.nativeElement.querySelectorAll("thead th");
+		const cells = fixture.nativeElement.querySelectorAll("tbody td");
+		// selection column is frozen along with the first column
+		expect(cells[0].classList.contains("table_cell--frozen")).toBe(true);
+		expect(cells[0].style.left).toEqual("0px");
+		expect(cells[1].classList.contains("table_cell--frozen")).toBe(true);
+		expect(cells[2].classList.contains("table_cell--frozen")).toBe(false);
+		expect(cells[2].style.left).toEqual("");
+		expect(cells[3].classList.contains("table_cell--frozen")).toBe(true);
+		expect(cells[3].style.right).toEqual("0px");
+		expect(headerCells[2].style.top).toEqual("0px");
+		expect(headerCells[3].style.zIndex).toEqual("3");
+
+		// the columns aren't measured again until they change
+		const table = fixture.debugElement.query(By.directive(Table)).componentInstance;
+		spyOn(table, "updateStickyCells").and.callThrough();
+		fixture.detectChanges();
+		tick();
+		expect(table.updateStickyCells).not.toHaveBeenCalled();
+
+		fixture.componentInstance.tableModel.header[0].frozen = undefined;
+		fixture.detectChanges();
+		tick();
+		fixture.detectChanges();
+		expect(table.updateStickyCells).toHaveBeenCalled();
+		expect(cells[1].classList.contains("table_cell--frozen")).toBe(false);
+		expect(cells[1].style.position).toEqual("");
+	}));
+
+	it("should show the filter button for built-in filters", () => {
+		fixture.componentInstance.tableModel.header = [new TextFilterHeaderItem({data: "Column"})];
+		fixture.detectChanges();
+
+		expect(fixture.nativeElement.querySelector("th button[aria-haspopup]")).toBeTruthy();
+	});
+
+	it("should render group header rows and hide collapsed groups", () => {
+		const model = fixture.componentInstance.tableModel;
+		model.header = [new TableHeaderItem({data: "Team"}), new TableHeaderItem({data: "Name"})];
+		model.data = [
+			[new TableItem({data: "A"}), new TableItem({data: "Ann"})],
+			[new TableItem({data: "B"}), new TableItem({data: "Bob"})],
+			[new TableItem({data: "A"}), new TableItem({data: "Cid"})]
+		];
+		model.groupBy([0]);
+		fixture.detectChanges();
+
+		let groupRows = fixture.nativeElement.querySelectorAll("tbody tr.table_group-row");
+		expect(groupRows.length).toEqual(2);
+		expect(groupRows[0].textContent.replace(/\s+/g, " ").trim()).toEqual("Team: A (2)");
+		expect(fixture.nativeElement.querySelectorAll("tbody tr").length).toEqual(5);
+
+		groupRows[0].querySelector("button").click();
+		fixture.detectChanges();
+
+		expect(fixture.nativeElement.querySelectorAll("tbody tr").length).toEqual(3);
+	});
+
+	it("should render the summary row", () => {
+		const model = fixture.componentInstance.tableModel;
+		model.header = [new TableHeaderItem({data: "Name", aggregate: "count"}), new TableHeaderItem({data: "Amount", aggregate: "sum"})];
+		model.data = [
+			[new TableItem({data: "Ann"}), new TableItem({data: 1})],
+			[new TableItem({data: "Bob"}), new TableItem({data: 2})]
+		];
+		fixture.detectChanges();
+
+		const cells = fixture.nativeElement.querySelectorAll("tfoot tr.table_summary-row td");
+		expect(Array.from(cells).map((cell: HTMLElement) => cell.textContent.trim())).toEqual(["", "2", "3"]);
+	});
+
+	it("should render child rows under a toggle", () => {
+		const model = fixture.componentInstance.tableModel;
+		model.setTreeData([
+			{row: [new TableItem({data: "src"})], children: [{row: [new TableItem({data: "index.ts"})]}]},
+			{row: [new TableItem({data: "docs"})]}
+		]);
+		fixture.detectChanges();
+
+		expect(fixture.nativeElement.querySelectorAll("tbody tr").length).toEqual(2);
+
+		fixture.nativeElement.querySelector(".table_tree-toggle button").click();
+		fixture.detectChanges();
+
+		const rows = fixture.nativeElement.querySelectorAll("tbody tr");
+		expect(rows.length).toEqual(3);
+		expect(rows[1].textContent.trim()).toEqual("index.ts");
+		expect(rows[1].querySelector(".table_tree-toggle").style.paddingLeft).toEqual("1.5rem");
+	});
+
+	it("should resize and move columns with the keyboard", () => {
+		const model = fixture.componentInstance.tableModel;
+		model.header = [new TableHeaderItem({data: "Name", maxWidth: 165}), new TableHeaderItem({data: "Amount"})];
+		model.data = [[new TableItem({data: "Ann"}), new TableItem({data: 1})]];
+		const table: Table = fixture.debugElement.query(By.css("ibm-table")).componentInstance;
+		table.columnsResizable = true;
+		table.columnsDraggable = true;
+		fixture.detectChanges();
+		const resized = [];
+		const moved = [];
+		table.columnResize.subscribe(event => resized.push([event.column, event.width]));
+		table.columnMove.subscribe(event => moved.push([event.from, event.to]));
+		const key = (key: string, altKey = false, shiftKey = false) =>
+			({key, altKey, shiftKey, preventDefault: () => {}, stopPropagation: () => {}}) as any;
+
+		table.onColumnResizeKeydown(key("ArrowRight"), 0);
+		table.onColumnResizeKeydown(key("ArrowRight"), 0);
+		table.onColumnResizeKeydown(key("Home"), 0);
+		table.onColumnHeaderKeydown(key("ArrowLeft", true, true), 1);
+		fixture.detectChanges();
+
+		expect(resized).toEqual([[0, 160], [0, 165], [0, 50], [1, 140]]);
+		expect(fixture.nativeElement.querySelector(".column-resize-handle").getAttribute("aria-valuenow")).toEqual("50");
+
+		table.onColumnHeaderKeydown(key("ArrowRight", true), 0);
+		table.onColumnHeaderKeydown(key("ArrowRight", true), 1);
+
+		expect(moved).toEqual([[0, 1]]);
+		expect(model.header.map(column => column.data)).toEqual(["Amount", "Name"]);
+		expect(model.row(0).map(item => item.data)).toEqual([1, "Ann"]);
+	});
+
+	it("should format and style cells", () => {
+		const model = fixture.componentInstance.tableModel;
+		model.header = [new TableHeaderItem({
+			data: "Size",
+			format: "bytes",
+			locale: "en-US",
+			cellStyleRules: [{condition: data => data > 1024 * 1024, context: "warning"}]
+		})];
+		model.data = [[new TableItem({data: 2048})], [new TableItem({data: 3 * 1024 * 1024})]];
+		fixture.detectChanges();
+
+		const cells = fixture.nativeElement.querySelectorAll("tbody td:last-child");
+		expect(cells[0].textContent.trim()).toEqual("2 KB");
+		expect(cells[0].classList.contains("table_cell--warning")).toBe(false);
+		expect(cells[1].textContent.trim()).toEqual("3 MB");
+		expect(cells[1].classList.contains("table_cell--warning")).toBe(true);
+	});
+
+	it("should make the model from rows and declared columns", () => {
+		fixture = TestBed.createComponent(DeclarativeTableTest);
+		fixture.detectChanges();
+		const host = fixture.componentInstance;
+		const table: Table = fixture.debugElement.query(By.css("ibm-table")).componentInstance;
+		const cells = () => Array.from(fixture.nativeElement.querySelectorAll("tbody td:not(:first-child)"))
+			.map((cell: HTMLElement) => cell.textContent.trim());
+
+		expect(table.model.header.map(column => column.data)).toEqual(["Name", "City"]);
+		expect(cells()).toEqual(["Bob", "Oslo", "Ann", "Rome"]);
+
+		const sortButton = fixture.nativeElement.querySelector("th .bx--table-sort-v2");
+		sortButton.click();
+		fixture.detectChanges();
+		expect(cells()).toEqual(["Ann", "Rome", "Bob", "Oslo"]);
+		expect(sortButton.parentElement.getAttribute("aria-sort")).toEqual("ascending");
+		expect(sortButton.getAttribute("aria-sort")).toBeNull();
+		table.model.selectRow(0);
+
+		host.users.push({name: "Cid", address: {city: "Bern"}});
+		host.cityHeader = "Town";
+		fixture.detectChanges();
+
+		expect(table.model.header[1].data).toEqual("Town");
+		expect(cells()).toEqual(["Ann", "Rome", "Bob", "Oslo", "Cid", "Bern"]);
+		expect(table.model.rowsSelected).toEqual([true, false, false]);
+		expect(table.rowObject(0)).toBe(host.users[1]);
+	});
 });
@@ -4,13 +4,39 @@ import {
 	Input,
 	Output,
 	EventEmitter,
-	TemplateRef
+	TemplateRef,
+	ElementRef,
+	OnChanges,
+	SimpleChanges,
+	AfterContentInit,
+	AfterViewInit,
+	AfterViewChecked,
+	DoCheck,
+	ViewChild,
+	ViewChildren,
+	ContentChildren,
+	QueryList,
+	IterableDiffers
 } from "@angular/core";
-import { Subscription, fromEvent } from "rxjs";
+import { Subscription, fromEvent, merge } from "rxjs";
 
-import { TableModel } from "./table.module";
+import {
+	TableModel,
+	TableItem,
+	TableHeaderItem,
+	TextFilterHeaderItem,
+	NumberRangeFilterHeaderItem,
+	DateRangeFilterHeaderItem,
+	SelectFilterHeaderItem,
+	TableRowGroup,
+	TableCellRange,
+	TableCellPosition
+} from "./table.module";
+import { TableColumn } from "./table-column.directive";
 import { getScrollbarWidth } from "../common/utils";
+import { findNextElem, findPrevElem } from "../utils/a11y";
 import { I18n } from "./../i18n/i18n.module";
+import { ListItem } from "./../dropdown/dropdown.module";
 
 /**
  * Build your table with this component by extending things that differ from default.
@@ -42,6 +68,23 @@ import { I18n } from "./../i18n/i18n.module";
  * ];
  * ```
  *
+ * ## Declaring columns
+ *
+ * Instead of building a `TableModel`, give the table plain objects as `rows` and declare the columns
+ * with `ibm-table-column`s. The table makes its `model` from them, and updates it whenever `rows`
+ * gets replaced or changed in place, keeping the sort order and the selected rows.
+ *
+ * ```html
+ * <ibm-table [rows]="users">
+ * 	<ibm-table-column field="name" header="Name" sortable></ibm-table-column>
+ * 	<ibm-table-column field="address.city" header="City" sortable></ibm-table-column>
+ * 	<ibm-table-column header="Actions" [cellTemplate]="actionsTemplate"></ibm-table-column>
+ * </ibm-table>
+ * ```
+ *
+ * Sortable columns sort the rows on their own, unless you handle `sort`. The generated model is
+ * still there as `table.model`, and `table.rowObject(index)` gives you the object of a row.
+ *
  * ## Customization
  *
  * If you have custom data in your table, you need a way to display it. You can do that
@@ -104,6 +147,60 @@ import { I18n } from "./../i18n/i18n.module";
  *
  * See `TableHeaderItem` class for more information.
  *
+ * ### Built-in filters
+ *
+ * `TextFilterHeaderItem`, `NumberRangeFilterHeaderItem`, `DateRangeFilterHeaderItem` and
+ * `SelectFilterHeaderItem` filter by text, numeric range, date range and selected values,
+ * and come with a default filter popover.
+ *
+ * ```typescript
+ * this.model.header = [
+ * 	new TextFilterHeaderItem({data: "Name"}),
+ * 	new SelectFilterHeaderItem({data: "Status", options: ["Active", "Inactive"]})
+ * ];
+ * ```
+ *
+ * Use `model.clearFilters()` to clear the filters of all the columns.
+ *
+ * ### Sorting by multiple columns
+ *
+ * Shift-click on a sortable header emits `multiSort` with the column index. Add the column as
+ * the next sort key with `model.sort(index, true)`. Sorted headers show their priority when
+ * sorting by more than one column.
+ *
+ * ```html
+ * <ibm-table [model]="model" (sort)="model.sort($event)" (multiSort)="model.sort($event, true)"></ibm-table>
+ * ```
+ *
+ * `model.sortKeys` returns the list of active sort keys, that you can store or send to your
+ * server. Use `model.sortBy(keys)` to restore it.
+ *
+ * ## Saving the view
+ *
+ * Set `viewStateStorage` and `viewStateKey` of the model to remember how users set up the table.
+ * The table saves the order, widths and visibility of the columns, sorting, grouping and filters
+ * whenever users change them, and `restoreViewState()` brings them back.
+ *
+ * ```typescript
+ * this.model.header = [new TableHeaderItem({data: "Name"}), new TableHeaderItem({data: "Amount", id: "amount"})];
+ * this.model.viewStateStorage = new LocalStorageTableViewStateStorage();
+ * this.model.viewStateKey = "invoices";
+ * this.model.restoreViewState();
+ * ```
+ *
+ * `getViewState()` and `setViewState()` give you the `TableViewState` itself, to share a view as JSON for example.
+ * Implement `TableViewStateStorage` to store the views anywhere else.
+ *
+ * ## Selecting rows
+ *
+ * Shift-click selects all the rows between the last clicked row and the clicked one. With `enableSingleSelect`
+ * ctrl/cmd-click adds or removes a row from the selection instead of replacing it.
+ *
+ * The header checkbox selects the rows shown, leaving out the rows that are filtered out. For paginated tables
+ * set `selectAcrossPages` to offer selecting the rows on the other pages too.
+ *
+ * `TableModel.selectedRows()` and `TableModel.selectedRowsData()` return the selected rows.
+ *
  * ## No data template
  *
  * When table has no data to show, it can show a message you provide it instead.
@@ -154,6 +251,201 @@ import { I18n } from "./../i18n/i18n.module";
  * }
  * ```
  *
+ * ## Data sources
+ *
+ * Instead of handling `selectPage` and `sort` yourself, you can give the model a `dataSource`.
+ * Sorting, filtering and paging are then delegated to it, `model.isLoading` is `true` while
+ * the data is loading, and responses to outdated requests are discarded. Failed requests set
+ * `model.loadingError` and emit it with `model.dataError`, so you can tell users about them.
+ *
+ * ```typescript
+ * this.model.dataSource = new RemoteTableDataSource(request => this.service.getRows(request));
+ * this.model.pageLength = 10;
+ * this.model.loadPage(1);
+ * ```
+ *
+ * ```html
+ * <ibm-table [model]="model" (sort)="model.sort($event)"></ibm-table>
+ * <ibm-pagination [model]="model"></ibm-pagination>
+ * ```
+ *
+ * `InMemoryTableDataSource` works the same way with data you already have.
+ * See `TableDataSource` for more information.
+ *
+ * ## Inline editing
+ *
+ * Cells of columns with `editor` or `editTemplate` set in their `TableHeaderItem` can be edited
+ * in place. Double click or press Enter on a cell to open the editor, Escape cancels the edit,
+ * Enter commits it and moves to the cell below, Tab to the next editable cell.
+ *
+ * ```typescript
+ * this.model.header = [
+ * 	new TableHeaderItem({data: "Name", editor: "text", validate: value => !!value}),
+ * 	new TableHeaderItem({data: "Status", editor: "dropdown", editOptions: ["Active", "Inactive"]})
+ * ];
+ * ```
+ *
+ * Values that don't pass `validate()` of the column keep the editor open. Valid values are saved
+ * to the `TableItem` and `cellEdit` is emitted with the old and the new value, so you can persist
+ * the change or reject it by restoring the old value.
+ *
+ * ```typescript
+ * onCellEdit({item, oldValue, newValue}) {
+ * 	this.service.save(newValue).subscribe(null, () => item.data = oldValue);
+ * }
+ * ```
+ *
+ * ## Sticky header and frozen columns
+ *
+ * Set `stickyHeader` to keep the header row in view, and `frozen` of a `TableHeaderItem` to `"left"`
+ * or `"right"` to keep the column in view. The cells are positioned with `position: sticky`, so put
+ * the table in an element that scrolls and give the cells a background.
+ *
+ * ```html
+ * <div style="max-height: 400px; overflow: auto;">
+ * 	<ibm-table [model]="model" [stickyHeader]="true"></ibm-table>
+ * </div>
+ * ```
+ *
+ * ```typescript
+ * this.model.header = [
+ * 	new TableHeaderItem({data: "Name", frozen: "left"}),
+ * 	// ...
+ * 	new TableHeaderItem({data: "Actions", frozen: "right"})
+ * ];
+ * ```
+ *
+ * Cells of the frozen columns get the `table_cell--frozen` class.
+ *
+ * ## Resizing and moving columns
+ *
+ * Set `columnsResizable` to let users resize the columns by dragging the edge of the header, and `columnsDraggable`
+ * to let them move the columns by dragging the headers. Both work with a mouse, a touch and a pen.
+ *
+ * From the keyboard, left and right arrows on the focused resize handle resize the column, and Home and End
+ * resize it to its `minWidth` and `maxWidth`. Alt + left and right arrows in the header move the column,
+ * alt + shift + left and right arrows resize it.
+ *
+ * ```html
+ * <ibm-table
+ * 	[model]="model"
+ * 	[columnsResizable]="true"
+ * 	[columnsDraggable]="true"
+ * 	(columnResize)="onColumnResize($event)"
+ * 	(columnMove)="onColumnMove($event)">
+ * </ibm-table>
+ * ```
+ *
+ * ## Formatting cells
+ *
+ * Set `format` of the `TableHeaderItem` to format the numbers, currencies, percentages, dates or byte sizes
+ * in the column, and `cellStyleRules` to highlight some of its cells.
+ *
+ * ```typescript
+ * new TableHeaderItem({
+ * 	data: "Balance",
+ * 	format: "currency",
+ * 	formatOptions: {currency: "EUR"},
+ * 	locale: "de-DE",
+ * 	cellStyleRules: [{condition: data => data < 0, context: "error"}]
+ * })
+ * ```
+ *
+ * Rules with a `context` add the `table_cell--success`, `table_cell--warning`, `table_cell--info` or
+ * `table_cell--error` class to the cells.
+ *
+ * ## Keyboard navigation
+ *
+ * Set `isDataGrid` to `true` to turn the table into an ARIA grid. The whole table is then a single
+ * tab stop, and the cells are navigated with the keyboard:
+ *
+ * - arrow keys move between cells
+ * - Home and End move to the first and the last cell of the row, with Ctrl to the first and the last cell of the table
+ * - Page Up and Page Down move up and down by the number of rows that fit in the view
+ * - Space toggles selection of the row (or all the rows in the header)
+ * - Enter activates the sort button in the header, the expand button or the editor of the cell
+ *
+ * ```html
+ * <ibm-table [model]="model" [isDataGrid]="true"></ibm-table>
+ * ```
+ *
+ * ## Virtual scrolling
+ *
+ * For tables with thousands of rows set `virtualScroll` to `true`. The table then renders only the rows
+ * that are scrolled into view, plus `virtualBuffer` rows above and below them. Same as with `scrollLoad`,
+ * `tbody` is the element that scrolls, so give it a fixed height.
+ *
+ * ```html
+ * <ibm-table [model]="model" [virtualScroll]="true" (scrollLoad)="loadMore($event)"></ibm-table>
+ * ```
+ *
+ * Rendered rows are measured, so expanded rows and rows of different heights are supported.
+ * `virtualRowHeight` is used as an estimate for rows that haven't been rendered yet.
+ *
+ * ## Row grouping
+ *
+ * Rows with the same values in one or more columns can be grouped under collapsible group header rows.
+ *
+ * ```typescript
+ * // group by the first column, and by the third column within those groups
+ * this.model.groupBy([0, 2]);
+ * // show a summary of the group next to its row count
+ * this.model.groupAggregate = rows => `Total: ${rows.reduce((sum, row) => sum + row[1].data, 0)}`;
+ * ```
+ *
+ * The group header row shows the value of the group and how many of its rows aren't filtered out.
+ * Its checkbox selects all the rows of the group. Sorting still applies, within the groups.
+ * Grouping isn't supported together with `virtualScroll`.
+ *
+ * ## Tree tables
+ *
+ * Rows can have child rows with the same columns, shown indented under a toggle in the first visible column.
+ *
+ * ```typescript
+ * this.model.setTreeData([
+ * 	{row: [new TableItem({data: "src"}), new TableItem({data: "4 KB"})], children: [
+ * 		{row: [new TableItem({data: "index.ts"}), new TableItem({data: "1 KB"})]}
+ * 	]},
+ * 	{row: [new TableItem({data: "node_modules"}), new TableItem({data: "200 MB"})], hasChildren: true}
+ * ]);
+ * // called the first time "node_modules" is expanded
+ * this.model.loadChildRows = row => this.loadFolder(row[0].data);
+ * ```
+ *
+ * Sorting sorts the child rows of every row separately, and parent rows of the rows matching the filters stay in the table.
+ * Row grouping isn't supported together with tree tables.
+ *
+ * ## Column aggregates
+ *
+ * Set `aggregate` of a header item to show a summary row in the table footer with the aggregate of
+ * the column over the rows that aren't filtered out. With grouped rows every group gets a summary row too.
+ *
+ * ```typescript
+ * this.model.header = [
+ * 	new TableHeaderItem({data: "Name", aggregate: "count"}),
+ * 	new TableHeaderItem({data: "Amount", aggregate: "sum"}),
+ * 	new TableHeaderItem({data: "Rate", aggregate: "avg", aggregateTemplate: this.percentTemplate})
+ * ];
+ * ```
+ *
+ * `"sum"`, `"avg"`, `"min"`, `"max"`, `"count"` and `"distinct"` are built in, pass a function for a custom one.
+ * `TableModel.aggregates()` returns the same values for use outside of the table.
+ *
+ * ## Copying and pasting cells
+ *
+ * Set `cellSelection` to select a range of cells by dragging over them, shift-clicking a cell, or with
+ * shift + arrow keys when `isDataGrid` is on. Selected cells get the `table_cell--selected` class.
+ * Ctrl/Cmd + C copies the range, or the selected rows if there's none, as TSV and as an HTML table,
+ * so it can be pasted into spreadsheets.
+ *
+ * Set `enablePaste` to paste TSV blocks copied from spreadsheets into the editable columns, starting at
+ * the top left cell of the range or the focused cell. Values are parsed with `parseValue()` and checked
+ * with `validate()` of the columns, and `cellEdit` is emitted for every changed cell.
+ *
+ * ```html
+ * <ibm-table [model]="model" [cellSelection]="true" [enablePaste]="true" (cellEdit)="onCellEdit($event)"></ibm-table>
+ * ```
+ *
  * @export
  * @class Table
  * @implements {AfterContentChecked}
@@ -167,11 +459,34 @@ import { I18n } from "./../i18n/i18n.module";
 		'bx--data-table-v2--compact': size === 'sm',
 		'bx--data-table-v2--tall': size === 'lg',
 		'bx--data-table-v2--zebra': striped
-	}">
+	}"
+	[attr.role]="(isDataGrid ? (model.hasTreeRows() ? 'treegrid' : 'grid') : null)"
+	[attr.aria-multiselectable]="(isDataGrid && cellSelection ? true : null)"
+	[attr.tabindex]="((cellSelection || enablePaste) && !isDataGrid ? -1 : null)"
+	[style.outline]="((cellSelection || enablePaste) && !isDataGrid ? 'none' : null)"
+	(keydown)="onGridKeydown($event)"
+	(focusin)="onGridFocusIn($event)"
+	(copy)="onCopy($event)"
+	(paste)="onPaste($event)">
 		<thead>
-			<tr>
-				<th *ngIf="model.hasExpandableRows()"></th>
-				<th *ngIf="showSelectionColumn">
+			<tr #gridRow [attr.role]="(isDataGrid ? 'row' : null)" [attr.aria-rowindex]="(isDataGrid ? 1 : null)">
+				<th
+					*ngIf="model.hasExpandableRows()"
+					[attr.role]="(isDataGrid ? 'columnheader' : null)"
+					[class.table_cell--frozen]="!!stickyCells.expand"
+					[style.position]="stickyPosition('expand', true)"
+					[style.top.px]="(stickyHeader ? 0 : null)"
+					[style.left.px]="stickyOffset('expand', 'left')"
+					[style.z-index]="stickyZIndex('expand', true)">
+				</th>
+				<th
+					*ngIf="showSelectionColumn"
+					[attr.role]="(isDataGrid ? 'columnheader' : null)"
+					[class.table_cell--frozen]="!!stickyCells.select"
+					[style.position]="stickyPosition('select', true)"
+					[style.top.px]="(stickyHeader ? 0 : null)"
+					[style.left.px]="stickyOffset('select', 'left')"
+					[style.z-index]="stickyZIndex('select', true)">
 					<ibm-checkbox
 						[size]="size !== ('lg' ? 'sm' : 'md')"
 						[(ngModel)]="selectAllCheckbox"
@@ -181,26 +496,48 @@ import { I18n } from "./../i18n/i18n.module";
 					</ibm-checkbox>
 				</th>
 				<ng-container *ngFor="let column of model.header; let i = index">
-					<th [ngClass]='{"thead_action": column.filterTemplate || this.sort.observers.length > 0}'
+					<th [ngClass]='{"thead_action": filterTemplateFor(column) || sortEnabled}'
 					*ngIf="column.visible"
+					[attr.role]="(isDataGrid ? 'columnheader' : null)"
+					[attr.aria-sort]="(column.sorted ? (column.ascending ? 'ascending' : 'descending') : null)"
 					[class]="column.className"
 					[ngStyle]="column.style"
+					[attr.data-column-index]="i"
+					[style.touch-action]="(columnsDraggable ? 'pan-y' : null)"
+					[class.table_cell--frozen]="!!stickyCells[i]"
+					[style.position]="stickyPosition(i, true)"
+					[style.top.px]="(stickyHeader ? 0 : null)"
+					[style.left.px]="stickyOffset(i, 'left')"
+					[style.right.px]="stickyOffset(i, 'right')"
+					[style.z-index]="stickyZIndex(i, true)"
 					[draggable]="columnsDraggable"
 					(dragstart)="columnDragStart($event, i)"
-					(dragend)="columnDragEnd($event, i)">
+					(dragend)="columnDragEnd($event, i)"
+					(pointerdown)="columnPointerDown($event, i)"
+					(keydown)="onColumnHeaderKeydown($event, i)">
 						<div
 						*ngIf="columnsResizable"
 						class="column-resize-handle"
-						(mousedown)="columnResizeStart($event, column)">
+						role="separator"
+						aria-orientation="vertical"
+						tabindex="0"
+						style="touch-action: none;"
+						[attr.aria-label]="translations.RESIZE_COLUMN"
+						[attr.aria-valuenow]="columnWidth(i)"
+						[attr.aria-valuemin]="column.minWidth"
+						[attr.aria-valuemax]="column.maxWidth"
+						(pointerdown)="columnResizeStart($event, column)"
+						(mousedown)="columnResizeStart($event, column)"
+						(keydown)="onColumnResizeKeydown($event, i)">
 						</div>
 						<button
 							class="bx--table-sort-v2"
-							*ngIf="this.sort.observers.length > 0 && column.sortable"
+							*ngIf="sortEnabled && column.sortable"
 							[ngClass]="{
 								'bx--table-sort-v2--active': column.sorted,
 								'bx--table-sort-v2--ascending': column.ascending
 							}"
-							(click)="sort.emit(i)">
+							(click)="onSortClick($event, i)">
 							<span *ngIf="!column.template" [title]="column.data">{{column.data}}</span>
 							<ng-template
 								[ngTemplateOutlet]="column.template" [ngTemplateOutletContext]="{data: column.data}">
@@ -213,10 +550,16 @@ import { I18n } from "./../i18n/i18n.module";
 								<title>{{(column.sorted && column.ascending ? sortDescendingLabel : sortAscendingLabel)}}</title>
 								<path d="M0 0l5 4.998L10 0z" fill-rule="evenodd" />
 							</svg>
+							<span
+								*ngIf="column.sorted && model.sortKeys.length > 1"
+								class="bx--table-sort-v2__priority"
+								[title]="translations.SORT_PRIORITY">
+								{{model.sortPriority(i)}}
+							</span>
 						</button>
 						<span
 							class="bx--table-header-label"
-							*ngIf="this.sort.observers.length === 0 || (this.sort.observers.length > 0 && !column.sortable)">
+							*ngIf="!sortEnabled || !column.sortable">
 							<span *ngIf="!column.template" [title]="column.data">{{column.data}}</span>
 							<ng-template
 								[ngTemplateOutlet]="column.template" [ngTemplateOutletContext]="{data: column.data}">
@@ -224,15 +567,16 @@ import { I18n } from "./../i18n/i18n.module";
 						</span>
 						<button
 							[ngClass]="{'active': column.filterCount > 0}"
-							*ngIf="column.filterTemplate"
+							*ngIf="filterTemplateFor(column)"
 							type="button"
 							aria-expanded="false"
 							aria-haspopup="true"
-							[ibmTooltip]="column.filterTemplate"
+							[ibmTooltip]="filterTemplateFor(column)"
 							trigger="click"
 							[title]="translations.FILTER"
 							placement="bottom,top"
-							[data]="column.filterData">
+							[data]="(column.filterTemplate ? column.filterData : column)"
+							(onClose)="onFilterClose()">
 							<svg
 								xmlns="http://www.w3.org/2000/svg"
 								class="icon--sm"
@@ -278,74 +622,373 @@ import { I18n } from "./../i18n/i18n.module";
 		*ngIf="!noData; else noDataTemplate"
 		[ngStyle]="{'overflow-y': 'scroll'}"
 		(scroll)="onScroll($event)">
-			<ng-container *ngFor="let row of model.data; let i = index">
-				<tr *ngIf="!model.isRowFiltered(i)"
-					(click)="onRowSelect(i)"
-					[attr.data-parent-row]="(model.isRowExpandable(i) ? 'true' : null)"
-					[ngClass]="{
-						'bx--data-table-v2--selected': model.rowsSelected[i],
-						'bx--parent-row-v2': model.isRowExpandable(i),
-						'bx--expandable-row-v2': model.rowsExpanded[i],
-						'tbody_row--selectable': enableSingleSelect,
-						'tbody_row--success': !model.rowsSelected[i] && model.rowsContext[i] === 'success',
-						'tbody_row--warning': !model.rowsSelected[i] && model.rowsContext[i] === 'warning',
-						'tbody_row--info': !model.rowsSelected[i] && model.rowsContext[i] === 'info',
-						'tbody_row--error': !model.rowsSelected[i] && model.rowsContext[i] === 'error'
-					}">
-					<td
-					*ngIf="model.hasExpandableRows()"
-					class="bx--table-expand-v2"
-					[attr.data-previous-value]="(model.rowsExpanded[i] ? 'collapsed' : null)">
+			<tr
+				*ngIf="selectAcrossPages && showSelectionColumn && selectAllCheckbox &&
+					(model.allPagesSelected || model.totalDataLength > model.selectedRowsCount())"
+				class="table_select-all-pages">
+				<td [attr.colspan]="columnCount()">
+					<ng-container *ngIf="!model.allPagesSelected">
+						{{model.selectedRowsCount()}} {{translations.ROWS_SELECTED_ON_PAGE}}
+						<button type="button" class="bx--btn bx--btn--ghost bx--btn--sm" (click)="model.selectAllPages()">
+							{{translations.SELECT_ALL_PAGES}} ({{model.totalDataLength}})
+						</button>
+					</ng-container>
+					<ng-container *ngIf="model.allPagesSelected">
+						{{translations.ALL_PAGES_SELECTED}}
+						<button type="button" class="bx--btn bx--btn--ghost bx--btn--sm" (click)="clearSelection()">
+							{{translations.CLEAR_SELECTION}}
+						</button>
+					</ng-container>
+				</td>
+			</tr>
+			<ng-container *ngIf="!virtualScroll && model.groups.length">
+				<ng-template
+					[ngTemplateOutlet]="groupsTemplate"
+					[ngTemplateOutletContext]="{groups: model.groups}">
+				</ng-template>
+			</ng-container>
+			<ng-container *ngIf="!virtualScroll && !model.groups.length">
+				<ng-container *ngFor="let row of model.data; let i = index; trackBy: trackByRow">
+					<ng-template
+						[ngTemplateOutlet]="rowTemplate"
+						[ngTemplateOutletContext]="{row: row, index: i}">
+					</ng-template>
+				</ng-container>
+			</ng-container>
+			<ng-container *ngIf="virtualScroll">
+				<tr class="table_virtual-spacer" [ngStyle]="{'height.px': virtualOffsetTop}"></tr>
+				<ng-container *ngFor="let i of virtualRowIndexes; trackBy: trackByVirtualRow">
+					<ng-template
+						[ngTemplateOutlet]="rowTemplate"
+						[ngTemplateOutletContext]="{row: model.data[i], index: i}">
+					</ng-template>
+				</ng-container>
+				<tr class="table_virtual-spacer table_virtual-spacer--bottom" [ngStyle]="{'height.px': virtualOffsetBottom}"></tr>
+			</ng-container>
+		</tbody>
+		<ng-template #groupsTemplate let-groups="groups">
+			<ng-container *ngFor="let group of groups; trackBy: trackByGroup">
+				<tr
+					#gridRow
+					*ngIf="groupRowCount(group) > 0"
+					class="bx--parent-row-v2 table_group-row"
+					data-parent-row="true"
+					[attr.role]="(isDataGrid ? 'row' : null)"
+					[attr.aria-expanded]="group.expanded"
+					[attr.data-group-level]="group.level"
+					[ngClass]="{'bx--expandable-row-v2': group.expanded}">
+					<td class="bx--table-expand-v2" [attr.role]="(isDataGrid ? 'gridcell' : null)">
 						<button
-						*ngIf="model.isRowExpandable(i)"
-						(click)="model.expandRow(i, !model.rowsExpanded[i])"
-						[attr.aria-label]="expandButtonAriaLabel"
-            [title]="expandButtonAriaLabel"
-						class="bx--table-expand-v2__button">
+							(click)="model.expandGroup(group, !group.expanded)"
+							[attr.aria-label]="expandButtonAriaLabel"
+							[title]="expandButtonAriaLabel"
+							class="bx--table-expand-v2__button">
 							<svg class="bx--table-expand-v2__svg" width="7" height="12" viewBox="0 0 7 12">
 								<path fill-rule="nonzero" d="M5.569 5.994L0 .726.687 0l6.336 5.994-6.335 6.002L0 11.27z" />
 							</svg>
 						</button>
 					</td>
-					<td *ngIf="showSelectionColumn">
+					<td *ngIf="showSelectionColumn" [attr.role]="(isDataGrid ? 'gridcell' : null)">
 						<ibm-checkbox
-							aria-label="Select row"
+							[attr.aria-label]="translations.SELECT_GROUP"
 							[size]="size !== ('lg' ? 'sm' : 'md')"
-							[(ngModel)]="model.rowsSelected[i]"
-							(change)="onRowCheckboxChange(i)">
+							[checked]="model.isGroupSelected(group)"
+							[indeterminate]="isGroupIndeterminate(group)"
+							(change)="onGroupCheckboxChange(group, $event.checked)">
 						</ibm-checkbox>
 					</td>
-					<ng-container *ngFor="let item of row; let i = index">
-						<td *ngIf="model.header[i].visible"
-							[class]="model.header[i].className"
-							[ngStyle]="model.header[i].style">
-							<ng-container *ngIf="!item.template">{{item.data}}</ng-container>
+					<td
+						class="table_group-cell"
+						[attr.colspan]="visibleColumnCount()"
+						[attr.role]="(isDataGrid ? 'gridcell' : null)"
+						[ngStyle]="{'padding-left.rem': group.level + 1}">
+						<strong>{{model.header[group.column].data}}:</strong>&nbsp;
+						<ng-container *ngIf="!group.item.template">{{model.header[group.column].formatData(group.item.data, group.item)}}</ng-container>
+						<ng-template
+							[ngTemplateOutlet]="group.item.template" [ngTemplateOutletContext]="{data: group.item.data}">
+						</ng-template>
+						({{groupRowCount(group)}})
+						<span *ngIf="model.groupAggregate" class="table_group-aggregate">{{model.groupAggregate(groupRows(group), group)}}</span>
+					</td>
+				</tr>
+				<ng-container *ngIf="group.expanded && group.groups.length">
+					<ng-template
+						[ngTemplateOutlet]="groupsTemplate"
+						[ngTemplateOutletContext]="{groups: group.groups}">
+					</ng-template>
+				</ng-container>
+				<ng-container *ngIf="group.expanded && !group.groups.length">
+					<ng-container *ngFor="let i of group.rows; trackBy: trackByVirtualRow">
+						<ng-template
+							[ngTemplateOutlet]="rowTemplate"
+							[ngTemplateOutletContext]="{row: model.data[i], index: i}">
+						</ng-template>
+					</ng-container>
+				</ng-container>
+				<tr
+					#gridRow
+					*ngIf="model.hasAggregates() && groupRowCount(group) > 0"
+					class="table_summary-row table_group-summary-row"
+					[attr.role]="(isDataGrid ? 'row' : null)">
+					<ng-template
+						[ngTemplateOutlet]="summaryCellsTemplate"
+						[ngTemplateOutletContext]="{values: model.aggregates(group.rows)}">
+					</ng-template>
+				</tr>
+			</ng-container>
+		</ng-template>
+		<ng-template #summaryCellsTemplate let-values="values">
+			<td
+				*ngIf="model.hasExpandableRows()"
+				[attr.role]="(isDataGrid ? 'gridcell' : null)"
+				[class.table_cell--frozen]="!!stickyCells.expand"
+				[style.position]="stickyPosition('expand')"
+				[style.left.px]="stickyOffset('expand', 'left')"
+				[style.z-index]="stickyZIndex('expand')">
+			</td>
+			<td
+				*ngIf="showSelectionColumn"
+				[attr.role]="(isDataGrid ? 'gridcell' : null)"
+				[class.table_cell--frozen]="!!stickyCells.select"
+				[style.position]="stickyPosition('select')"
+				[style.left.px]="stickyOffset('select', 'left')"
+				[style.z-index]="stickyZIndex('select')">
+			</td>
+			<ng-container *ngFor="let column of model.header; let j = index">
+				<td *ngIf="column.visible"
+					[class]="column.className"
+					[ngStyle]="column.style"
+					[class.table_cell--frozen]="!!stickyCells[j]"
+					[style.position]="stickyPosition(j)"
+					[style.left.px]="stickyOffset(j, 'left')"
+					[style.right.px]="stickyOffset(j, 'right')"
+					[style.z-index]="stickyZIndex(j)"
+					[attr.role]="(isDataGrid ? 'gridcell' : null)">
+					<ng-container *ngIf="!column.aggregateTemplate">{{column.formatAggregate(values[j])}}</ng-container>
+					<ng-template
+						[ngTemplateOutlet]="column.aggregateTemplate" [ngTemplateOutletContext]="{data: values[j], column: column}">
+					</ng-template>
+				</td>
+			</ng-container>
+		</ng-template>
+		<ng-template #rowTemplate let-row="row" let-i="index">
+			<tr #gridRow
+				*ngIf="!model.isRowHidden(i)"
+				(click)="onRowSelect(i, $event)"
+				[attr.role]="(isDataGrid ? 'row' : null)"
+				[attr.aria-rowindex]="(isDataGrid ? i + 2 : null)"
+				[attr.aria-level]="(isDataGrid && model.hasTreeRows() ? model.rowsLevel[i] + 1 : null)"
+				[attr.aria-expanded]="(model.rowsHasChildren[i] ? !!model.rowsExpanded[i] : null)"
+				[attr.aria-busy]="(model.isLoadingChildRows(i) ? true : null)"
+				[attr.data-virtual-index]="(virtualScroll ? i : null)"
+				[attr.data-parent-row]="(model.isRowExpandable(i) ? 'true' : null)"
+				[ngClass]="{
+					'bx--data-table-v2--selected': model.rowsSelected[i],
+					'bx--parent-row-v2': model.isRowExpandable(i),
+					'bx--expandable-row-v2': model.rowsExpanded[i] && model.isRowExpandable(i),
+					'tbody_row--selectable': enableSingleSelect,
+					'tbody_row--success': !model.rowsSelected[i] && model.rowsContext[i] === 'success',
+					'tbody_row--warning': !model.rowsSelected[i] && model.rowsContext[i] === 'warning',
+					'tbody_row--info': !model.rowsSelected[i] && model.rowsContext[i] === 'info',
+					'tbody_row--error': !model.rowsSelected[i] && model.rowsContext[i] === 'error'
+				}">
+				<td
+				*ngIf="model.hasExpandableRows()"
+				class="bx--table-expand-v2"
+				[attr.role]="(isDataGrid ? 'gridcell' : null)"
+				[attr.data-previous-value]="(model.rowsExpanded[i] ? 'collapsed' : null)"
+				[class.table_cell--frozen]="!!stickyCells.expand"
+				[style.position]="stickyPosition('expand')"
+				[style.left.px]="stickyOffset('expand', 'left')"
+				[style.z-index]="stickyZIndex('expand')">
+					<button
+					*ngIf="model.isRowExpandable(i)"
+					(click)="model.expandRow(i, !model.rowsExpanded[i])"
+					[attr.aria-label]="expandButtonAriaLabel"
+            [title]="expandButtonAriaLabel"
+					class="bx--table-expand-v2__button">
+						<svg class="bx--table-expand-v2__svg" width="7" height="12" viewBox="0 0 7 12">
+							<path fill-rule="nonzero" d="M5.569 5.994L0 .726.687 0l6.336 5.994-6.335 6.002L0 11.27z" />
+						</svg>
+					</button>
+				</td>
+				<td
+					*ngIf="showSelectionColumn"
+					[attr.role]="(isDataGrid ? 'gridcell' : null)"
+					[class.table_cell--frozen]="!!stickyCells.select"
+					[style.position]="stickyPosition('select')"
+					[style.left.px]="stickyOffset('select', 'left')"
+					[style.z-index]="stickyZIndex('select')">
+					<ibm-checkbox
+						aria-label="Select row"
+						[size]="size !== ('lg' ? 'sm' : 'md')"
+						[(ngModel)]="model.rowsSelected[i]"
+						(change)="onRowCheckboxChange(i)">
+					</ibm-checkbox>
+				</td>
+				<ng-container *ngFor="let item of row; let j = index">
+					<td *ngIf="model.header[j].visible"
+						[ngClass]="model.header[j].cellClasses(item)"
+						[ngStyle]="model.header[j].cellStyle(item)"
+						[attr.role]="(isDataGrid ? 'gridcell' : null)"
+						[attr.tabindex]="(isCellEditable(j) && !isDataGrid ? 0 : null)"
+						[attr.data-edit-cell]="(isCellEditable(j) ? i + '-' + j : null)"
+						[attr.data-cell]="(cellSelection || enablePaste ? i + '-' + j : null)"
+						[attr.aria-selected]="(isDataGrid && cellSelection ? isCellSelected(i, j) : null)"
+						[class.table_cell--selected]="isCellSelected(i, j)"
+						[class.table_cell--frozen]="!!stickyCells[j]"
+						[style.position]="stickyPosition(j)"
+						[style.left.px]="stickyOffset(j, 'left')"
+						[style.right.px]="stickyOffset(j, 'right')"
+						[style.z-index]="stickyZIndex(j)"
+						(mousedown)="onCellMouseDown($event, i, j)"
+						(mouseenter)="onCellMouseEnter(i, j)"
+						(dblclick)="startEdit(i, j)"
+						(keydown.enter)="startEdit(i, j)">
+						<span
+							*ngIf="isTreeCell(j)"
+							class="table_tree-toggle"
+							[ngStyle]="{'padding-left.rem': model.rowsLevel[i] * 1.5}">
+							<button
+								*ngIf="model.rowsHasChildren[i]"
+								type="button"
+								class="bx--table-expand-v2__button"
+								[attr.aria-label]="expandButtonAriaLabel"
+								[title]="expandButtonAriaLabel"
+								(click)="$event.stopPropagation(); model.expandRow(i, !model.rowsExpanded[i])">
+								<svg
+									class="bx--table-expand-v2__svg"
+									width="7"
+									height="12"
+									viewBox="0 0 7 12"
+									[ngStyle]="{'transform': (model.rowsExpanded[i] ? 'rotate(90deg)' : null)}">
+									<path fill-rule="nonzero" d="M5.569 5.994L0 .726.687 0l6.336 5.994-6.335 6.002L0 11.27z" />
+								</svg>
+							</button>
+						</span>
+						<ng-container *ngIf="!isEditing(i, j)">
+							<ng-container *ngIf="!item.template">{{model.header[j].formatData(item.data, item)}}</ng-container>
 							<ng-template
 								[ngTemplateOutlet]="item.template" [ngTemplateOutletContext]="{data: item.data}">
 							</ng-template>
-						</td>
-					</ng-container>
-				</tr>
-				<tr
-				*ngIf="model.rowsExpanded[i] && !firstExpandedTemplateInRow(row)"
-				class="bx--expandable-row-v2"
-				[attr.data-child-row]="(model.rowsExpanded[i] ? 'true' : null)">
-					<td [attr.colspan]="model.data.length + 2">
-						<ng-container *ngIf="!firstExpandedTemplateInRow(row)">{{firstExpandedDataInRow(row)}}</ng-container>
+						</ng-container>
+						<div
+							*ngIf="isEditing(i, j)"
+							class="table_cell-editor"
+							(click)="$event.stopPropagation()"
+							(dblclick)="$event.stopPropagation()"
+							(keydown)="onEditorKeydown($event)">
+							<ng-container [ngSwitch]="(model.header[j].editTemplate ? 'custom' : model.header[j].editor)">
+								<input
+									*ngSwitchCase="'number'"
+									type="number"
+									class="bx--text-input"
+									[attr.aria-label]="translations.EDIT"
+									[attr.aria-invalid]="editInvalid"
+									[attr.data-invalid]="(editInvalid ? true : null)"
+									[title]="(editInvalid ? translations.INVALID_VALUE : '')"
+									[(ngModel)]="editValue"
+									(blur)="onEditorBlur(i, j)">
+								<ibm-dropdown
+									*ngSwitchCase="'dropdown'"
+									[size]="(size === 'lg' ? 'lg' : 'sm')"
+									[attr.data-invalid]="(editInvalid ? true : null)"
+									(selected)="onEditorSelect($event)">
+									<ibm-dropdown-list [items]="editItems"></ibm-dropdown-list>
+								</ibm-dropdown>
+								<ibm-checkbox
+									*ngSwitchCase="'checkbox'"
+									[size]="(size === 'lg' ? 'md' : 'sm')"
+									[aria-label]="translations.EDIT"
+									[checked]="editValue"
+									(change)="onEditorCheckboxChange($event.checked)">
+								</ibm-checkbox>
+								<ng-container *ngSwitchCase="'custom'">
+									<ng-template
+										[ngTemplateOutlet]="model.header[j].editTemplate"
+										[ngTemplateOutletContext]="editTemplateContext">
+									</ng-template>
+								</ng-container>
+								<input
+									*ngSwitchDefault
+									type="text"
+									class="bx--text-input"
+									[attr.aria-label]="translations.EDIT"
+									[attr.aria-invalid]="editInvalid"
+									[attr.data-invalid]="(editInvalid ? true : null)"
+									[title]="(editInvalid ? translations.INVALID_VALUE : '')"
+									[(ngModel)]="editValue"
+									(blur)="onEditorBlur(i, j)">
+							</ng-container>
+						</div>
 					</td>
-				</tr>
-				<ng-template
-					[ngTemplateOutlet]="firstExpandedTemplateInRow(row)"
-					[ngTemplateOutletContext]="{expandedData: firstExpandedDataInRow(row), model: model}">
-				</ng-template>
-
-      </ng-container>
-		</tbody>
+				</ng-container>
+			</tr>
+			<tr
+			*ngIf="model.rowsExpanded[i] && model.isRowExpandable(i) && !firstExpandedTemplateInRow(row)"
+			class="bx--expandable-row-v2"
+			[attr.data-child-row]="(model.rowsExpanded[i] ? 'true' : null)">
+				<td [attr.colspan]="model.data.length + 2">
+					<ng-container *ngIf="!firstExpandedTemplateInRow(row)">{{firstExpandedDataInRow(row)}}</ng-container>
+				</td>
+			</tr>
+			<ng-template
+				[ngTemplateOutlet]="firstExpandedTemplateInRow(row)"
+				[ngTemplateOutletContext]="{expandedData: firstExpandedDataInRow(row), model: model}">
+			</ng-template>
+		</ng-template>
 		<ng-template #noDataTemplate><ng-content></ng-content></ng-template>
+		<ng-template #textFilterTemplate let-tooltip="tooltip">
+			<label class="bx--label">
+				{{translations.FILTER_CONTAINS}}
+				<input type="text" class="bx--text-input" [(ngModel)]="tooltip.dialogConfig.data.filterData.data">
+			</label>
+			<ng-template [ngTemplateOutlet]="clearFilterTemplate" [ngTemplateOutletContext]="{tooltip: tooltip}"></ng-template>
+		</ng-template>
+		<ng-template #numberRangeFilterTemplate let-tooltip="tooltip">
+			<label class="bx--label">
+				{{translations.FILTER_MIN}}
+				<input type="number" class="bx--text-input" [(ngModel)]="tooltip.dialogConfig.data.filterData.data.min">
+			</label>
+			<label class="bx--label">
+				{{translations.FILTER_MAX}}
+				<input type="number" class="bx--text-input" [(ngModel)]="tooltip.dialogConfig.data.filterData.data.max">
+			</label>
+			<ng-template [ngTemplateOutlet]="clearFilterTemplate" [ngTemplateOutletContext]="{tooltip: tooltip}"></ng-template>
+		</ng-template>
+		<ng-template #dateRangeFilterTemplate let-tooltip="tooltip">
+			<ibm-calendar view="month" [model]="tooltip.dialogConfig.data.filterData.data"></ibm-calendar>
+			<ng-template [ngTemplateOutlet]="clearFilterTemplate" [ngTemplateOutletContext]="{tooltip: tooltip}"></ng-template>
+		</ng-template>
+		<ng-template #selectFilterTemplate let-tooltip="tooltip">
+			<label class="bx--label">{{translations.FILTER_VALUES}}</label>
+			<ibm-dropdown type="multi" size="sm" (selected)="tooltip.dialogConfig.data.select($event)">
+				<ibm-dropdown-list [items]="tooltip.dialogConfig.data.items"></ibm-dropdown-list>
+			</ibm-dropdown>
+			<ng-template [ngTemplateOutlet]="clearFilterTemplate" [ngTemplateOutletContext]="{tooltip: tooltip}"></ng-template>
+		</ng-template>
+		<ng-template #clearFilterTemplate let-tooltip="tooltip">
+			<button
+				type="button"
+				class="bx--btn bx--btn--sm bx--btn--secondary"
+				(click)="tooltip.dialogConfig.data.clearFilter(); tooltip.doClose()">
+				{{translations.CLEAR_FILTER}}
+			</button>
+		</ng-template>
 		<tfoot>
         <ng-template
             [ngTemplateOutlet]="footerTemplate">
         </ng-template>
+			<tr
+				#gridRow
+				*ngIf="model.hasAggregates() && !noData"
+				class="table_summary-row"
+				[attr.role]="(isDataGrid ? 'row' : null)">
+				<ng-template
+					[ngTemplateOutlet]="summaryCellsTemplate"
+					[ngTemplateOutletContext]="{values: model.aggregates()}">
+				</ng-template>
+			</tr>
 			<tr *ngIf="this.model.isLoading">
 				<td class="table_loading-indicator">
 					<ibm-static-icon icon="loading_rows" size="lg"></ibm-static-icon>
@@ -363,7 +1006,7 @@ import { I18n } from "./../i18n/i18n.module";
 	</table>
 	`
 })
-export class Table {
+export class Table implements OnChanges, DoCheck, AfterContentInit, AfterViewInit, AfterViewChecked {
 	/**
 	 * Size of the table rows.
 	 *
@@ -385,20 +1028,40 @@ export class Table {
 	 */
 	@Input()
 	set model(m: TableModel) {
-		if (this._model) {
-			this._model.dataChange.unsubscribe();
-			this._model.rowsSelectedChange.unsubscribe();
-		}
+		// the previous model might still be used elsewhere, so only the table stops listening to it
+		this.modelSubscriptions.forEach(subscription => subscription.unsubscribe());
 
 		this._model = m;
-		this._model.rowsSelectedChange.subscribe(() => this.updateSelectAllCheckbox());
-		this._model.dataChange.subscribe(() => this.updateSelectAllCheckbox());
+		this.modelSubscriptions = [];
+		this.modelSubscriptions.push(this._model.rowsSelectedChange.subscribe(() => this.updateSelectAllCheckbox()));
+		this.modelSubscriptions.push(this._model.dataChange.subscribe(() => {
+			this.updateSelectAllCheckbox();
+			this.refreshVirtualRows();
+			// widths of the columns might change with the data
+			this.stickyColumnsKey = null;
+		}));
+		// measure the row once it's rendered expanded or collapsed
+		this.modelSubscriptions.push(this._model.rowsExpandedChange.subscribe(() => {
+			if (this.virtualScroll) {
+				// child rows of tree tables show up or hide too
+				setTimeout(() => this.refreshVirtualRows());
+			}
+		}));
 	}
 
 	get model(): TableModel {
 		return this._model;
 	}
 
+	/**
+	 * Plain objects to show in the table, one per row, along with `ibm-table-column`s in the content
+	 * of the table. The table makes its `model` from them and updates it whenever the array changes.
+	 *
+	 * @type {Array<any>}
+	 * @memberof Table
+	 */
+	@Input() rows: Array<any>;
+
 	/**
 	 * Controls whether to show the selection checkboxes column or not.
 	 *
@@ -431,6 +1094,14 @@ export class Table {
 	 */
 	@Input() enableSingleSelect = false;
 
+	/**
+	 * Once all the rows shown are selected with the header checkbox, offers to select
+	 * the rows on all the pages too. See `TableModel.allPagesSelected`.
+	 *
+	 * @memberof Table
+	 */
+	@Input() selectAcrossPages = false;
+
 	/**
 	 * Distance (in px) from the bottom that view has to reach before
 	 * `scrollLoad` event is emitted.
@@ -459,6 +1130,39 @@ export class Table {
 	 */
 	@Input() columnsDraggable = false;
 
+	/**
+	 * Number of pixels a column grows or shrinks by with each arrow key press when it's resized
+	 * with the keyboard.
+	 *
+	 * @memberof Table
+	 */
+	@Input() columnResizeStep = 10;
+
+	/**
+	 * Set to `true` to render only the rows that are scrolled into view, instead of all of them.
+	 *
+	 * `tbody` is the element that scrolls, so it needs a fixed height.
+	 *
+	 * @memberof Table
+	 */
+	@Input() virtualScroll = false;
+
+	/**
+	 * Estimated height (in px) of a row when `virtualScroll` is enabled.
+	 *
+	 * Used for the rows that haven't been rendered yet, rendered rows are measured.
+	 *
+	 * @memberof Table
+	 */
+	@Input() virtualRowHeight = 48;
+
+	/**
+	 * Number of rows rendered above and below the visible rows when `virtualScroll` is enabled.
+	 *
+	 * @memberof Table
+	 */
+	@Input() virtualBuffer = 10;
+
 	@Input() expandButtonAriaLabel = "Expand row";
 	@Input() sortDescendingLabel = "Sort rows by this header in descending order";
 	@Input() sortAscendingLabel = "Sort rows by this header in ascending order";
@@ -479,6 +1183,61 @@ export class Table {
 	 */
 	selectAllCheckboxSomeSelected = false;
 
+	/**
+	 * Indexes of the rows rendered when `virtualScroll` is enabled.
+	 *
+	 * @type {Array<number>}
+	 * @memberof Table
+	 */
+	virtualRowIndexes: Array<number> = [];
+
+	/**
+	 * Height (in px) of the rows above the ones rendered when `virtualScroll` is enabled.
+	 *
+	 * @memberof Table
+	 */
+	virtualOffsetTop = 0;
+
+	/**
+	 * Height (in px) of the rows below the ones rendered when `virtualScroll` is enabled.
+	 *
+	 * @memberof Table
+	 */
+	virtualOffsetBottom = 0;
+
+	/**
+	 * Set to `true` to keep the header row in view while the table scrolls vertically.
+	 *
+	 * The table has to be inside an element that scrolls, see "Sticky header and frozen columns".
+	 *
+	 * @memberof Table
+	 */
+	@Input() stickyHeader = false;
+
+	/**
+	 * Set to `true` to enable keyboard navigation between cells, following the ARIA grid pattern.
+	 *
+	 * Cells get a roving `tabindex` so the table is a single tab stop, and the controls
+	 * inside the cells are taken out of the tab order.
+	 *
+	 * @memberof Table
+	 */
+	@Input() isDataGrid = false;
+
+	/**
+	 * Set to `true` to select ranges of cells and copy them, see "Copying and pasting cells".
+	 *
+	 * @memberof Table
+	 */
+	@Input() cellSelection = false;
+
+	/**
+	 * Set to `true` to paste blocks of cells into the editable columns, see "Copying and pasting cells".
+	 *
+	 * @memberof Table
+	 */
+	@Input() enablePaste = false;
+
 	/**
 	 * Set to `false` to remove table rows (zebra) stripes.
 	 *
@@ -496,6 +1255,17 @@ export class Table {
 	 */
 	@Output() sort = new EventEmitter<number>();
 
+	/**
+	 * Emits an index of the column that wants to be added to the current sort
+	 * as the next sort key. Emitted when a sortable header is shift-clicked.
+	 *
+	 * Call `model.sort(index, true)` to apply it. If nothing is subscribed to it,
+	 * shift-click emits `sort` just like a normal click.
+	 *
+	 * @memberof Table
+	 */
+	@Output() multiSort = new EventEmitter<number>();
+
 	/**
 	 * Emits if all rows are selected.
 	 *
@@ -536,22 +1306,178 @@ export class Table {
 	 */
 	@Output() scrollLoad = new EventEmitter<TableModel>();
 
-	get noData() {
-		return !this.model.data ||
-			this.model.data.length === 0 ||
-			this.model.data.length === 1 && this.model.data[0].length === 0;
-	}
+	/**
+	 * Emits when a value of a cell was changed with the inline editor.
+	 *
+	 * The new value is already saved to the `item`, set `item.data` to `oldValue` to reject it.
+	 *
+	 * @param {Object} ({model: this.model, row: index, column: index, item: item, oldValue: value, newValue: value})
+	 * @memberof Table
+	 */
+	@Output() cellEdit = new EventEmitter<Object>();
 
-	protected _model: TableModel;
+	/**
+	 * Emits when users finish resizing a column, with its new width in pixels.
+	 *
+	 * @param {Object} ({model: this.model, column: index, width: number})
+	 * @memberof Table
+	 */
+	@Output() columnResize = new EventEmitter<Object>();
+
+	/**
+	 * Emits when users move a column, with its index before and after the move.
+	 *
+	 * @param {Object} ({model: this.model, from: index, to: index})
+	 * @memberof Table
+	 */
+	@Output() columnMove = new EventEmitter<Object>();
+
+	/**
+	 * Columns declared in the content of the table, see `rows`.
+	 *
+	 * @type {QueryList<TableColumn>}
+	 * @memberof Table
+	 */
+	@ContentChildren(TableColumn) columns: QueryList<TableColumn>;
+
+	/**
+	 * Row and column index of the cell being edited, `null` if no cell is being edited.
+	 *
+	 * @type {{row: number, column: number}}
+	 * @memberof Table
+	 */
+	editingCell: {row: number, column: number} = null;
+	/**
+	 * Value in the editor of the cell being edited.
+	 */
+	editValue: any;
+	/**
+	 * `true` if the last committed value didn't pass `validate()` of the column.
+	 */
+	editInvalid = false;
+	/**
+	 * Items of the dropdown editor, made from `editOptions` of the column.
+	 */
+	editItems: Array<ListItem> = [];
+	/**
+	 * Context of `editTemplate` of the column being edited.
+	 */
+	editTemplateContext: {data: any, invalid: boolean, commit: (value: any) => boolean, cancel: () => void};
+
+	/**
+	 * Range of cells selected when `cellSelection` is on, `null` if no cells are selected.
+	 *
+	 * @type {TableCellRange}
+	 * @memberof Table
+	 */
+	selectedCells: TableCellRange = null;
+
+	/**
+	 * Offsets of the cells of the frozen columns, by `"expand"`, `"select"` or the index of the column
+	 * in `model.header`. Set by `updateStickyCells()` when the columns change.
+	 */
+	stickyCells: {[column: string]: {left?: number, right?: number}} = {};
+
+	get noData() {
+		return !this.model.data ||
+			this.model.data.length === 0 ||
+			this.model.data.length === 1 && this.model.data[0].length === 0;
+	}
+
+	protected _model: TableModel;
+
+	/**
+	 * Tells when `rows` are replaced or changed in place.
+	 */
+	protected rowsDiffer = this.iterableDiffers.find([]).create();
+	/**
+	 * Objects from `rows` the rows of the model were made from.
+	 */
+	protected rowObjects = new WeakMap<Array<TableItem>, any>();
+	protected columnChangeSubscription: Subscription;
+	/**
+	 * Subscriptions to the events of `model`.
+	 */
+	protected modelSubscriptions: Array<Subscription> = [];
 
 	protected columnResizeWidth: number;
 	protected columnResizeMouseX: number;
 	protected mouseMoveSubscription: Subscription;
 	protected mouseUpSubscription: Subscription;
+	protected resizedColumn: TableHeaderItem = null;
 
 	protected isColumnDragging = false;
 	protected columnDraggedHoverIndex = -1;
 	protected columnDraggedPosition = "";
+	/**
+	 * Index of the column dragged with a touch or a pen, -1 when none is.
+	 */
+	protected columnPointerDragIndex = -1;
+	protected columnPointerDragX: number;
+	protected pointerMoveSubscription: Subscription;
+	protected pointerUpSubscription: Subscription;
+
+	/**
+	 * Ends the cell selection started by a mouse down, on the next mouse up.
+	 */
+	protected cellSelectionEndSubscription: Subscription;
+
+	/**
+	 * Indexes of the rows that aren't filtered out, used by `virtualScroll`
+	 */
+	protected unfilteredRowIndexes: Array<number> = [];
+	/**
+	 * Rows matching `virtualRowIndexes` at the time they were last calculated.
+	 * Used to tell which row a rendered `tr` belongs to even if the data changed since.
+	 */
+	protected virtualRenderedRows: Array<Array<TableItem>> = [];
+	/**
+	 * Measured heights of the rendered rows, including their expanded part.
+	 */
+	protected virtualRowHeights = new WeakMap<Array<TableItem>, number>();
+
+	/**
+	 * Default filter popovers of the built-in filter header items.
+	 */
+	@ViewChild("textFilterTemplate") protected textFilterTemplate: TemplateRef<any>;
+	@ViewChild("numberRangeFilterTemplate") protected numberRangeFilterTemplate: TemplateRef<any>;
+	@ViewChild("dateRangeFilterTemplate") protected dateRangeFilterTemplate: TemplateRef<any>;
+	@ViewChild("selectFilterTemplate") protected selectFilterTemplate: TemplateRef<any>;
+
+	/**
+	 * The rows of the grid, header and summary rows included.
+	 */
+	@ViewChildren("gridRow") protected gridRowElements: QueryList<ElementRef>;
+
+	/**
+	 * The cell that's in the tab order when `isDataGrid` is on.
+	 */
+	protected activeGridCell: HTMLElement;
+
+	/**
+	 * `true` if rows came or went since the roving tabindex was last set on every cell.
+	 */
+	protected gridRowsChanged = true;
+
+	/**
+	 * The controls inside the cells that were taken out of the tab order, along with their original `tabindex`.
+	 */
+	protected gridControlTabIndexes = new Map<HTMLElement, string>();
+
+	/**
+	 * Index of the row last selected with a click, where shift-click range selection starts.
+	 */
+	protected selectionAnchor = -1;
+
+	/**
+	 * `true` if the last row click was a shift-click.
+	 */
+	protected rangeSelection = false;
+
+	/**
+	 * The columns, their visibility and widths `stickyCells` were last set for.
+	 */
+	protected stickyColumnsKey: string = null;
 
 	/**
 	 * Creates an instance of Table.
@@ -559,37 +1485,307 @@ export class Table {
 	 * @param {ApplicationRef} applicationRef
 	 * @memberof Table
 	 */
-	constructor(protected applicationRef: ApplicationRef, protected i18n: I18n) {}
+	constructor(
+		protected applicationRef: ApplicationRef,
+		protected i18n: I18n,
+		protected elementRef: ElementRef,
+		protected iterableDiffers: IterableDiffers
+	) {}
+
+	ngOnChanges(changes: SimpleChanges) {
+		if (changes.rows && !this.model) {
+			this.model = new TableModel();
+		}
+		if (changes.model || changes.virtualScroll) {
+			this.refreshVirtualRows();
+		}
+		if (changes.isDataGrid && !changes.isDataGrid.firstChange) {
+			if (this.isDataGrid) {
+				// the cells get their roles once the view is checked
+				this.gridRowsChanged = true;
+			} else {
+				this.restoreGridTabIndexes();
+			}
+		}
+	}
+
+	ngDoCheck() {
+		// `columns` are there once the content is initialized, `ngAfterContentInit()` makes the first rows
+		if (this.columns && this.rowsDiffer.diff(this.rows)) {
+			this.updateRows();
+		}
+	}
+
+	ngAfterContentInit() {
+		this.columns.changes.subscribe(() => this.updateColumns());
+		this.updateColumns();
+	}
+
+	ngAfterViewInit() {
+		// the real height of `tbody` is known only once it's rendered
+		if (this.virtualScroll) {
+			setTimeout(() => this.updateVirtualRows());
+		}
+		this.gridRowElements.changes.subscribe(() => this.gridRowsChanged = true);
+	}
 
+	ngAfterViewChecked() {
+		// new rows have to be taken out of the tab order, focus moves take care of themselves
+		if (this.isDataGrid && this.gridRowsChanged) {
+			this.gridRowsChanged = false;
+			this.updateGridTabIndexes();
+		}
+		// offsets of the frozen columns are the widths of the columns before them
+		const stickyColumnsKey = this.getStickyColumnsKey();
+		if (stickyColumnsKey !== this.stickyColumnsKey) {
+			this.stickyColumnsKey = stickyColumnsKey;
+			// the offsets are bound to the cells, so they can't change while the view is being checked
+			setTimeout(() => this.updateStickyCells());
+		}
+	}
+
+	/**
+	 * Starts resizing the column with a mouse, a touch or a pen.
+	 *
+	 * Browsers with pointer events get `pointerdown` and skip the `mousedown` that follows it,
+	 * since the `pointerdown` is cancelled. Older browsers get only the `mousedown`.
+	 *
+	 * @param {(PointerEvent | MouseEvent)} event
+	 * @param {TableHeaderItem} column
+	 * @memberof Table
+	 */
 	columnResizeStart(event, column) {
+		if (this.resizedColumn) {
+			return;
+		}
+		const [move, up] = event.type === "pointerdown" ? ["pointermove", "pointerup"] : ["mousemove", "mouseup"];
+		this.resizedColumn = column;
 		this.columnResizeWidth = parseInt(column.style.width, 10);
 		this.columnResizeMouseX = event.clientX;
 		event.preventDefault();
+		// don't start dragging the column
+		event.stopPropagation();
 
-		this.mouseMoveSubscription = fromEvent(document.body, "mousemove").subscribe(event => {
+		this.mouseMoveSubscription = fromEvent(document.body, move).subscribe(event => {
 			this.columnResizeProgress(event, column);
 		});
-		this.mouseUpSubscription = fromEvent(document.body, "mouseup").subscribe(event => {
+		this.mouseUpSubscription = merge(
+			fromEvent(document.body, up),
+			fromEvent(document.body, "pointercancel")
+		).subscribe(event => {
 			this.columnResizeEnd(event, column);
 		});
 	}
 
 	columnResizeProgress(event, column) {
 		const move = event.clientX - this.columnResizeMouseX;
-		column.style.width = `${this.columnResizeWidth + move}px`;
+		column.style.width = `${column.clampWidth(this.columnResizeWidth + move)}px`;
 	}
 
 	columnResizeEnd(event, column) {
 		this.mouseMoveSubscription.unsubscribe();
 		this.mouseUpSubscription.unsubscribe();
+		this.resizedColumn = null;
+		this.model.saveViewState();
+		this.columnResize.emit({model: this.model, column: this.model.header.indexOf(column), width: parseInt(column.style.width, 10)});
+	}
+
+	/**
+	 * Sets width of the `index`th column to `width` pixels, within its `minWidth` and `maxWidth`.
+	 * Saves the view state and emits the `columnResize` event.
+	 *
+	 * @param {number} index
+	 * @param {number} width
+	 * @memberof Table
+	 */
+	resizeColumn(index: number, width: number) {
+		const column = this.model.header[index];
+		const clamped = column.clampWidth(width);
+		if (clamped === this.columnWidth(index)) {
+			return;
+		}
+		column.style.width = `${clamped}px`;
+		this.model.saveViewState();
+		this.columnResize.emit({model: this.model, column: index, width: clamped});
+	}
+
+	/**
+	 * Width of the `index`th column in pixels.
+	 *
+	 * @param {number} index
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	columnWidth(index: number): number {
+		return parseInt(this.model.header[index].style.width, 10);
+	}
+
+	/**
+	 * Resizes the column with left and right arrows on the resize handle,
+	 * Home and End resize it to its `minWidth` and `maxWidth`.
+	 *
+	 * @param {KeyboardEvent} event
+	 * @param {number} index
+	 * @memberof Table
+	 */
+	onColumnResizeKeydown(event: KeyboardEvent, index: number) {
+		if (event.altKey) {
+			// moves the column
+			return;
+		}
+		const column = this.model.header[index];
+		switch (event.key) {
+			case "Left": // IE specific value
+			case "ArrowLeft": {
+				this.resizeColumn(index, this.columnWidth(index) - this.columnResizeStep);
+				break;
+			}
+			case "Right": // IE specific value
+			case "ArrowRight": {
+				this.resizeColumn(index, this.columnWidth(index) + this.columnResizeStep);
+				break;
+			}
+			case "Home": {
+				this.resizeColumn(index, column.minWidth || 0);
+				break;
+			}
+			case "End": {
+				if (!column.maxWidth) {
+					return;
+				}
+				this.resizeColumn(index, column.maxWidth);
+				break;
+			}
+			default: {
+				return;
+			}
+		}
+		event.preventDefault();
+		event.stopPropagation();
+	}
+
+	/**
+	 * Moves the column with alt + left and right arrows, and resizes it with alt + shift + left and right arrows.
+	 *
+	 * @param {KeyboardEvent} event
+	 * @param {number} index
+	 * @memberof Table
+	 */
+	onColumnHeaderKeydown(event: KeyboardEvent, index: number) {
+		if (!event.altKey) {
+			return;
+		}
+		let direction = 0;
+		if (event.key === "ArrowLeft" || event.key === "Left") {
+			direction = -1;
+		} else if (event.key === "ArrowRight" || event.key === "Right") {
+			direction = 1;
+		}
+		if (!direction) {
+			return;
+		}
+
+		if (event.shiftKey && this.columnsResizable) {
+			this.resizeColumn(index, this.columnWidth(index) + direction * this.columnResizeStep);
+		} else if (!event.shiftKey && this.columnsDraggable) {
+			let target = index + direction;
+			while (this.model.header[target] && !this.model.header[target].visible) {
+				target += direction;
+			}
+			if (this.model.header[target]) {
+				// moving the element around loses focus in some browsers
+				const focused = document.activeElement as HTMLElement;
+				this.moveColumn(index, direction > 0 ? target + 1 : target);
+				setTimeout(() => focused && focused.focus());
+			}
+		} else {
+			return;
+		}
+		// keep the browser from navigating back and forward
+		event.preventDefault();
+	}
+
+	/**
+	 * `true` if the headers have sort buttons. They do when `sort` is handled,
+	 * or when the table is made from `rows`, which it sorts itself.
+	 *
+	 * @readonly
+	 * @type {boolean}
+	 * @memberof Table
+	 */
+	get sortEnabled(): boolean {
+		return this.sort.observers.length > 0 || this.hasColumns();
 	}
 
-	onRowSelect(index: number) {
+	/**
+	 * Triggered when a sortable header is clicked.
+	 * Emits the `multiSort` event on shift-click, `sort` event otherwise.
+	 * Tables made from `rows` sort by the column themselves if `sort` isn't handled.
+	 *
+	 * @param {MouseEvent} event
+	 * @param {number} index
+	 * @memberof Table
+	 */
+	onSortClick(event: MouseEvent, index: number) {
+		if (event.shiftKey && this.multiSort.observers.length > 0) {
+			this.multiSort.emit(index);
+		} else if (this.sort.observers.length > 0) {
+			this.sort.emit(index);
+		} else {
+			// tables made from `rows` sort themselves
+			const column = this.model.header[index];
+			if (column.sorted) {
+				column.ascending = column.descending;
+			}
+			this.model.sort(index, event.shiftKey);
+		}
+		// sorting moves the filtered out rows around
+		this.refreshVirtualRows();
+		this.model.saveViewState();
+	}
+
+	/**
+	 * Object from `rows` the `index`th row of the model was made from.
+	 *
+	 * @param {number} index
+	 * @returns {*}
+	 * @memberof Table
+	 */
+	rowObject(index: number): any {
+		return this.rowObjects.get(this.model.row(index));
+	}
+
+	/**
+	 * Triggered when a row is clicked.
+	 *
+	 * With `enableSingleSelect` selects the row, ctrl/cmd-click toggles it while keeping the rest
+	 * of the selection and shift-click selects the rows from the last clicked one.
+	 * With the selection column, remembers shift-click for `onRowCheckboxChange()`.
+	 *
+	 * @param {number} index
+	 * @param {MouseEvent} [event]
+	 * @memberof Table
+	 */
+	onRowSelect(index: number, event?: MouseEvent) {
+		this.rangeSelection = !!event && event.shiftKey;
 		if (!this.showSelectionColumn && this.enableSingleSelect) {
-			this.model.rowsSelected.forEach((element, index) => {
-				this.model.selectRow(index, false);
-			});
-			this.model.selectRow(index, !this.model.rowsSelected[index]);
+			const toggle = !!event && (event.ctrlKey || event.metaKey);
+			if (this.rangeSelection && this.selectionAnchor >= 0) {
+				if (!toggle) {
+					this.model.selectAll(false);
+				}
+				this.model.selectRange(this.selectionAnchor, index);
+				return;
+			}
+			if (toggle) {
+				this.model.selectRow(index, !this.model.rowsSelected[index]);
+			} else {
+				this.model.rowsSelected.forEach((element, index) => {
+					this.model.selectRow(index, false);
+				});
+				this.model.selectRow(index, !this.model.rowsSelected[index]);
+			}
+			this.selectionAnchor = index;
 		}
 	}
 
@@ -625,12 +1821,27 @@ export class Table {
 		}
 
 		this.selectAllCheckboxSomeSelected = false;
+		this.model.allPagesSelected = false;
 
+		// select the rows shown, `selectAcrossPages` offers to select the rest
 		for (let i = 0; i < this.model.rowsSelected.length; i++) {
-			this.model.rowsSelected[i] = this.selectAllCheckbox;
+			this.model.rowsSelected[i] = this.selectAllCheckbox && !this.model.isRowFiltered(i);
 		}
 	}
 
+	/**
+	 * Deselects all the rows, including the ones on the other pages.
+	 * Emits the `deselectAll` event.
+	 *
+	 * @memberof Table
+	 */
+	clearSelection() {
+		this.selectAllCheckbox = false;
+		this.selectAllCheckboxSomeSelected = false;
+		this.model.selectAll(false);
+		this.deselectAll.emit(this.model);
+	}
+
 	/**
 	 * Triggered when a single row is clicked.
 	 * Updates the header checkbox state.
@@ -641,6 +1852,15 @@ export class Table {
 	 * @memberof Table
 	 */
 	onRowCheckboxChange(index: number) {
+		const range = this.rangeSelection && this.selectionAnchor >= 0 && this.selectionAnchor !== index;
+		this.rangeSelection = false;
+		if (range) {
+			// shift-click selects or deselects all the rows from the last clicked one
+			this.model.selectRange(this.selectionAnchor, index, !!this.model.rowsSelected[index])
+				.forEach(changed => this.onRowCheckboxChange(changed));
+		}
+		this.selectionAnchor = index;
+
 		let startValue = this.model.rowsSelected[0];
 
 		if (this.model.rowsSelected[index]) {
@@ -672,6 +1892,8 @@ export class Table {
 	 * @memberof Table
 	 */
 	onScroll(event) {
+		this.updateVirtualRows();
+
 		const distanceFromBottom = event.target.scrollHeight - event.target.clientHeight - event.target.scrollTop;
 
 		if (distanceFromBottom <= this.scrollLoadDistance) {
@@ -682,6 +1904,10 @@ export class Table {
 	}
 
 	columnDragStart(event, columnIndex) {
+		if (this.resizedColumn) {
+			event.preventDefault();
+			return;
+		}
 		this.isColumnDragging = true;
 		this.columnDraggedHoverIndex = columnIndex;
 		event.dataTransfer.setData("columnIndex", JSON.stringify(columnIndex));
@@ -714,40 +1940,1230 @@ export class Table {
 		this.columnDraggedHoverIndex = -1;
 		this.columnDraggedPosition = "";
 
-		this.model.moveColumn(
+		this.moveColumn(
 			parseInt(event.dataTransfer.getData("columnIndex"), 10),
 			columnIndex + (position === "right" ? 1 : 0)
 		);
 	}
 
-	get scrollbarWidth() {
-		return getScrollbarWidth();
+	/**
+	 * Starts dragging the column with a touch or a pen, which don't fire the HTML5 drag and drop events.
+	 * Mice use those instead.
+	 *
+	 * @param {PointerEvent} event
+	 * @param {number} columnIndex
+	 * @memberof Table
+	 */
+	columnPointerDown(event: PointerEvent, columnIndex: number) {
+		if (!this.columnsDraggable || event.pointerType === "mouse" || this.columnPointerDragIndex >= 0) {
+			return;
+		}
+		this.columnPointerDragIndex = columnIndex;
+		this.columnPointerDragX = event.clientX;
+
+		this.pointerMoveSubscription = fromEvent(document.body, "pointermove").subscribe((event: PointerEvent) => {
+			this.columnPointerMove(event);
+		});
+		this.pointerUpSubscription = merge(
+			fromEvent(document.body, "pointerup"),
+			fromEvent(document.body, "pointercancel")
+		).subscribe((event: PointerEvent) => {
+			this.columnPointerUp(event);
+		});
 	}
 
-	firstExpandedDataInRow(row) {
-		const found = row.find(d => d.expandedData);
-		if (found) {
-			return found.expandedData;
+	columnPointerMove(event: PointerEvent) {
+		// taps shouldn't cover the sort button with the drop areas
+		if (!this.isColumnDragging && Math.abs(event.clientX - this.columnPointerDragX) < 10) {
+			return;
+		}
+		this.isColumnDragging = true;
+
+		const headers = Array.from(this.elementRef.nativeElement.querySelectorAll("thead th[data-column-index]")) as HTMLElement[];
+		const header = headers.find(th => {
+			const rect = th.getBoundingClientRect();
+			return rect.left <= event.clientX && event.clientX < rect.right;
+		});
+		if (header) {
+			const rect = header.getBoundingClientRect();
+			this.columnDraggedHoverIndex = parseInt(header.getAttribute("data-column-index"), 10);
+			this.columnDraggedPosition = event.clientX < rect.left + rect.width / 2 ? "left" : "right";
 		}
-		return found;
 	}
 
-	firstExpandedTemplateInRow(row) {
-		const found = row.find(d => d.expandedTemplate);
-		if (found) {
-			return found.expandedTemplate;
+	columnPointerUp(event: PointerEvent) {
+		this.pointerMoveSubscription.unsubscribe();
+		this.pointerUpSubscription.unsubscribe();
+
+		if (event.type === "pointerup" && this.isColumnDragging && this.columnDraggedPosition) {
+			this.moveColumn(
+				this.columnPointerDragIndex,
+				this.columnDraggedHoverIndex + (this.columnDraggedPosition === "right" ? 1 : 0)
+			);
 		}
-		return found;
+		this.isColumnDragging = false;
+		this.columnPointerDragIndex = -1;
+		this.columnDraggedHoverIndex = -1;
+		this.columnDraggedPosition = "";
 	}
+
 	/**
-	 * Triggered when the user scrolls on the `<tbody>` element.
-	 * Emits the `scrollLoad` event.
+	 * Triggered when a filter popover closes.
+	 * Loads the filtered data if model has a `dataSource`, otherwise re-filters the rows
+	 * rendered with `virtualScroll`. Saves the view state of the model.
 	 *
-	 * @param {any} event
 	 * @memberof Table
 	 */
-	scrollToTop(event) {
-		event.target.parentElement.parentElement.parentElement.parentElement.children[1].scrollTop = 0;
-		this.model.isEnd = false;
+	onFilterClose() {
+		if (this.model.dataSource) {
+			this.model.loadPage(1);
+		} else {
+			this.refreshVirtualRows();
+		}
+		this.model.saveViewState();
+	}
+
+	/**
+	 * Filters the rows and updates the rows rendered when `virtualScroll` is enabled.
+	 *
+	 * Table calls it whenever model data changes, columns get sorted and filter popovers close.
+	 * Call it if you change filters or sort the model in other ways.
+	 *
+	 * @memberof Table
+	 */
+	refreshVirtualRows() {
+		if (!this.virtualScroll || !this.model) {
+			return;
+		}
+
+		this.unfilteredRowIndexes = [];
+		if (!this.noData) {
+			for (let i = 0; i < this.model.data.length; i++) {
+				if (!this.model.isRowHidden(i)) {
+					this.unfilteredRowIndexes.push(i);
+				}
+			}
+		}
+
+		this.updateVirtualRows();
+	}
+
+	/**
+	 * Calculates which rows should be rendered based on the scroll position of `tbody`
+	 * when `virtualScroll` is enabled.
+	 *
+	 * @memberof Table
+	 */
+	updateVirtualRows() {
+		if (!this.virtualScroll || !this.model) {
+			return;
+		}
+
+		const tbody: HTMLElement = this.elementRef.nativeElement.querySelector("tbody");
+		this.measureVirtualRows(tbody);
+
+		const scrollTop = tbody ? tbody.scrollTop : 0;
+		// until tbody is rendered, window is as much as can be visible
+		const viewportHeight = tbody && tbody.clientHeight ? tbody.clientHeight : window.innerHeight;
+		const heights = this.unfilteredRowIndexes.map(i => this.estimateRowHeight(this.model.data[i]));
+
+		let first = 0;
+		let firstTop = 0;
+		while (first < heights.length && firstTop + heights[first] <= scrollTop) {
+			firstTop += heights[first];
+			first++;
+		}
+
+		let last = first;
+		let lastBottom = firstTop;
+		while (last < heights.length && lastBottom < scrollTop + viewportHeight) {
+			lastBottom += heights[last];
+			last++;
+		}
+
+		let start = Math.max(0, first - this.virtualBuffer);
+		// always start on an even row so zebra stripes don't flip while scrolling
+		start -= start % 2;
+		const end = Math.min(heights.length, last + this.virtualBuffer);
+
+		this.virtualOffsetTop = 0;
+		this.virtualOffsetBottom = 0;
+		heights.forEach((height, i) => {
+			if (i < start) {
+				this.virtualOffsetTop += height;
+			} else if (i >= end) {
+				this.virtualOffsetBottom += height;
+			}
+		});
+
+		this.virtualRowIndexes = this.unfilteredRowIndexes.slice(start, end);
+		this.virtualRenderedRows = this.virtualRowIndexes.map(i => this.model.data[i]);
+	}
+
+	/**
+	 * `trackBy` of the rows `ngFor`, lets Angular reuse DOM rows of the rows with the same
+	 * `TableModel.trackBy` key.
+	 *
+	 * @memberof Table
+	 */
+	trackByRow = (index: number) => this.model.rowKey(index);
+
+	/**
+	 * `trackBy` of the rows `ngFor` when `virtualScroll` is on, where it loops over row indexes.
+	 *
+	 * @memberof Table
+	 */
+	trackByVirtualRow = (index: number, rowIndex: number) => this.model.rowKey(rowIndex);
+
+	/**
+	 * `trackBy` of the row groups `ngFor`.
+	 *
+	 * @memberof Table
+	 */
+	trackByGroup = (index: number, group: TableRowGroup) => group.key;
+
+	/**
+	 * Returns how many rows of the group aren't filtered out.
+	 *
+	 * @param {TableRowGroup} group
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	groupRowCount(group: TableRowGroup): number {
+		return group.rows.filter(index => !this.model.isRowFiltered(index)).length;
+	}
+
+	/**
+	 * Returns the rows of the group that aren't filtered out, to pass to `model.groupAggregate`.
+	 *
+	 * @param {TableRowGroup} group
+	 * @returns {Array<Array<TableItem>>}
+	 * @memberof Table
+	 */
+	groupRows(group: TableRowGroup): Array<Array<TableItem>> {
+		return group.rows
+			.filter(index => !this.model.isRowFiltered(index))
+			.map(index => this.model.data[index]);
+	}
+
+	/**
+	 * Checks if only some of the rows of the group are selected.
+	 *
+	 * @param {TableRowGroup} group
+	 * @returns {boolean}
+	 * @memberof Table
+	 */
+	isGroupIndeterminate(group: TableRowGroup): boolean {
+		return !this.model.isGroupSelected(group) &&
+			group.rows.some(index => !this.model.isRowFiltered(index) && this.model.rowsSelected[index]);
+	}
+
+	/**
+	 * Triggered when the checkbox of a group header row is clicked.
+	 * Selects or deselects all the rows of the group and updates the header checkbox state.
+	 * Emits the `selectRow` or `deselectRow` event for every row that changes.
+	 *
+	 * @param {TableRowGroup} group
+	 * @param {boolean} checked
+	 * @memberof Table
+	 */
+	onGroupCheckboxChange(group: TableRowGroup, checked: boolean) {
+		this.rangeSelection = false;
+		const changed = group.rows.filter(index => !this.model.isRowFiltered(index) && !!this.model.rowsSelected[index] !== checked);
+		this.model.selectGroup(group, checked);
+		changed.forEach(index => this.onRowCheckboxChange(index));
+	}
+
+	/**
+	 * Returns how many data columns are visible, the span of the group header cells.
+	 *
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	visibleColumnCount(): number {
+		return this.model.header.filter(column => column.visible).length;
+	}
+
+	/**
+	 * Checks if cells of the `index`th column hold the toggles of the child rows in a tree table.
+	 * That's the first visible column.
+	 *
+	 * @param {number} index
+	 * @returns {boolean}
+	 * @memberof Table
+	 */
+	isTreeCell(index: number): boolean {
+		return this.model.hasTreeRows() && this.model.header.findIndex(column => column.visible) === index;
+	}
+
+	/**
+	 * Returns how many columns the table has, including the expand and the selection columns.
+	 *
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	columnCount(): number {
+		return this.visibleColumnCount() + (this.model.hasExpandableRows() ? 1 : 0) + (this.showSelectionColumn ? 1 : 0);
+	}
+
+	/**
+	 * Returns `"sticky"` for the cells of the frozen columns and the header cells of a `stickyHeader`.
+	 *
+	 * @param {(string | number)} column `"expand"`, `"select"` or the index of the column
+	 * @param {boolean} [header=false]
+	 * @returns {string}
+	 * @memberof Table
+	 */
+	stickyPosition(column: string | number, header = false): string {
+		return this.stickyCells[column] || (header && this.stickyHeader) ? "sticky" : null;
+	}
+
+	/**
+	 * Returns the offset of the cells of a column frozen to `side`, `null` if it isn't.
+	 *
+	 * @param {(string | number)} column `"expand"`, `"select"` or the index of the column
+	 * @param {("left" | "right")} side
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	stickyOffset(column: string | number, side: "left" | "right"): number {
+		const offsets = this.stickyCells[column];
+		return offsets && offsets[side] !== undefined ? offsets[side] : null;
+	}
+
+	/**
+	 * Returns the z-index of the sticky cells, frozen header cells go over both the header and the frozen columns.
+	 *
+	 * @param {(string | number)} column `"expand"`, `"select"` or the index of the column
+	 * @param {boolean} [header=false]
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	stickyZIndex(column: string | number, header = false): number {
+		if (!this.stickyPosition(column, header)) {
+			return null;
+		}
+		return (header && this.stickyHeader ? 2 : 0) + (this.stickyCells[column] ? 1 : 0);
+	}
+
+	/**
+	 * Returns the filter popover template of the column. That's its `filterTemplate`, or the
+	 * default one if the column is one of the built-in filter header items.
+	 *
+	 * @param {TableHeaderItem} column
+	 * @returns {TemplateRef<any>}
+	 * @memberof Table
+	 */
+	filterTemplateFor(column: TableHeaderItem): TemplateRef<any> {
+		if (column.filterTemplate) {
+			return column.filterTemplate;
+		} else if (column instanceof TextFilterHeaderItem) {
+			return this.textFilterTemplate;
+		} else if (column instanceof NumberRangeFilterHeaderItem) {
+			return this.numberRangeFilterTemplate;
+		} else if (column instanceof DateRangeFilterHeaderItem) {
+			return this.dateRangeFilterTemplate;
+		} else if (column instanceof SelectFilterHeaderItem) {
+			return this.selectFilterTemplate;
+		}
+		return null;
+	}
+
+	/**
+	 * Handles keyboard navigation between cells when `isDataGrid` is on.
+	 *
+	 * Only keys pressed on the cells themselves are handled, so the controls and editors
+	 * inside the cells keep working as usual.
+	 *
+	 * @param {KeyboardEvent} event
+	 * @memberof Table
+	 */
+	onGridKeydown(event: KeyboardEvent) {
+		const cell = event.target as HTMLElement;
+		// the header cells handle alt + arrows on their own
+		if (!this.isDataGrid || event.defaultPrevented || this.gridCellOf(cell) !== cell) {
+			return;
+		}
+
+		const row = cell.parentElement;
+		const rows = this.gridRows();
+		const rowIndex = rows.indexOf(row);
+		const cellIndex = Array.prototype.indexOf.call(row.children, cell);
+		const cellInRow = (index: number) => {
+			const cells = rows[Math.max(0, Math.min(index, rows.length - 1))].children;
+			return cells[Math.min(cellIndex, cells.length - 1)] as HTMLElement;
+		};
+
+		let target: HTMLElement;
+		switch (event.key) {
+			case "Right": // IE specific value
+			case "ArrowRight": {
+				target = findNextElem(cell);
+				break;
+			}
+			case "Left": // IE specific value
+			case "ArrowLeft": {
+				target = findPrevElem(cell);
+				break;
+			}
+			case "Down": // IE specific value
+			case "ArrowDown": {
+				target = cellInRow(rowIndex + 1);
+				break;
+			}
+			case "Up": // IE specific value
+			case "ArrowUp": {
+				target = cellInRow(rowIndex - 1);
+				break;
+			}
+			case "PageDown": {
+				target = cellInRow(rowIndex + this.gridPageSize());
+				break;
+			}
+			case "PageUp": {
+				target = cellInRow(rowIndex - this.gridPageSize());
+				break;
+			}
+			case "Home": {
+				target = (event.ctrlKey ? rows[0] : row).firstElementChild as HTMLElement;
+				break;
+			}
+			case "End": {
+				target = (event.ctrlKey ? rows[rows.length - 1] : row).lastElementChild as HTMLElement;
+				break;
+			}
+			case " ":
+			case "Spacebar": { // IE specific value
+				event.preventDefault();
+				this.toggleGridRowSelection(row);
+				return;
+			}
+			case "Enter": {
+				// editable cells open their editor on their own
+				const button = cell.querySelector("button");
+				if (button) {
+					event.preventDefault();
+					button.click();
+				}
+				return;
+			}
+			default: {
+				return;
+			}
+		}
+
+		event.preventDefault();
+		if (target) {
+			this.focusGridCell(target);
+			if (this.cellSelection) {
+				// shift extends the selected range of cells, other moves clear it
+				const from = this.selectedCells ? this.selectedCells.start : this.cellPosition(cell);
+				const to = this.cellPosition(target);
+				this.selectedCells = event.shiftKey && from && to ? {start: from, end: to} : null;
+			}
+		}
+	}
+
+	/**
+	 * Moves the roving tabindex to the cell that received focus, for example by a click.
+	 *
+	 * @param {FocusEvent} event
+	 * @memberof Table
+	 */
+	onGridFocusIn(event: FocusEvent) {
+		const cell = this.isDataGrid ? this.gridCellOf(event.target as HTMLElement) : null;
+		if (cell && cell !== this.activeGridCell) {
+			this.setActiveGridCell(cell);
+		}
+	}
+
+	/**
+	 * Checks if cells of the `column`th column can be edited.
+	 *
+	 * @param {number} column
+	 * @returns {boolean}
+	 * @memberof Table
+	 */
+	isCellEditable(column: number): boolean {
+		const header = this.model.header[column];
+		return !!header && (!!header.editor || !!header.editTemplate);
+	}
+
+	/**
+	 * Checks if the cell is being edited.
+	 *
+	 * @param {number} row
+	 * @param {number} column
+	 * @returns {boolean}
+	 * @memberof Table
+	 */
+	isEditing(row: number, column: number): boolean {
+		return !!this.editingCell && this.editingCell.row === row && this.editingCell.column === column;
+	}
+
+	/**
+	 * Opens the editor of the cell, if its column is editable.
+	 *
+	 * Commits the value of the cell that's currently being edited first.
+	 *
+	 * @param {number} row
+	 * @param {number} column
+	 * @memberof Table
+	 */
+	startEdit(row: number, column: number) {
+		if (!this.isCellEditable(column) || this.isEditing(row, column)) {
+			return;
+		}
+		if (this.editingCell && !this.commitEdit()) {
+			return;
+		}
+
+		const header = this.model.header[column];
+		const item = this.model.data[row][column];
+		this.editingCell = {row, column};
+		this.editValue = item.data;
+		this.editInvalid = false;
+		this.editItems = (header.editOptions || []).map(option => ({
+			content: option,
+			selected: option === item.data
+		}));
+		this.editTemplateContext = {
+			data: item.data,
+			invalid: false,
+			commit: value => this.commitEdit(value),
+			cancel: () => this.cancelEdit()
+		};
+
+		// wait for the editor to render
+		setTimeout(() => {
+			const editor = this.elementRef.nativeElement.querySelector(".table_cell-editor");
+			const focusable = editor ? editor.querySelector("input, button, select, textarea, [tabindex]") : null;
+			if (focusable) {
+				focusable.focus();
+			}
+		});
+	}
+
+	/**
+	 * Saves `value` to the cell being edited if it passes `validate()` of the column,
+	 * closes the editor and emits `cellEdit` if the value changed.
+	 *
+	 * @param {*} [value=this.editValue]
+	 * @returns {boolean} `false` if the value is invalid and the editor stays open
+	 * @memberof Table
+	 */
+	commitEdit(value = this.editValue): boolean {
+		if (!this.editingCell) {
+			return true;
+		}
+
+		const { row, column } = this.editingCell;
+		const header = this.model.header[column];
+		const item = this.model.data[row][column];
+		if (header.editor === "number" && value !== null && value !== "") {
+			value = Number(value);
+		}
+
+		if (!header.validate(value, item)) {
+			this.editInvalid = true;
+			this.editTemplateContext.invalid = true;
+			return false;
+		}
+
+		this.editingCell = null;
+		const oldValue = item.data;
+		if (oldValue !== value) {
+			item.data = value;
+			this.model.invalidateAggregates();
+			this.cellEdit.emit({model: this.model, row, column, item, oldValue, newValue: value});
+		}
+		return true;
+	}
+
+	/**
+	 * Closes the editor without saving the value.
+	 *
+	 * @memberof Table
+	 */
+	cancelEdit() {
+		if (!this.editingCell) {
+			return;
+		}
+		const { row, column } = this.editingCell;
+		this.editingCell = null;
+		this.focusCell(row, column);
+	}
+
+	onEditorKeydown(event: KeyboardEvent) {
+		const { row, column } = this.editingCell;
+		const editor = this.model.header[column].editTemplate ? "custom" : this.model.header[column].editor;
+		switch (event.key) {
+			case "Esc": // IE specific value
+			case "Escape": {
+				event.preventDefault();
+				event.stopPropagation();
+				this.cancelEdit();
+				break;
+			}
+			case "Enter": {
+				// dropdown and custom editors handle enter themselves
+				if (editor === "dropdown" || editor === "custom") {
+					event.stopPropagation();
+					break;
+				}
+				event.preventDefault();
+				event.stopPropagation();
+				if (this.commitEdit()) {
+					this.editNextCell(row, column, "down");
+				}
+				break;
+			}
+			case "Tab": {
+				if (editor === "custom") {
+					break;
+				}
+				event.preventDefault();
+				event.stopPropagation();
+				if (this.commitEdit()) {
+					this.editNextCell(row, column, event.shiftKey ? "left" : "right");
+				}
+				break;
+			}
+		}
+	}
+
+	onEditorBlur(row: number, column: number) {
+		// the editor of the next cell might be open already
+		if (this.isEditing(row, column)) {
+			this.commitEdit();
+		}
+	}
+
+	onEditorSelect(event) {
+		const { row, column } = this.editingCell;
+		if (this.commitEdit(event.item && event.item.selected ? event.item.content : null)) {
+			this.focusCell(row, column);
+		}
+	}
+
+	onEditorCheckboxChange(checked: boolean) {
+		const { row, column } = this.editingCell;
+		if (this.commitEdit(checked)) {
+			this.focusCell(row, column);
+		}
+	}
+
+	/**
+	 * Checks if the cell is in `selectedCells`.
+	 *
+	 * @param {number} row
+	 * @param {number} column
+	 * @returns {boolean}
+	 * @memberof Table
+	 */
+	isCellSelected(row: number, column: number): boolean {
+		const range = this.selectedCells;
+		return !!range &&
+			row >= Math.min(range.start.row, range.end.row) && row <= Math.max(range.start.row, range.end.row) &&
+			column >= Math.min(range.start.column, range.end.column) && column <= Math.max(range.start.column, range.end.column);
+	}
+
+	/**
+	 * Starts selecting cells from the cell, or extends the selection to it on shift-click.
+	 *
+	 * @param {MouseEvent} event
+	 * @param {number} row
+	 * @param {number} column
+	 * @memberof Table
+	 */
+	onCellMouseDown(event: MouseEvent, row: number, column: number) {
+		if (!this.cellSelection || event.button !== 0 || this.isEditing(row, column)) {
+			return;
+		}
+		const start = event.shiftKey && this.selectedCells ? this.selectedCells.start : {row, column};
+		this.selectedCells = {start, end: {row, column}};
+
+		if (this.cellSelectionEndSubscription) {
+			this.cellSelectionEndSubscription.unsubscribe();
+		}
+		this.cellSelectionEndSubscription = fromEvent(document.body, "mouseup").subscribe(() => {
+			this.cellSelectionEndSubscription.unsubscribe();
+			this.cellSelectionEndSubscription = null;
+			this.clearTextSelection();
+		});
+	}
+
+	/**
+	 * Extends the selection to the cell while the mouse button is held down.
+	 *
+	 * @param {number} row
+	 * @param {number} column
+	 * @memberof Table
+	 */
+	onCellMouseEnter(row: number, column: number) {
+		if (!this.cellSelectionEndSubscription || !this.selectedCells) {
+			return;
+		}
+		this.selectedCells = {start: this.selectedCells.start, end: {row, column}};
+		this.clearTextSelection();
+	}
+
+	/**
+	 * Copies `selectedCells`, or the selected rows if no cells are selected, as TSV and HTML.
+	 *
+	 * Text selected in the page and the editors are copied as usual.
+	 *
+	 * @param {ClipboardEvent} event
+	 * @memberof Table
+	 */
+	onCopy(event: ClipboardEvent) {
+		if (!this.cellSelection || this.editingCell || !event.clipboardData || this.isTextInput(event.target as HTMLElement)) {
+			return;
+		}
+		const selection = window.getSelection ? window.getSelection() : null;
+		if (selection && !selection.isCollapsed && selection.toString()) {
+			return;
+		}
+
+		let rows: Array<number>;
+		let columns = this.model.header.map((column, index) => index);
+		if (this.selectedCells) {
+			const { start, end } = this.selectedCells;
+			rows = this.indexRange(start.row, end.row);
+			columns = this.indexRange(start.column, end.column);
+		} else {
+			rows = this.model.data.map((row, index) => index).filter(index => this.model.rowsSelected[index]);
+		}
+		if (rows.length === 0) {
+			return;
+		}
+
+		const { text, html } = this.model.exportCells(rows, columns);
+		event.clipboardData.setData("text/plain", text);
+		event.clipboardData.setData("text/html", html);
+		event.preventDefault();
+	}
+
+	/**
+	 * Pastes TSV from the clipboard into the cells, starting at the top left cell of `selectedCells`
+	 * or at the focused cell. Emits `cellEdit` for every changed cell.
+	 *
+	 * @param {ClipboardEvent} event
+	 * @memberof Table
+	 */
+	onPaste(event: ClipboardEvent) {
+		if (!this.enablePaste || this.editingCell || !event.clipboardData || this.isTextInput(event.target as HTMLElement)) {
+			return;
+		}
+		let start: TableCellPosition = this.cellPosition(event.target as HTMLElement);
+		if (this.selectedCells) {
+			const { row, column } = this.selectedCells.start;
+			const end = this.selectedCells.end;
+			start = {row: Math.min(row, end.row), column: Math.min(column, end.column)};
+		}
+		const text = event.clipboardData.getData("text/plain");
+		if (!start || !text) {
+			return;
+		}
+
+		event.preventDefault();
+		this.model.pasteCells(text, start.row, start.column)
+			.forEach(change => this.cellEdit.emit(Object.assign({model: this.model}, change)));
+	}
+
+	get scrollbarWidth() {
+		return getScrollbarWidth();
+	}
+
+	firstExpandedDataInRow(row) {
+		const found = row.find(d => d.expandedData);
+		if (found) {
+			return found.expandedData;
+		}
+		return found;
+	}
+
+	firstExpandedTemplateInRow(row) {
+		const found = row.find(d => d.expandedTemplate);
+		if (found) {
+			return found.expandedTemplate;
+		}
+		return found;
+	}
+	/**
+	 * Triggered when the user scrolls on the `<tbody>` element.
+	 * Emits the `scrollLoad` event.
+	 *
+	 * @param {any} event
+	 * @memberof Table
+	 */
+	scrollToTop(event) {
+		event.target.parentElement.parentElement.parentElement.parentElement.children[1].scrollTop = 0;
+		this.model.isEnd = false;
+	}
+
+	/**
+	 * Returns the grid rows of the table, header row first. Expanded parts of the rows aren't included.
+	 *
+	 * @protected
+	 * @returns {Array<HTMLElement>}
+	 * @memberof Table
+	 */
+	protected gridRows(): Array<HTMLElement> {
+		const table = this.elementRef.nativeElement.querySelector("table");
+		const rows: Array<HTMLElement> = Array.from(table.querySelectorAll("tr[role=row]"));
+		// skip rows of tables nested in the expanded rows
+		return rows.filter(row => row.parentElement.parentElement === table);
+	}
+
+	/**
+	 * Returns the grid cell containing `element`, or `null` if it's not inside one.
+	 *
+	 * @protected
+	 * @param {HTMLElement} element
+	 * @returns {HTMLElement}
+	 * @memberof Table
+	 */
+	protected gridCellOf(element: HTMLElement): HTMLElement {
+		const rows = this.gridRows();
+		for (let cell = element; cell && cell !== this.elementRef.nativeElement; cell = cell.parentElement) {
+			if (rows.indexOf(cell.parentElement) >= 0) {
+				return cell;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Makes the cell the only one in the tab order and focuses it.
+	 *
+	 * @protected
+	 * @param {HTMLElement} cell
+	 * @memberof Table
+	 */
+	protected focusGridCell(cell: HTMLElement) {
+		this.setActiveGridCell(cell);
+		cell.focus();
+	}
+
+	/**
+	 * Moves the roving tabindex from the active cell to `cell`.
+	 *
+	 * @protected
+	 * @param {HTMLElement} cell
+	 * @memberof Table
+	 */
+	protected setActiveGridCell(cell: HTMLElement) {
+		if (this.activeGridCell) {
+			this.activeGridCell.setAttribute("tabindex", "-1");
+		}
+		this.activeGridCell = cell;
+		cell.setAttribute("tabindex", "0");
+	}
+
+	/**
+	 * Sets `tabindex` of every cell to -1, except for the active one which gets 0.
+	 * Falls back to the first header cell if the active cell isn't rendered anymore.
+	 *
+	 * Controls inside the cells are taken out of the tab order, `restoreGridTabIndexes()` puts them back.
+	 *
+	 * @protected
+	 * @memberof Table
+	 */
+	protected updateGridTabIndexes() {
+		const rows = this.gridRows();
+		const cells = rows.reduce((all, row) => all.concat(Array.from(row.children)), []);
+		if (cells.indexOf(this.activeGridCell) < 0) {
+			this.activeGridCell = cells[0];
+		}
+		// forget the controls that aren't rendered anymore
+		this.gridControlTabIndexes.forEach((tabIndex, control) => {
+			if (!this.elementRef.nativeElement.contains(control)) {
+				this.gridControlTabIndexes.delete(control);
+			}
+		});
+		cells.forEach(cell => {
+			const tabIndex = cell === this.activeGridCell ? "0" : "-1";
+			if (cell.getAttribute("tabindex") !== tabIndex) {
+				cell.setAttribute("tabindex", tabIndex);
+			}
+			Array.from(cell.querySelectorAll("a[href], button, input, select, textarea, [tabindex]"))
+				.filter((control: HTMLElement) => control.getAttribute("tabindex") !== "-1")
+				.forEach((control: HTMLElement) => {
+					this.gridControlTabIndexes.set(control, control.getAttribute("tabindex"));
+					control.setAttribute("tabindex", "-1");
+				});
+		});
+	}
+
+	/**
+	 * Puts the controls inside the cells back in the tab order and takes the cells out of it,
+	 * once `isDataGrid` is turned off.
+	 *
+	 * @protected
+	 * @memberof Table
+	 */
+	protected restoreGridTabIndexes() {
+		this.gridRows().forEach(row => Array.from(row.children).forEach(cell => cell.removeAttribute("tabindex")));
+		this.gridControlTabIndexes.forEach((tabIndex, control) => {
+			if (tabIndex === null) {
+				control.removeAttribute("tabindex");
+			} else {
+				control.setAttribute("tabindex", tabIndex);
+			}
+		});
+		this.gridControlTabIndexes.clear();
+		this.activeGridCell = null;
+		this.gridRowsChanged = true;
+	}
+
+	/**
+	 * Number of rows Page Up and Page Down move by, based on the rows visible in `tbody`.
+	 *
+	 * @protected
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	protected gridPageSize(): number {
+		const tbody = this.elementRef.nativeElement.querySelector("tbody");
+		const row = tbody ? tbody.querySelector("tr[role=row]") : null;
+		if (!row || !row.offsetHeight) {
+			return 10;
+		}
+		return Math.max(1, Math.floor(Math.min(tbody.clientHeight, window.innerHeight) / row.offsetHeight));
+	}
+
+	/**
+	 * Makes the header of the model from the `ibm-table-column`s, and the rows along with it.
+	 *
+	 * @protected
+	 * @memberof Table
+	 */
+	protected updateColumns() {
+		if (this.columnChangeSubscription) {
+			this.columnChangeSubscription.unsubscribe();
+		}
+		if (!this.hasColumns()) {
+			return;
+		}
+		if (!this.model) {
+			this.model = new TableModel();
+		}
+		if (!this.model.trackBy) {
+			// keep the selection and expansion of the same objects
+			this.model.trackBy = row => this.rowObjects.get(row);
+		}
+
+		const columns = this.columns.toArray();
+		this.columnChangeSubscription = merge(...columns.map(column => column.columnChange)).subscribe(() => this.updateColumns());
+		const sortKeys = this.model.sortKeys;
+		this.model.header = columns.map(column => column.headerItem());
+		// `ngDoCheck()` shouldn't make the same rows again
+		this.rowsDiffer.diff(this.rows);
+		this.updateRows(sortKeys);
+	}
+
+	/**
+	 * Makes the data of the model from `rows`, keeping the sort order.
+	 *
+	 * @protected
+	 * @param {Array<TableSortKey>} [sortKeys=this.model.sortKeys]
+	 * @memberof Table
+	 */
+	protected updateRows(sortKeys = this.model.sortKeys) {
+		if (!this.hasColumns()) {
+			return;
+		}
+		const columns = this.columns.toArray();
+		this.model.data = (this.rows || []).map(object => {
+			const row = columns.map(column => column.item(object));
+			this.rowObjects.set(row, object);
+			return row;
+		});
+		if (sortKeys.length) {
+			this.model.sortBy(sortKeys);
+		}
+	}
+
+	/**
+	 * `true` if `ibm-table-column`s are declared in the content of the table.
+	 *
+	 * @protected
+	 * @returns {boolean}
+	 * @memberof Table
+	 */
+	protected hasColumns(): boolean {
+		return !!this.columns && this.columns.length > 0;
+	}
+
+	/**
+	 * Moves the column at `indexFrom` in front of the column at `indexTo`, saves the view state
+	 * and emits the `columnMove` event.
+	 *
+	 * @protected
+	 * @param {number} indexFrom
+	 * @param {number} indexTo
+	 * @memberof Table
+	 */
+	protected moveColumn(indexFrom: number, indexTo: number) {
+		if (indexTo === indexFrom || indexTo === indexFrom + 1) {
+			return;
+		}
+		this.model.moveColumn(indexFrom, indexTo);
+		this.model.saveViewState();
+		this.columnMove.emit({model: this.model, from: indexFrom, to: indexTo > indexFrom ? indexTo - 1 : indexTo});
+	}
+
+	/**
+	 * Toggles selection of the row, or of all the rows if it's the header row.
+	 *
+	 * @protected
+	 * @param {HTMLElement} row
+	 * @memberof Table
+	 */
+	protected toggleGridRowSelection(row: HTMLElement) {
+		this.rangeSelection = false;
+		if (!row.hasAttribute("aria-rowindex")) {
+			// group header rows
+			return;
+		}
+		const index = Number(row.getAttribute("aria-rowindex")) - 2;
+		if (index < 0) {
+			if (this.showSelectionColumn) {
+				this.selectAllCheckbox = !this.selectAllCheckbox;
+				this.onSelectAllCheckboxChange();
+			}
+		} else if (this.showSelectionColumn) {
+			this.model.selectRow(index, !this.model.rowsSelected[index]);
+			this.onRowCheckboxChange(index);
+		} else {
+			this.onRowSelect(index);
+		}
+	}
+
+	/**
+	 * Measures the frozen columns and sets `stickyCells`, the cells are positioned with `position: sticky`.
+	 *
+	 * Offsets of the frozen columns are the widths of the frozen columns before them,
+	 * so they follow `columnsResizable`. The expand and the selection columns are frozen along
+	 * with the columns pinned to the left.
+	 *
+	 * @protected
+	 * @memberof Table
+	 */
+	protected updateStickyCells() {
+		// the model might have been replaced by one without columns in the meantime
+		const header = this.model.header || [];
+		const visibleColumns = header
+			.map((column, index) => index)
+			.filter(index => header[index].visible);
+		const hasFrozenLeft = visibleColumns.some(index => header[index].frozen === "left");
+		const keys: Array<string | number> = []
+			.concat(this.model.hasExpandableRows() ? ["expand"] : [], this.showSelectionColumn ? ["select"] : [])
+			.concat(visibleColumns);
+		const sides = keys.map(key => typeof key === "string" ? (hasFrozenLeft ? "left" : undefined) : header[key].frozen);
+		const headerRow = this.elementRef.nativeElement.querySelector("thead > tr");
+		const stickyCells = {};
+		if (!headerRow || !sides.some(side => !!side)) {
+			this.stickyCells = stickyCells;
+			return;
+		}
+
+		const widths = Array.from(headerRow.children).map((cell: HTMLElement) => cell.offsetWidth || 0);
+		let left = 0;
+		keys.forEach((key, i) => {
+			if (sides[i] === "left") {
+				stickyCells[key] = {left};
+				left += widths[i];
+			}
+		});
+		let right = 0;
+		for (let i = keys.length - 1; i >= 0; i--) {
+			if (sides[i] === "right") {
+				stickyCells[keys[i]] = {right};
+				right += widths[i];
+			}
+		}
+		this.stickyCells = stickyCells;
+	}
+
+	/**
+	 * Describes the columns, so `stickyCells` are only measured again when the columns change.
+	 *
+	 * @protected
+	 * @returns {string}
+	 * @memberof Table
+	 */
+	protected getStickyColumnsKey(): string {
+		if (!this.model.header || !this.model.header.some(column => column.visible && !!column.frozen)) {
+			return "";
+		}
+		return [`${this.model.hasExpandableRows()}:${this.showSelectionColumn}`]
+			.concat(this.model.header.map(column => `${column.visible}:${column.frozen}:${column.style && column.style.width}`))
+			.join("|");
+	}
+
+	/**
+	 * Opens the editor of the next editable cell in `direction`, skipping filtered rows and
+	 * hidden columns. Left and right continue on the previous and next row.
+	 *
+	 * Focuses the current cell if there are no more cells to edit.
+	 *
+	 * @protected
+	 * @param {number} row
+	 * @param {number} column
+	 * @param {("down" | "left" | "right")} direction
+	 * @memberof Table
+	 */
+	protected editNextCell(row: number, column: number, direction: "down" | "left" | "right") {
+		const columnCount = this.model.header.length;
+		const canEdit = (r: number, c: number) =>
+			!this.model.isRowHidden(r) && this.model.header[c].visible && this.isCellEditable(c);
+
+		let r = row;
+		let c = column;
+		do {
+			if (direction === "down") {
+				r++;
+			} else {
+				c += direction === "right" ? 1 : -1;
+				if (c >= columnCount) {
+					c = 0;
+					r++;
+				} else if (c < 0) {
+					c = columnCount - 1;
+					r--;
+				}
+			}
+			if (r < 0 || r >= this.model.data.length) {
+				this.focusCell(row, column);
+				return;
+			}
+		} while (!canEdit(r, c));
+
+		this.startEdit(r, c);
+	}
+
+	/**
+	 * Focuses the editable cell.
+	 *
+	 * @protected
+	 * @param {number} row
+	 * @param {number} column
+	 * @memberof Table
+	 */
+	protected focusCell(row: number, column: number) {
+		// wait for the editor to close
+		setTimeout(() => {
+			const cell = this.elementRef.nativeElement.querySelector(`[data-edit-cell="${row}-${column}"]`);
+			if (cell) {
+				cell.focus();
+			}
+		});
+	}
+
+	/**
+	 * Returns the position of the cell containing `element`, or `null` if it's not inside a cell.
+	 *
+	 * @protected
+	 * @param {HTMLElement} element
+	 * @returns {TableCellPosition}
+	 * @memberof Table
+	 */
+	protected cellPosition(element: HTMLElement): TableCellPosition {
+		for (let cell = element; cell && cell !== this.elementRef.nativeElement; cell = cell.parentElement) {
+			const position = cell.getAttribute ? cell.getAttribute("data-cell") : null;
+			if (position) {
+				const [row, column] = position.split("-").map(Number);
+				return {row, column};
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the indexes from `from` to `to`, in ascending order.
+	 *
+	 * @protected
+	 * @param {number} from
+	 * @param {number} to
+	 * @returns {Array<number>}
+	 * @memberof Table
+	 */
+	protected indexRange(from: number, to: number): Array<number> {
+		const indexes = [];
+		for (let i = Math.min(from, to); i <= Math.max(from, to); i++) {
+			indexes.push(i);
+		}
+		return indexes;
+	}
+
+	/**
+	 * Checks if `element` handles copy and paste of its own text.
+	 *
+	 * @protected
+	 * @param {HTMLElement} element
+	 * @returns {boolean}
+	 * @memberof Table
+	 */
+	protected isTextInput(element: HTMLElement): boolean {
+		return !!element && (/^(INPUT|TEXTAREA|SELECT)$/.test(element.tagName) || element.isContentEditable);
+	}
+
+	/**
+	 * Removes the text selected by dragging over the cells, so it's clear the cells are selected instead.
+	 *
+	 * @protected
+	 * @memberof Table
+	 */
+	protected clearTextSelection() {
+		const selection = window.getSelection ? window.getSelection() : null;
+		if (!selection || !this.selectedCells) {
+			return;
+		}
+		const { start, end } = this.selectedCells;
+		if (start.row !== end.row || start.column !== end.column) {
+			selection.removeAllRanges();
+		}
+	}
+
+	/**
+	 * Returns measured height of the row, or `virtualRowHeight` if it wasn't rendered yet.
+	 *
+	 * @protected
+	 * @param {Array<TableItem>} row
+	 * @returns {number}
+	 * @memberof Table
+	 */
+	protected estimateRowHeight(row: Array<TableItem>): number {
+		return this.virtualRowHeights.has(row) ? this.virtualRowHeights.get(row) : this.virtualRowHeight;
+	}
+
+	/**
+	 * Measures the height of every rendered row, including its expanded part, as the
+	 * distance to the next rendered row.
+	 *
+	 * @protected
+	 * @param {HTMLElement} tbody
+	 * @memberof Table
+	 */
+	protected measureVirtualRows(tbody: HTMLElement) {
+		if (!tbody) {
+			return;
+		}
+
+		const rows = Array.from(tbody.querySelectorAll("tr[data-virtual-index]")) as HTMLElement[];
+		const bottomSpacer = tbody.querySelector(".table_virtual-spacer--bottom") as HTMLElement;
+		rows.forEach((tr, i) => {
+			const next = i + 1 < rows.length ? rows[i + 1] : bottomSpacer;
+			const position = this.virtualRowIndexes.indexOf(parseInt(tr.getAttribute("data-virtual-index"), 10));
+			const row = this.virtualRenderedRows[position];
+			if (next && row) {
+				const height = next.offsetTop - tr.offsetTop;
+				if (height > 0) {
+					this.virtualRowHeights.set(row, height);
+				}
+			}
+		});
 	}
 }
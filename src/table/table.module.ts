@@ -4,28 +4,67 @@ import { FormsModule } from "@angular/forms";
 
 import { DialogModule } from "./../dialog/dialog.module";
 import { NFormsModule } from "./../forms/forms.module";
+import { DropdownModule } from "./../dropdown/dropdown.module";
+import { CalendarModule } from "./../calendar/calendar.module";
+import { ContentSwitcherModule } from "./../content-switcher/content-switcher.module";
 
 import { Table } from "./table.component";
+import { TableToolbar } from "./table-toolbar.component";
+import { TableColumn } from "./table-column.directive";
 import { IconModule } from "./../icon/icon.module";
 import { StaticIconModule } from "..";
 import { I18nModule } from "./../i18n/i18n.module";
 
 export { Table } from "./table.component";
+export { TableToolbar } from "./table-toolbar.component";
+export { TableColumn } from "./table-column.directive";
 export { TableModel } from "./table-model.class";
 export { TableItem } from "./table-item.class";
-export { TableHeaderItem } from "./table-header-item.class";
+export { TableHeaderItem, TableCellFormat } from "./table-header-item.class";
+export { TableCellStyleRule } from "./table-cell-style-rule.interface";
+export { TableCellRange, TableCellPosition } from "./table-cell-range.interface";
+export { TextFilterHeaderItem } from "./text-filter-header-item.class";
+export { NumberRangeFilterHeaderItem } from "./number-range-filter-header-item.class";
+export { DateRangeFilterHeaderItem } from "./date-range-filter-header-item.class";
+export { SelectFilterHeaderItem } from "./select-filter-header-item.class";
+export { TableSortKey } from "./table-sort-key.interface";
+export { TableRowState } from "./table-row-state.interface";
+export { TableRowGroup } from "./table-row-group.interface";
+export { TableTreeRow } from "./table-tree-row.interface";
+export {
+	TableViewState,
+	TableColumnState,
+	TableViewSortKey
+} from "./table-view-state.interface";
+export { TableViewStateStorage } from "./table-view-state-storage.interface";
+export { LocalStorageTableViewStateStorage } from "./local-storage-table-view-state-storage.class";
+export { InMemoryTableViewStateStorage } from "./in-memory-table-view-state-storage.class";
+export {
+	TableDataSource,
+	TableDataRequest,
+	TableDataResponse
+} from "./table-data-source.interface";
+export { InMemoryTableDataSource } from "./in-memory-table-data-source.class";
+export { RemoteTableDataSource, RemoteTableDataResponse } from "./remote-table-data-source.class";
 
 @NgModule({
 	declarations: [
-		Table
+		Table,
+		TableToolbar,
+		TableColumn
 	],
 	exports: [
-		Table
+		Table,
+		TableToolbar,
+		TableColumn
 	],
 	imports: [
 		CommonModule,
 		NFormsModule,
 		FormsModule,
+		DropdownModule,
+		CalendarModule,
+		ContentSwitcherModule,
 		IconModule,
 		DialogModule,
 		StaticIconModule,
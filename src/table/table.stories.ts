@@ -8,7 +8,10 @@ import {
 	OnChanges,
 	SimpleChanges
 } from "@angular/core";
+import { of } from "rxjs";
+import { delay } from "rxjs/operators";
 import { storiesOf, moduleMetadata } from "@storybook/angular";
+import { action } from "@storybook/addon-actions";
 import {
 	withKnobs,
 	boolean,
@@ -21,6 +24,12 @@ import {
 	TableModel,
 	TableItem,
 	TableHeaderItem,
+	InMemoryTableDataSource,
+	TextFilterHeaderItem,
+	NumberRangeFilterHeaderItem,
+	DateRangeFilterHeaderItem,
+	SelectFilterHeaderItem,
+	LocalStorageTableViewStateStorage,
 	NFormsModule,
 	DialogModule
 } from "../";
@@ -35,7 +44,9 @@ import { clone } from "../utils/utils";
 			[size]="size"
 			[showSelectionColumn]="showSelectionColumn"
 			[striped]="striped"
-			(sort)="simpleSort($event)">
+			[isDataGrid]="isDataGrid"
+			(sort)="simpleSort($event)"
+			(multiSort)="simpleSort($event, true)">
 			<ng-content></ng-content>
 		</ibm-table>
 	`
@@ -46,6 +57,7 @@ class TableStory implements OnInit, OnChanges {
 	@Input() showSelectionColumn = true;
 	@Input() striped = true;
 	@Input() sortable = true;
+	@Input() isDataGrid = false;
 
 	ngOnInit() {
 		this.model.header = [
@@ -68,8 +80,8 @@ class TableStory implements OnInit, OnChanges {
 		}
 	}
 
-	simpleSort(index: number) {
-		sort(simpleModel, index);
+	simpleSort(index: number, additive = false) {
+		sort(simpleModel, index, additive);
 	}
 }
 
@@ -402,17 +414,158 @@ simpleModel.header = [
 	new TableHeaderItem({data: "Name"}), new TableHeaderItem({data: "hwer", style: {"width": "auto"} })
 ];
 
+const virtualModel = new TableModel();
+virtualModel.data = Array.from(Array(10000), (_, i) => [
+	new TableItem({data: `Name ${i + 1}`, expandedData: i % 5 === 0 ? `Details of name ${i + 1}` : undefined}),
+	new TableItem({data: `${Math.round(Math.random() * 1000)}`})
+]);
+virtualModel.header = [
+	new TableHeaderItem({data: "Name"}), new TableHeaderItem({data: "hwer"})
+];
+
+const dataSourceModel = new TableModel();
+dataSourceModel.header = [
+	new TableHeaderItem({data: "Name"}), new TableHeaderItem({data: "hwer", style: {"width": "auto"} })
+];
+dataSourceModel.dataSource = new InMemoryTableDataSource(Array.from(Array(105), (_, i) => [
+	new TableItem({data: `Name ${i + 1}`}),
+	new TableItem({data: `${Math.round(Math.random() * 1000)}`})
+]));
+dataSourceModel.pageLength = 10;
+dataSourceModel.loadPage(1);
+
+const editableModel = new TableModel();
+editableModel.header = [
+	new TableHeaderItem({data: "Name", editor: "text", validate: value => !!value}),
+	new TableHeaderItem({data: "Amount", editor: "number", validate: value => value >= 0}),
+	new TableHeaderItem({data: "Status", editor: "dropdown", editOptions: ["Active", "Inactive"]}),
+	new TableHeaderItem({data: "Enabled", editor: "checkbox", style: {"width": "auto"} })
+];
+editableModel.data = Array.from(Array(5), (_, i) => [
+	new TableItem({data: `Name ${i + 1}`}),
+	new TableItem({data: i * 10}),
+	new TableItem({data: i % 2 ? "Inactive" : "Active"}),
+	new TableItem({data: i % 2 === 0})
+]);
+
+const wideModel = new TableModel();
+wideModel.header = [
+	new TableHeaderItem({data: "Name", frozen: "left"}),
+	...Array.from(Array(10), (_, i) => new TableHeaderItem({data: `Column ${i + 1}`})),
+	new TableHeaderItem({data: "Total", frozen: "right"})
+];
+wideModel.data = Array.from(Array(50), (_, i) => [
+	new TableItem({data: `Name ${i + 1}`}),
+	...Array.from(Array(10), () => new TableItem({data: Math.round(Math.random() * 1000)})),
+	new TableItem({data: Math.round(Math.random() * 10000)})
+]);
+
+const filterModel = new TableModel();
+filterModel.header = [
+	new TextFilterHeaderItem({data: "Name"}),
+	new NumberRangeFilterHeaderItem({data: "Amount"}),
+	new DateRangeFilterHeaderItem({data: "Created"}),
+	new SelectFilterHeaderItem({data: "Status", options: ["Active", "Inactive", "Pending"], style: {"width": "auto"} })
+];
+filterModel.data = Array.from(Array(20), (_, i) => [
+	new TableItem({data: `Name ${i + 1}`}),
+	new TableItem({data: i * 10}),
+	new TableItem({data: new Date(2018, i % 12, i + 1)}),
+	new TableItem({data: ["Active", "Inactive", "Pending"][i % 3]})
+]);
+
+const groupModel = new TableModel();
+groupModel.header = [
+	new TableHeaderItem({data: "Team"}),
+	new TableHeaderItem({data: "Role"}),
+	new TableHeaderItem({data: "Name"}),
+	new TableHeaderItem({data: "Hours", aggregate: "sum"})
+];
+groupModel.data = Array.from(Array(20), (_, i) => [
+	new TableItem({data: ["Design", "Development", "Research"][i % 3]}),
+	new TableItem({data: ["Lead", "Member"][i % 2]}),
+	new TableItem({data: `Name ${i + 1}`}),
+	new TableItem({data: (i * 7) % 40})
+]);
+groupModel.groupAggregate = rows => `Total hours: ${rows.reduce((sum, row) => sum + row[3].data, 0)}`;
+groupModel.groupBy([0, 1]);
+
+const savedViewModel = new TableModel();
+savedViewModel.header = [
+	new TextFilterHeaderItem({data: "Name"}),
+	new NumberRangeFilterHeaderItem({data: "Amount"}),
+	new SelectFilterHeaderItem({data: "Status", options: ["Active", "Inactive", "Pending"], style: {"width": "auto"} })
+];
+savedViewModel.data = filterModel.data.map(row => [row[0], row[1], row[3]]);
+savedViewModel.viewStateStorage = new LocalStorageTableViewStateStorage();
+savedViewModel.viewStateKey = "storybook-table";
+savedViewModel.restoreViewState();
+
+const toolbarModel = new TableModel();
+toolbarModel.header = [
+	new TableHeaderItem({data: "Name"}),
+	new TableHeaderItem({data: "Amount"}),
+	new TableHeaderItem({data: "Status"})
+];
+toolbarModel.data = filterModel.data.map(row => [row[0], row[1], row[3]]);
+
+const treeModel = new TableModel();
+treeModel.header = [
+	new TextFilterHeaderItem({data: "Name"}),
+	new TableHeaderItem({data: "Size (KB)"})
+];
+const file = (name: string, size: number) => [new TableItem({data: name}), new TableItem({data: size})];
+treeModel.setTreeData([
+	{row: file("src", 12), expanded: true, children: [
+		{row: file("table", 8), children: [
+			{row: file("table.component.ts", 5)},
+			{row: file("table-model.class.ts", 3)}
+		]},
+		{row: file("index.ts", 4)}
+	]},
+	{row: file("node_modules", 2048), hasChildren: true},
+	{row: file("package.json", 1)}
+]);
+// pretend the children are loaded from a server
+treeModel.loadChildRows = row => of([
+	{row: file("@angular", 1024), hasChildren: true},
+	{row: file("rxjs", 512), hasChildren: true}
+]).pipe(delay(1000));
+
+const formattedModel = new TableModel();
+formattedModel.header = [
+	new TableHeaderItem({data: "Name"}),
+	new TableHeaderItem({
+		data: "Balance",
+		format: "currency",
+		aggregate: "sum",
+		cellStyleRules: [{condition: data => data < 0, context: "error"}]
+	}),
+	new TableHeaderItem({
+		data: "Usage",
+		format: "percentage",
+		cellStyleRules: [{condition: data => data > 0.9, context: "warning", style: {"font-weight": "bold"}}]
+	}),
+	new TableHeaderItem({data: "Storage", format: "bytes"}),
+	new TableHeaderItem({data: "Last login", format: "date", formatOptions: {year: "numeric", month: "short", day: "numeric"}})
+];
+formattedModel.data = [
+	["Ann", 1250.5, 0.42, 5 * 1024 * 1024, new Date(2018, 8, 12)],
+	["Bob", -320, 0.95, 1.2 * 1024 * 1024 * 1024, new Date(2018, 10, 3)],
+	["Cid", 87000, 0.08, 640 * 1024, new Date(2018, 6, 28)]
+].map(row => row.map(data => new TableItem({data})));
+
 const emptyModel = new TableModel();
 emptyModel.header = [
 	new TableHeaderItem({data: "Name"}), new TableHeaderItem({data: "hwer", style: {"width": "auto"} })
 ];
 
-function sort(model, index: number) {
+function sort(model, index: number, additive = false) {
 	if (model.header[index].sorted) {
 		// if already sorted flip sorting direction
 		model.header[index].ascending = model.header[index].descending;
 	}
-	model.sort(index);
+	model.sort(index, additive);
 }
 
 
@@ -441,7 +594,8 @@ storiesOf("Table", module).addDecorator(
 			[size]="size"
 			[showSelectionColumn]="showSelectionColumn"
 			[striped]="striped"
-			[sortable]="sortable">
+			[sortable]="sortable"
+			[isDataGrid]="isDataGrid">
 		</app-table>
 	`,
 		props: {
@@ -449,7 +603,8 @@ storiesOf("Table", module).addDecorator(
 			size: selectV2("size", {Small: "sm", Normal: "md", Large: "lg"}, "md", "table-size-selection"),
 			showSelectionColumn: boolean("showSelectionColumn", true),
 			striped: boolean("striped", true),
-			sortable: boolean("sortable", true)
+			sortable: boolean("sortable", true),
+			isDataGrid: boolean("isDataGrid", false)
 		}
 	}))
 	.add("with no data", () => ({
@@ -476,6 +631,35 @@ storiesOf("Table", module).addDecorator(
 			striped: boolean("striped", true)
 		}
 	}))
+	.add("with virtual scroll", () => ({
+		template: `
+			<ibm-table
+				class="virtual-table"
+				[model]="model"
+				[size]="size"
+				[virtualScroll]="true"
+				[showSelectionColumn]="showSelectionColumn"
+				[striped]="striped"
+				(sort)="sort(model, $event)">
+			</ibm-table>
+		`,
+		styles: [`
+			.virtual-table ::ng-deep thead,
+			.virtual-table ::ng-deep tbody {
+				display: block;
+			}
+			.virtual-table ::ng-deep tbody {
+				height: 400px;
+			}
+		`],
+		props: {
+			model: virtualModel,
+			sort: sort,
+			size: selectV2("size", {Small: "sm", Normal: "md", Large: "lg"}, "md", "table-size-selection"),
+			showSelectionColumn: boolean("showSelectionColumn", true),
+			striped: boolean("striped", true)
+		}
+	}))
 	.add("with expansion", () => ({
 		template: `
 			<app-expansion-table
@@ -526,5 +710,195 @@ storiesOf("Table", module).addDecorator(
 			model: simpleModel,
 			totalDataLength: number("totalDataLength", 105)
 		}
+	}))
+	.add("with data source", () => ({
+		template: `
+			<ibm-table
+				[model]="model"
+				[selectAcrossPages]="true"
+				(sort)="sort(model, $event)"
+				(multiSort)="sort(model, $event, true)">
+			</ibm-table>
+			<ibm-pagination [model]="model"></ibm-pagination>
+		`,
+		props: {
+			model: dataSourceModel,
+			sort: sort
+		}
+	}))
+	.add("with inline editing", () => ({
+		template: `
+			<ibm-table [model]="model" (sort)="sort(model, $event)" (cellEdit)="cellEdit($event)"></ibm-table>
+		`,
+		props: {
+			model: editableModel,
+			sort: sort,
+			cellEdit: event => console.log("cellEdit", event.oldValue, event.newValue)
+		}
+	}))
+	.add("with copy and paste", () => ({
+		template: `
+			<p>Drag over the cells or shift-click to select them, then copy them into a spreadsheet.</p>
+			<p>Cells copied from a spreadsheet can be pasted into the editable columns.</p>
+			<ibm-table
+				class="clipboard-table"
+				[model]="model"
+				[cellSelection]="true"
+				[enablePaste]="true"
+				(cellEdit)="cellEdit($event)">
+			</ibm-table>
+		`,
+		styles: [`
+			.clipboard-table td.table_cell--selected {
+				background-color: #d0e2ff;
+			}
+		`],
+		props: {
+			model: editableModel,
+			cellEdit: action("cell edited")
+		}
+	}))
+	.add("with sticky header and frozen columns", () => ({
+		template: `
+			<div class="sticky-table">
+				<ibm-table [model]="model" [stickyHeader]="true" [columnsResizable]="true" (sort)="sort(model, $event)"></ibm-table>
+			</div>
+		`,
+		styles: [`
+			.sticky-table {
+				max-height: 400px;
+				overflow: auto;
+			}
+			.sticky-table th,
+			.sticky-table td.table_cell--frozen {
+				background-color: #fff;
+			}
+		`],
+		props: {
+			model: wideModel,
+			sort: sort
+		}
+	}))
+	.add("with built-in filters", () => ({
+		template: `
+			<button class="bx--btn bx--btn--sm bx--btn--secondary" (click)="model.clearFilters()">Clear all filters</button>
+			<button class="bx--btn bx--btn--sm bx--btn--secondary" (click)="download(model.exportCSV(), 'table.csv')">Export CSV</button>
+			<button class="bx--btn bx--btn--sm bx--btn--secondary" (click)="download(model.exportJSON(), 'table.json')">Export JSON</button>
+			<ibm-table [model]="model" (sort)="sort(model, $event)"></ibm-table>
+		`,
+		props: {
+			model: filterModel,
+			sort: sort,
+			download: (content: string, fileName: string) => {
+				const link = document.createElement("a");
+				link.href = URL.createObjectURL(new Blob([content]));
+				link.download = fileName;
+				link.click();
+			}
+		}
+	}))
+	.add("with toolbar", () => ({
+		template: `
+			<ibm-table-toolbar [model]="model" [(size)]="size">
+				<button class="bx--btn bx--btn--primary bx--btn--sm" (click)="deleteSelected(model)">Delete</button>
+			</ibm-table-toolbar>
+			<ibm-table [model]="model" [size]="size"></ibm-table>
+		`,
+		props: {
+			model: toolbarModel,
+			size: "md",
+			deleteSelected: (model: TableModel) => {
+				for (let i = model.data.length - 1; i >= 0; i--) {
+					if (model.rowsSelected[i]) {
+						model.deleteRow(i);
+					}
+				}
+			}
+		}
+	}))
+	.add("with saved view", () => ({
+		template: `
+			<p>Sort, filter, move or resize the columns, then reload the page.</p>
+			<ibm-table
+				[model]="model"
+				[columnsDraggable]="true"
+				[columnsResizable]="true"
+				(sort)="sort(model, $event)">
+			</ibm-table>
+		`,
+		props: {
+			model: savedViewModel,
+			sort: sort
+		}
+	}))
+	.add("with resizable and movable columns", () => ({
+		template: `
+			<p>Alt + left and right arrows move the focused column, alt + shift + left and right arrows resize it.</p>
+			<ibm-table
+				[model]="model"
+				[columnsDraggable]="true"
+				[columnsResizable]="true"
+				(columnResize)="columnResize($event)"
+				(columnMove)="columnMove($event)">
+			</ibm-table>
+		`,
+		props: {
+			model: simpleModel,
+			columnResize: action("column resized"),
+			columnMove: action("column moved")
+		}
+	}))
+	.add("with formatted cells", () => ({
+		template: `
+			<ibm-table [model]="model" (sort)="sort(model, $event)"></ibm-table>
+		`,
+		props: {
+			model: formattedModel,
+			sort: sort
+		}
+	}))
+	.add("with declared columns", () => ({
+		template: `
+			<button class="bx--btn bx--btn--secondary bx--btn--sm" (click)="addUser(users)">Add a user</button>
+			<ibm-table [rows]="users" size="sm">
+				<ibm-table-column field="name" header="Name" sortable></ibm-table-column>
+				<ibm-table-column field="address.city" header="City" sortable></ibm-table-column>
+				<ibm-table-column field="balance" header="Balance" format="currency" sortable></ibm-table-column>
+				<ibm-table-column header="Email" [cellTemplate]="emailTemplate"></ibm-table-column>
+			</ibm-table>
+			<ng-template #emailTemplate let-data="data">
+				<a [href]="'mailto:' + data.email">{{data.email}}</a>
+			</ng-template>
+		`,
+		props: {
+			users: [
+				{name: "Ann", email: "ann@example.com", address: {city: "Rome"}, balance: 1250.5},
+				{name: "Bob", email: "bob@example.com", address: {city: "Oslo"}, balance: -320},
+				{name: "Cid", email: "cid@example.com", address: {city: "Bern"}, balance: 87000}
+			],
+			addUser: users => users.push({
+				name: `User ${users.length + 1}`,
+				email: `user${users.length + 1}@example.com`,
+				address: {city: "Lima"},
+				balance: Math.round(Math.random() * 10000)
+			})
+		}
+	}))
+	.add("with tree rows", () => ({
+		template: `
+			<ibm-table [model]="model" (sort)="sort(model, $event)"></ibm-table>
+		`,
+		props: {
+			model: treeModel,
+			sort: sort
+		}
+	}))
+	.add("with row grouping and aggregates", () => ({
+		template: `
+			<ibm-table [model]="model" (sort)="sort(model, $event)"></ibm-table>
+		`,
+		props: {
+			model: groupModel,
+			sort: sort
+		}
 	}));
-
@@ -0,0 +1,51 @@
+import { TableHeaderItem } from "./table-header-item.class";
+import { TableItem } from "./table-item.class";
+
+/**
+ * `TableHeaderItem` that filters out rows whose data doesn't contain the text from the filter.
+ *
+ * `ibm-table` provides a popover with a text input for it, unless `filterTemplate` is set.
+ * The text is stored in `filterData.data`.
+ *
+ * ```typescript
+ * this.model.header = [new TextFilterHeaderItem({data: "Name"})];
+ * ```
+ *
+ * @export
+ * @class TextFilterHeaderItem
+ * @extends {TableHeaderItem}
+ */
+export class TextFilterHeaderItem extends TableHeaderItem {
+	/**
+	 * Set to `true` to match the case of the text.
+	 *
+	 * @memberof TextFilterHeaderItem
+	 */
+	caseSensitive: boolean;
+
+	/**
+	 * 1 if there is text to filter by, 0 otherwise.
+	 *
+	 * @memberof TextFilterHeaderItem
+	 */
+	set filterCount(n) {}
+	get filterCount() {
+		return this.filterData && this.filterData.data ? 1 : 0;
+	}
+
+	filter(item: TableItem): boolean {
+		const text = this.filterData ? this.filterData.data : "";
+		if (!text) {
+			return false;
+		}
+		const data = item.data == null ? "" : String(item.data);
+		if (this.caseSensitive) {
+			return data.indexOf(text) < 0;
+		}
+		return data.toLowerCase().indexOf(String(text).toLowerCase()) < 0;
+	}
+
+	clearFilter() {
+		this.filterData.data = "";
+	}
+}